@@ -1,5 +1,20 @@
-import mysql from 'mysql2/promise';
+import { EventEmitter } from 'events';
 import { v4 as uuidv4 } from 'uuid';
+import { getDriver } from './drivers';
+import { SshConfig, SshTunnel, withTestTunnel } from './sshTunnel';
+import { SslConfig, withSslFallback } from './tls';
+import type { DatabaseDriver, DialectInfo } from './drivers';
+import type {
+  ColumnChange,
+  ColumnDefinition,
+  ForeignKeyDefinition,
+  IndexDefinition,
+  QueryErrorInfo,
+  QueryResult,
+  RowChange,
+  RowKey,
+  TableDataOptions,
+} from './drivers/types';
 
 export interface DatabaseConfig {
   type: 'mysql' | 'postgresql' | 'sqlite';
@@ -10,414 +25,624 @@ export interface DatabaseConfig {
   database?: string;
   filename?: string;
   name?: string;
+  ssh?: SshConfig;
+  ssl?: SslConfig;
+}
+
+export type ConnectionState = 'connected' | 'reconnecting' | 'offline';
+
+// 推送给渲染进程的连接状态变化
+export interface ConnectionStateEvent {
+  connectionId: string;
+  state: ConnectionState;
+  error?: string;
+}
+
+// 编辑器会话中手动开启的事务
+export interface TransactionInfo {
+  sessionId: string;
+  database: string;
+  startedAt: number;
+  // 事务中已成功执行的语句数
+  statements: number;
+  // 连接断开（重连或会话连接断开）后事务已被服务器回滚，提交或回滚前该会话不能再执行语句
+  lost?: boolean;
 }
 
 interface Connection {
   id: string;
   config: DatabaseConfig;
-  connection: mysql.Connection | null;
+  driver: DatabaseDriver<any>;
+  // 驱动自己的连接句柄
+  handle: unknown;
+  tunnel?: SshTunnel;
+  state: ConnectionState;
+  keepAlive?: NodeJS.Timeout;
+  // 正在进行的重连，并发调用共用同一次重连
+  reconnecting?: Promise<void>;
+  // 按会话 ID 记录进行中的手动事务
+  transactions: Map<string, TransactionInfo>;
 }
 
-export class DatabaseManager {
+// 执行计划：MySQL / PostgreSQL 为数据库返回的 JSON，SQLite 为 EXPLAIN QUERY PLAN 的行
+export interface ExplainResult {
+  dialect: DialectInfo['name'];
+  plan: any;
+}
+
+// 编辑器查询的参数值，value 为界面输入的文本
+export interface QueryParameter {
+  type: 'string' | 'number' | 'null' | 'date';
+  value?: string;
+}
+
+// 日期或日期时间，时间部分可选
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}(?:[ T]\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?)?$/;
+
+const toDriverValue = ({ type, value = '' }: QueryParameter, index: number): any => {
+  switch (type) {
+    case 'null':
+      return null;
+    case 'number': {
+      const number = Number(value);
+      if (value.trim() === '' || !Number.isFinite(number)) {
+        throw new Error(`Parameter ${index + 1} is not a valid number: "${value}"`);
+      }
+      return number;
+    }
+    case 'date': {
+      const date = value.trim();
+      if (!DATE_PATTERN.test(date)) {
+        throw new Error(`Parameter ${index + 1} is not a valid date: "${value}"`);
+      }
+      // 统一为各数据库都能识别的 YYYY-MM-DD HH:MM:SS 格式
+      return date.replace('T', ' ');
+    }
+    case 'string':
+      return value;
+    default:
+      throw new Error(`Unsupported parameter type: ${type}`);
+  }
+};
+
+// 保活检测间隔
+const KEEPALIVE_INTERVAL = 30000;
+// 每轮重连的最大尝试次数，失败后标记为离线，下次调用或保活检测时再重试
+const MAX_RECONNECT_ATTEMPTS = 5;
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// 修改数据库结构的语句（跳过开头的注释）
+const DDL_PATTERN = /^(?:\s+|--[^\n]*(?:\n|$)|#[^\n]*(?:\n|$)|\/\*[\s\S]*?\*\/)*(?:CREATE|ALTER|DROP|RENAME)\b/i;
+
+/**
+ * 管理数据库连接。连接断开时自动按保存的配置重连，
+ * 状态变化通过 'state' 事件（ConnectionStateEvent）通知；
+ * 建表、改表、删表或编辑器中执行 DDL 后通过 'schema' 事件（连接 ID）通知。
+ */
+export class DatabaseManager extends EventEmitter {
   private connections: Map<string, Connection> = new Map();
 
   async testConnection(config: DatabaseConfig): Promise<boolean> {
-    if (config.type === 'mysql') {
-      const connection = await mysql.createConnection({
-        host: config.host,
-        port: config.port || 3306,
-        user: config.user,
-        password: config.password,
-        database: config.database,
-      });
-      await connection.end();
+    const driver = getDriver(config.type);
+    const test = (target: DatabaseConfig) => withSslFallback(target, c => driver.testConnection(c));
+    if (!this.usesTunnel(config, driver)) {
+      await test(config);
       return true;
     }
-    throw new Error(`Database type ${config.type} is not yet supported`);
+    await withTestTunnel(config.ssh, config.host || 'localhost', config.port || driver.defaultPort!, (host, port) =>
+      test(this.viaTunnel(config, host, port))
+    );
+    return true;
   }
 
   async connect(config: DatabaseConfig): Promise<string> {
+    const driver = getDriver(config.type);
     const connectionId = uuidv4();
-    let connection: mysql.Connection | null = null;
-
-    if (config.type === 'mysql') {
-      connection = await mysql.createConnection({
-        host: config.host,
-        port: config.port || 3306,
-        user: config.user,
-        password: config.password,
-        database: config.database,
-      });
-    } else {
-      throw new Error(`Database type ${config.type} is not yet supported`);
-    }
+    const { handle, tunnel } = await this.open(connectionId, config, driver);
 
-    this.connections.set(connectionId, {
+    const conn: Connection = {
       id: connectionId,
       config,
-      connection,
-    });
+      driver,
+      handle,
+      tunnel,
+      state: 'connected',
+      transactions: new Map(),
+    };
+    conn.keepAlive = setInterval(() => this.checkHealth(conn), KEEPALIVE_INTERVAL);
+    this.connections.set(connectionId, conn);
+    this.setState(conn, 'connected');
 
     return connectionId;
   }
 
   async disconnect(connectionId: string): Promise<void> {
     const conn = this.connections.get(connectionId);
-    if (conn && conn.connection) {
-      await conn.connection.end();
+    if (conn) {
       this.connections.delete(connectionId);
+      clearInterval(conn.keepAlive);
+      // 重连中或离线时旧连接已经关闭
+      if (conn.state === 'connected') {
+        await this.close(conn.driver, conn.handle, conn.tunnel);
+      }
+    }
+  }
+
+  // 建立驱动连接，需要时先建立 SSH 隧道
+  private async open(
+    connectionId: string,
+    config: DatabaseConfig,
+    driver: DatabaseDriver<any>
+  ): Promise<{ handle: unknown; tunnel?: SshTunnel }> {
+    const onSessionLost = (sessionId: string) => this.markTransactionLost(connectionId, sessionId);
+    if (!this.usesTunnel(config, driver)) {
+      return { handle: await withSslFallback(config, c => driver.connect(c, onSessionLost)) };
+    }
+
+    // 先建立 SSH 隧道，驱动连接本地转发端口
+    const tunnel = await SshTunnel.open(config.ssh!, config.host || 'localhost', config.port || driver.defaultPort!);
+    try {
+      const handle = await withSslFallback(this.viaTunnel(config, '127.0.0.1', tunnel.localPort), c => driver.connect(c, onSessionLost));
+      return { handle, tunnel };
+    } catch (e) {
+      tunnel.close();
+      throw e;
+    }
+  }
+
+  private async close(driver: DatabaseDriver<any>, handle: unknown, tunnel?: SshTunnel): Promise<void> {
+    try {
+      await driver.disconnect(handle);
+    } finally {
+      tunnel?.close();
+    }
+  }
+
+  private setState(conn: Connection, state: ConnectionState, error?: string): void {
+    conn.state = state;
+    const event: ConnectionStateEvent = { connectionId: conn.id, state, error };
+    this.emit('state', event);
+  }
+
+  // 定时保活：检测失败或已离线时尝试重连
+  private async checkHealth(conn: Connection): Promise<void> {
+    if (conn.reconnecting) return;
+    try {
+      if (conn.state !== 'offline') {
+        await conn.driver.ping(conn.handle);
+        return;
+      }
+    } catch {
+      // 保活失败即视为连接不可用
+    }
+    await this.reconnect(conn).catch(() => undefined);
+  }
+
+  // 按保存的配置重建连接，失败时按指数退避重试
+  private reconnect(conn: Connection): Promise<void> {
+    if (!conn.reconnecting) {
+      conn.reconnecting = this.doReconnect(conn).finally(() => {
+        conn.reconnecting = undefined;
+      });
+    }
+    return conn.reconnecting;
+  }
+
+  private async doReconnect(conn: Connection): Promise<void> {
+    this.setState(conn, 'reconnecting');
+    // 旧连接上的事务随连接关闭而回滚
+    for (const transaction of conn.transactions.values()) {
+      transaction.lost = true;
+    }
+    await this.close(conn.driver, conn.handle, conn.tunnel).catch(() => undefined);
+    conn.tunnel = undefined;
+
+    let lastError: any;
+    for (let attempt = 0; attempt < MAX_RECONNECT_ATTEMPTS; attempt++) {
+      if (attempt > 0) {
+        await delay(Math.min(1000 * 2 ** (attempt - 1), 10000));
+      }
+      // 重连期间连接已被关闭
+      if (!this.connections.has(conn.id)) return;
+      try {
+        const { handle, tunnel } = await this.open(conn.id, conn.config, conn.driver);
+        if (!this.connections.has(conn.id)) {
+          await this.close(conn.driver, handle, tunnel).catch(() => undefined);
+          return;
+        }
+        conn.handle = handle;
+        conn.tunnel = tunnel;
+        this.setState(conn, 'connected');
+        return;
+      } catch (e) {
+        lastError = e;
+      }
+    }
+
+    this.setState(conn, 'offline', lastError?.message);
+    throw new Error(`Connection lost and reconnect failed: ${lastError?.message}`);
+  }
+
+  /**
+   * 在连接上执行操作。离线或重连中时先等待重连；
+   * 操作因连接断开失败且保活检测也失败时重连，只读操作（retry）随后自动重试一次。
+   */
+  private async withConnection<T>(
+    connectionId: string,
+    operation: (conn: Connection) => Promise<T>,
+    { retry = false }: { retry?: boolean } = {}
+  ): Promise<T> {
+    const conn = this.getConnection(connectionId);
+    if (conn.reconnecting || conn.state === 'offline') {
+      await this.reconnect(conn);
     }
+    try {
+      return await operation(conn);
+    } catch (e: any) {
+      if (!conn.driver.isConnectionLost(e)) throw conn.driver.translateError(conn.handle, e);
+      // 只是单个连接（如编辑器会话的连接）断开、连接本身仍可用时不重连，以免丢弃其他会话和事务
+      const alive = await conn.driver.ping(conn.handle).then(() => true, () => false);
+      if (!alive) {
+        await this.reconnect(conn);
+      }
+      if (!retry) throw e;
+      return operation(conn);
+    }
+  }
+
+  // 文件数据库（SQLite）不需要隧道
+  private usesTunnel(config: DatabaseConfig, driver: DatabaseDriver<any>): boolean {
+    return !!config.ssh?.enabled && driver.defaultPort !== undefined;
+  }
+
+  // 经隧道连接时驱动连接本地转发端口，证书仍按原主机名校验
+  private viaTunnel(config: DatabaseConfig, host: string, port: number): DatabaseConfig {
+    return {
+      ...config,
+      host,
+      port,
+      ssl: config.ssl && { ...config.ssl, serverName: config.ssl.serverName || config.host },
+    };
   }
 
-  private getConnection(connectionId: string): mysql.Connection {
+  private getConnection(connectionId: string): Connection {
     const conn = this.connections.get(connectionId);
-    if (!conn || !conn.connection) {
+    if (!conn) {
       throw new Error('Connection not found or closed');
     }
-    return conn.connection;
+    return conn;
+  }
+
+  // 连接的显示名称，未命名时使用主机或文件名
+  getConnectionName(connectionId: string): string {
+    const { config } = this.getConnection(connectionId);
+    return config.name || (config.type === 'sqlite' ? config.filename : config.host) || config.type;
+  }
+
+  // 获取连接对应的方言信息（类型列表、功能支持情况），供界面使用
+  getDialect(connectionId: string): DialectInfo {
+    const { name, identifierQuote, dataTypes, capabilities } = this.getConnection(connectionId).driver.dialect;
+    return { name, identifierQuote, dataTypes, capabilities };
   }
 
   async getDatabases(connectionId: string): Promise<string[]> {
-    const connection = this.getConnection(connectionId);
-    const [rows] = await connection.query('SHOW DATABASES');
-    return (rows as any[]).map((row: any) => Object.values(row)[0] as string);
+    return this.withConnection(connectionId, ({ driver, handle }) => driver.getDatabases(handle), { retry: true });
+  }
+
+  // 获取 schema 列表（MySQL 中 schema 即数据库）
+  async getSchemas(connectionId: string, database: string): Promise<string[]> {
+    return this.withConnection(connectionId, ({ driver, handle }) => driver.getSchemas(handle, database), { retry: true });
   }
 
   async getTables(connectionId: string, database: string): Promise<string[]> {
-    const connection = this.getConnection(connectionId);
-    await connection.query(`USE \`${database}\``);
-    const [rows] = await connection.query('SHOW TABLES');
-    return (rows as any[]).map((row: any) => Object.values(row)[0] as string);
+    return this.withConnection(connectionId, ({ driver, handle }) => driver.getTables(handle, database), { retry: true });
   }
 
   async getTableStructure(connectionId: string, database: string, table: string): Promise<any[]> {
-    const connection = this.getConnection(connectionId);
-    await connection.query(`USE \`${database}\``);
-    const [rows] = await connection.query(`DESCRIBE \`${table}\``);
-    return rows as any[];
+    return this.withConnection(connectionId, ({ driver, handle }) => driver.getTableStructure(handle, database, table), { retry: true });
   }
 
-  async executeQuery(connectionId: string, database: string, query: string): Promise<any> {
-    const connection = this.getConnection(connectionId);
-    await connection.query(`USE \`${database}\``);
-    
-    const startTime = Date.now();
-    const [rows, fields] = await connection.query(query);
-    const executionTime = Date.now() - startTime;
+  async executeQuery(connectionId: string, database: string, query: string, sessionId?: string): Promise<QueryResult> {
+    return this.runEditorQuery(connectionId, database, query, sessionId);
+  }
 
-    return {
-      columns: fields?.map((f: any) => f.name) || [],
-      rows: rows as any[],
-      executionTime,
-    };
+  // 带参数的编辑器查询：query 中使用驱动的位置占位符（? 或 $n），参数按类型转换后由驱动绑定
+  async executeParameterized(
+    connectionId: string,
+    database: string,
+    query: string,
+    params: QueryParameter[],
+    sessionId?: string
+  ): Promise<QueryResult> {
+    return this.runEditorQuery(connectionId, database, query, sessionId, params.map(toDriverValue));
   }
 
-  async getTableData(connectionId: string, database: string, table: string): Promise<any> {
-    const connection = this.getConnection(connectionId);
-    await connection.query(`USE \`${database}\``);
-    
-    const startTime = Date.now();
-    const [rows, fields] = await connection.query(`SELECT * FROM \`${table}\``);
-    const executionTime = Date.now() - startTime;
-    
-    return {
-      columns: fields?.map((f: any) => f.name) || [],
-      rows: rows as any[],
-      totalCount: (rows as any[]).length,
-      executionTime,
-    };
+  // 在编辑器会话中获取查询的执行计划，不实际执行查询
+  async explainQuery(
+    connectionId: string,
+    database: string,
+    query: string,
+    params: QueryParameter[] = [],
+    sessionId?: string
+  ): Promise<ExplainResult> {
+    const { dialect } = this.getConnection(connectionId).driver;
+    const sql = dialect.explain(query.trim().replace(/;+$/, ''));
+    const values = params.length > 0 ? params.map(toDriverValue) : undefined;
+    const result = await this.withConnection(connectionId, ({ driver, handle }) => driver.executeQuery(handle, database, sql, sessionId, values));
+    if (dialect.name === 'sqlite') {
+      return { dialect: dialect.name, plan: result.rows };
+    }
+    // 计划在第一行第一列，PostgreSQL 的 json 类型已由驱动解析
+    const value = result.rows[0]?.[result.columns[0]];
+    if (value === undefined) {
+      throw new Error('EXPLAIN returned no plan');
+    }
+    return { dialect: dialect.name, plan: typeof value === 'string' ? JSON.parse(value) : value };
   }
 
-  // 创建表
-  async createTable(
-    connectionId: string, 
-    database: string, 
-    tableName: string, 
-    columns: Array<{
-      name: string, 
-      type: string, 
-      nullable: boolean, 
-      defaultValue?: string, 
-      primaryKey?: boolean,
-      autoIncrement?: boolean,
-      unique?: boolean,
-      unsigned?: boolean,
-      comment?: string
-    }>,
-    indexes?: Array<{name: string, columns: string[], type: 'INDEX' | 'UNIQUE' | 'FULLTEXT'}>
-  ): Promise<void> {
-    const connection = this.getConnection(connectionId);
-    await connection.query(`USE \`${database}\``);
-    
-    const columnDefs: string[] = [];
-    const primaryKeys: string[] = [];
-    const uniqueKeys: string[] = [];
-    
-    columns.forEach(col => {
-      let def = `\`${col.name}\` ${col.type}`;
-      if (col.unsigned) def += ' UNSIGNED';
-      if (!col.nullable) def += ' NOT NULL';
-      if (col.autoIncrement) def += ' AUTO_INCREMENT';
-      if (col.defaultValue !== undefined && col.defaultValue !== '') {
-        // 处理特殊默认值
-        if (col.defaultValue.toUpperCase() === 'NULL') {
-          def += ' DEFAULT NULL';
-        } else if (col.defaultValue.toUpperCase() === 'CURRENT_TIMESTAMP') {
-          def += ' DEFAULT CURRENT_TIMESTAMP';
-        } else {
-          def += ` DEFAULT '${col.defaultValue}'`;
-        }
+  // 编辑器查询失败的错误码、分类和出错位置，连接已关闭时只有错误消息
+  describeQueryError(connectionId: string, query: string, error: any): QueryErrorInfo {
+    const conn = this.connections.get(connectionId);
+    return conn ? conn.driver.describeError(error, query) : { message: error.message };
+  }
+
+  private async runEditorQuery(
+    connectionId: string,
+    database: string,
+    query: string,
+    sessionId?: string,
+    params?: any[]
+  ): Promise<QueryResult> {
+    const transaction = sessionId ? this.getConnection(connectionId).transactions.get(sessionId) : undefined;
+    if (!transaction) {
+      const result = await this.withConnection(connectionId, ({ driver, handle }) => driver.executeQuery(handle, database, query, sessionId, params));
+      this.notifyIfDdl(connectionId, query);
+      return result;
+    }
+
+    // 事务丢失后不再执行语句，否则会在自动提交的新连接上执行；提交或回滚后才清除记录
+    const end = /^\s*(COMMIT|ROLLBACK)\b/i.exec(query);
+    if (transaction.lost && !end) {
+      throw new Error('Transaction was rolled back because the connection was lost, roll back to continue');
+    }
+    // 事务中手写的 COMMIT / ROLLBACK 按提交、回滚处理，以便同步事务状态
+    if (end) {
+      const startTime = Date.now();
+      if (end[1].toUpperCase() === 'COMMIT') {
+        await this.commitTransaction(connectionId, sessionId!);
+      } else {
+        await this.rollbackTransaction(connectionId, sessionId!);
       }
-      if (col.comment) def += ` COMMENT '${col.comment}'`;
-      
-      columnDefs.push(def);
-      
-      if (col.primaryKey) primaryKeys.push(`\`${col.name}\``);
-      if (col.unique && !col.primaryKey) uniqueKeys.push(`\`${col.name}\``);
-    });
-    
-    // 添加主键约束
-    if (primaryKeys.length > 0) {
-      columnDefs.push(`PRIMARY KEY (${primaryKeys.join(', ')})`);
+      return { columns: [], rows: [], affectedRows: 0, executionTime: Date.now() - startTime };
     }
-    
-    // 添加唯一约束
-    uniqueKeys.forEach(uk => {
-      columnDefs.push(`UNIQUE KEY (${uk})`);
-    });
-    
-    // 添加索引
-    if (indexes && indexes.length > 0) {
-      indexes.forEach((idx, i) => {
-        const idxName = idx.name || `idx_${tableName}_${i}`;
-        const idxCols = idx.columns.map(c => `\`${c}\``).join(', ');
-        if (idx.type === 'UNIQUE') {
-          columnDefs.push(`UNIQUE KEY \`${idxName}\` (${idxCols})`);
-        } else if (idx.type === 'FULLTEXT') {
-          columnDefs.push(`FULLTEXT KEY \`${idxName}\` (${idxCols})`);
-        } else {
-          columnDefs.push(`KEY \`${idxName}\` (${idxCols})`);
+    const result = await this.withConnection(connectionId, ({ driver, handle }) => driver.executeQuery(handle, database, query, sessionId, params))
+      .catch(e => {
+        // 会话连接断开，事务已随连接回滚，驱动下次使用时重建会话
+        if (this.connections.get(connectionId)?.driver.isConnectionLost(e)) {
+          transaction.lost = true;
         }
+        throw e;
       });
+    transaction.statements++;
+    this.notifyIfDdl(connectionId, query);
+    return result;
+  }
+
+  private notifyIfDdl(connectionId: string, query: string): void {
+    if (DDL_PATTERN.test(query)) {
+      this.emit('schema', connectionId);
+    }
+  }
+
+  // 会话连接断开，其中的事务已被服务器回滚
+  private markTransactionLost(connectionId: string, sessionId: string): void {
+    const transaction = this.connections.get(connectionId)?.transactions.get(sessionId);
+    if (transaction) {
+      transaction.lost = true;
     }
-    
-    await connection.query(`CREATE TABLE \`${tableName}\` (${columnDefs.join(', ')})`);
+  }
+
+  // 修改表结构，完成后通知 'schema' 事件
+  private async alterSchema(connectionId: string, operation: (conn: Connection) => Promise<void>): Promise<void> {
+    await this.withConnection(connectionId, operation);
+    this.emit('schema', connectionId);
+  }
+
+  // 在编辑器会话上开启手动事务，之后该会话的查询都在事务中执行，直到提交或回滚
+  async beginTransaction(connectionId: string, database: string, sessionId: string): Promise<TransactionInfo> {
+    const conn = this.getConnection(connectionId);
+    if (conn.transactions.has(sessionId)) {
+      throw new Error('A transaction is already open in this session');
+    }
+    await this.withConnection(connectionId, ({ driver, handle }) => driver.beginTransaction(handle, database, sessionId));
+    const transaction: TransactionInfo = { sessionId, database, startedAt: Date.now(), statements: 0 };
+    conn.transactions.set(sessionId, transaction);
+    return transaction;
+  }
+
+  async commitTransaction(connectionId: string, sessionId: string): Promise<void> {
+    const conn = this.getConnection(connectionId);
+    const transaction = conn.transactions.get(sessionId);
+    if (!transaction) {
+      throw new Error('No open transaction in this session');
+    }
+    try {
+      if (transaction.lost) {
+        // 驱动中的记录一并清除，之后该会话重新建立连接
+        await conn.driver.rollbackTransaction(conn.handle, sessionId).catch(() => undefined);
+        throw new Error('Transaction was rolled back because the connection was lost');
+      }
+      await conn.driver.commitTransaction(conn.handle, sessionId);
+    } finally {
+      conn.transactions.delete(sessionId);
+    }
+  }
+
+  async rollbackTransaction(connectionId: string, sessionId: string): Promise<void> {
+    const conn = this.getConnection(connectionId);
+    const transaction = conn.transactions.get(sessionId);
+    if (!transaction) {
+      throw new Error('No open transaction in this session');
+    }
+    try {
+      // 连接断开时事务已被回滚，只需清除记录（重连后驱动中已没有该事务）
+      if (transaction.lost) {
+        await conn.driver.rollbackTransaction(conn.handle, sessionId).catch(() => undefined);
+      } else {
+        await conn.driver.rollbackTransaction(conn.handle, sessionId);
+      }
+    } finally {
+      conn.transactions.delete(sessionId);
+    }
+  }
+
+  // 回滚所有连接上进行中的手动事务，用于关闭窗口前；回滚失败时关闭会话，由数据库回滚
+  async rollbackAllTransactions(): Promise<void> {
+    const pending = Array.from(this.connections.values()).flatMap(conn =>
+      Array.from(conn.transactions.keys(), sessionId =>
+        this.rollbackTransaction(conn.id, sessionId)
+          .catch(() => this.closeSession(conn.id, sessionId))
+          .catch(() => undefined)
+      )
+    );
+    await Promise.all(pending);
+  }
+
+  getTransaction(connectionId: string, sessionId: string): TransactionInfo | null {
+    return this.connections.get(connectionId)?.transactions.get(sessionId) || null;
+  }
+
+  // 统计进行中的手动事务数，不指定连接时统计所有连接，用于断开连接或退出前提示
+  countTransactions(connectionId?: string): number {
+    const connections = connectionId
+      ? [this.connections.get(connectionId)].filter((c): c is Connection => !!c)
+      : Array.from(this.connections.values());
+    return connections.reduce((count, conn) => count + conn.transactions.size, 0);
+  }
+
+  // 取消编辑器会话中正在执行的查询，不因连接断开而重连
+  async cancelQuery(connectionId: string, sessionId: string): Promise<boolean> {
+    const { driver, handle } = this.getConnection(connectionId);
+    return driver.cancelQuery(handle, sessionId);
+  }
+
+  // 关闭会话时未提交的事务会被回滚
+  async closeSession(connectionId: string, sessionId: string): Promise<void> {
+    const { driver, handle, transactions } = this.getConnection(connectionId);
+    transactions.delete(sessionId);
+    await driver.closeSession(handle, sessionId);
+  }
+
+  async getTableData(connectionId: string, database: string, table: string, options?: TableDataOptions): Promise<QueryResult> {
+    return this.withConnection(connectionId, ({ driver, handle }) => driver.getTableData(handle, database, table, options), { retry: true });
+  }
+
+  // 创建表
+  async createTable(
+    connectionId: string,
+    database: string,
+    tableName: string,
+    columns: ColumnDefinition[],
+    indexes?: IndexDefinition[]
+  ): Promise<void> {
+    return this.alterSchema(connectionId, ({ driver, handle }) =>
+      driver.createTable(handle, database, tableName, columns, indexes)
+    );
   }
 
   // 删除表
   async dropTable(connectionId: string, database: string, table: string): Promise<void> {
-    const connection = this.getConnection(connectionId);
-    await connection.query(`USE \`${database}\``);
-    await connection.query(`DROP TABLE \`${table}\``);
+    return this.alterSchema(connectionId, ({ driver, handle }) => driver.dropTable(handle, database, table));
+  }
+
+  // 重命名表
+  async renameTable(connectionId: string, database: string, table: string, newName: string): Promise<void> {
+    return this.alterSchema(connectionId, ({ driver, handle }) => driver.renameTable(handle, database, table, newName));
   }
 
   // 获取表的列信息（用于确定主键）
   async getTableColumns(connectionId: string, database: string, table: string): Promise<any[]> {
-    const connection = this.getConnection(connectionId);
-    await connection.query(`USE \`${database}\``);
-    const [rows] = await connection.query(`SHOW COLUMNS FROM \`${table}\``);
-    return rows as any[];
+    return this.withConnection(connectionId, ({ driver, handle }) => driver.getTableColumns(handle, database, table), { retry: true });
   }
 
   // 更新行数据
-  async updateRow(connectionId: string, database: string, table: string, primaryKey: {column: string, value: any}, updates: Record<string, any>): Promise<void> {
-    const connection = this.getConnection(connectionId);
-    await connection.query(`USE \`${database}\``);
-    
-    const setClauses = Object.entries(updates)
-      .map(([col]) => `\`${col}\` = ?`)
-      .join(', ');
-    const values = [...Object.values(updates), primaryKey.value];
-    
-    await connection.query(
-      `UPDATE \`${table}\` SET ${setClauses} WHERE \`${primaryKey.column}\` = ?`,
-      values
-    );
+  async updateRow(connectionId: string, database: string, table: string, key: RowKey, updates: Record<string, any>): Promise<void> {
+    return this.withConnection(connectionId, ({ driver, handle }) => driver.updateRow(handle, database, table, key, updates));
   }
 
   // 删除行
-  async deleteRow(connectionId: string, database: string, table: string, primaryKey: {column: string, value: any}): Promise<void> {
-    const connection = this.getConnection(connectionId);
-    await connection.query(`USE \`${database}\``);
-    await connection.query(
-      `DELETE FROM \`${table}\` WHERE \`${primaryKey.column}\` = ?`,
-      [primaryKey.value]
-    );
-  }
-
-  // 格式化默认值
-  private formatDefaultValue(defaultValue: string): string {
-    if (!defaultValue) return '';
-    const upper = defaultValue.toUpperCase();
-    // 这些特殊值不需要引号
-    const specialValues = ['NULL', 'CURRENT_TIMESTAMP', 'CURRENT_DATE', 'CURRENT_TIME', 'NOW()'];
-    if (specialValues.some(v => upper.startsWith(v))) {
-      return defaultValue;
-    }
-    // 数字不需要引号
-    if (/^-?\d+(\.\d+)?$/.test(defaultValue)) {
-      return defaultValue;
-    }
-    // 空字符串
-    if (defaultValue === "''") {
-      return "''";
-    }
-    // 其他值需要引号
-    return `'${defaultValue}'`;
+  async deleteRow(connectionId: string, database: string, table: string, key: RowKey): Promise<void> {
+    return this.withConnection(connectionId, ({ driver, handle }) => driver.deleteRow(handle, database, table, key));
   }
 
   // 添加列
-  async addColumn(connectionId: string, database: string, table: string, column: {name: string, type: string, nullable: boolean, defaultValue?: string}): Promise<void> {
-    const connection = this.getConnection(connectionId);
-    await connection.query(`USE \`${database}\``);
-    
-    let sql = `ALTER TABLE \`${table}\` ADD COLUMN \`${column.name}\` ${column.type}`;
-    if (!column.nullable) sql += ' NOT NULL';
-    if (column.defaultValue !== undefined && column.defaultValue !== '') {
-      sql += ` DEFAULT ${this.formatDefaultValue(column.defaultValue)}`;
-    }
-    
-    await connection.query(sql);
+  async addColumn(connectionId: string, database: string, table: string, column: ColumnChange): Promise<void> {
+    return this.alterSchema(connectionId, ({ driver, handle }) => driver.addColumn(handle, database, table, column));
   }
 
   // 修改列
-  async modifyColumn(connectionId: string, database: string, table: string, oldName: string, column: {name: string, type: string, nullable: boolean, defaultValue?: string}): Promise<void> {
-    const connection = this.getConnection(connectionId);
-    await connection.query(`USE \`${database}\``);
-    
-    let sql = `ALTER TABLE \`${table}\` CHANGE COLUMN \`${oldName}\` \`${column.name}\` ${column.type}`;
-    if (!column.nullable) sql += ' NOT NULL';
-    if (column.defaultValue !== undefined && column.defaultValue !== '') {
-      sql += ` DEFAULT ${this.formatDefaultValue(column.defaultValue)}`;
-    }
-    
-    await connection.query(sql);
+  async modifyColumn(connectionId: string, database: string, table: string, oldName: string, column: ColumnChange): Promise<void> {
+    return this.alterSchema(connectionId, ({ driver, handle }) => driver.modifyColumn(handle, database, table, oldName, column));
   }
 
   // 删除列
   async dropColumn(connectionId: string, database: string, table: string, columnName: string): Promise<void> {
-    const connection = this.getConnection(connectionId);
-    await connection.query(`USE \`${database}\``);
-    await connection.query(`ALTER TABLE \`${table}\` DROP COLUMN \`${columnName}\``);
+    return this.alterSchema(connectionId, ({ driver, handle }) => driver.dropColumn(handle, database, table, columnName));
   }
 
   // 插入行
   async insertRow(connectionId: string, database: string, table: string, data: Record<string, any>): Promise<void> {
-    const connection = this.getConnection(connectionId);
-    await connection.query(`USE \`${database}\``);
-    
-    const columns = Object.keys(data).map(c => `\`${c}\``).join(', ');
-    const placeholders = Object.keys(data).map(() => '?').join(', ');
-    const values = Object.values(data);
-    
-    await connection.query(
-      `INSERT INTO \`${table}\` (${columns}) VALUES (${placeholders})`,
-      values
-    );
+    return this.withConnection(connectionId, ({ driver, handle }) => driver.insertRow(handle, database, table, data));
   }
 
   // 批量删除行
-  async deleteRows(connectionId: string, database: string, table: string, primaryKey: {column: string, values: any[]}): Promise<number> {
-    const connection = this.getConnection(connectionId);
-    await connection.query(`USE \`${database}\``);
-    
-    const placeholders = primaryKey.values.map(() => '?').join(', ');
-    const [result] = await connection.query(
-      `DELETE FROM \`${table}\` WHERE \`${primaryKey.column}\` IN (${placeholders})`,
-      primaryKey.values
-    );
-    return (result as any).affectedRows;
+  async deleteRows(connectionId: string, database: string, table: string, keys: RowKey[]): Promise<number> {
+    return this.withConnection(connectionId, ({ driver, handle }) => driver.deleteRows(handle, database, table, keys));
+  }
+
+  // 在一个事务中提交数据表格暂存的修改
+  async applyChanges(connectionId: string, database: string, table: string, changes: RowChange[]): Promise<number> {
+    return this.withConnection(connectionId, ({ driver, handle }) => driver.applyChanges(handle, database, table, changes));
   }
 
   // 清空表数据
   async truncateTable(connectionId: string, database: string, table: string): Promise<void> {
-    const connection = this.getConnection(connectionId);
-    await connection.query(`USE \`${database}\``);
-    await connection.query(`TRUNCATE TABLE \`${table}\``);
+    return this.withConnection(connectionId, ({ driver, handle }) => driver.truncateTable(handle, database, table));
   }
 
   // 获取表的索引
   async getTableIndexes(connectionId: string, database: string, table: string): Promise<any[]> {
-    const connection = this.getConnection(connectionId);
-    await connection.query(`USE \`${database}\``);
-    const [rows] = await connection.query(`SHOW INDEX FROM \`${table}\``);
-    return rows as any[];
+    return this.withConnection(connectionId, ({ driver, handle }) => driver.getTableIndexes(handle, database, table), { retry: true });
   }
 
   // 获取表的外键
   async getTableForeignKeys(connectionId: string, database: string, table: string): Promise<any[]> {
-    const connection = this.getConnection(connectionId);
-    const [rows] = await connection.query(`
-      SELECT 
-        CONSTRAINT_NAME as name,
-        COLUMN_NAME as column,
-        REFERENCED_TABLE_NAME as refTable,
-        REFERENCED_COLUMN_NAME as refColumn
-      FROM INFORMATION_SCHEMA.KEY_COLUMN_USAGE
-      WHERE TABLE_SCHEMA = ? AND TABLE_NAME = ? AND REFERENCED_TABLE_NAME IS NOT NULL
-    `, [database, table]);
-    return rows as any[];
+    return this.withConnection(connectionId, ({ driver, handle }) => driver.getTableForeignKeys(handle, database, table), { retry: true });
   }
 
   // 添加索引
-  async addIndex(connectionId: string, database: string, table: string, index: {name: string, columns: string[], type: string}): Promise<void> {
-    const connection = this.getConnection(connectionId);
-    await connection.query(`USE \`${database}\``);
-    
-    const cols = index.columns.map(c => `\`${c}\``).join(', ');
-    let sql = '';
-    if (index.type === 'UNIQUE') {
-      sql = `CREATE UNIQUE INDEX \`${index.name}\` ON \`${table}\` (${cols})`;
-    } else if (index.type === 'FULLTEXT') {
-      sql = `CREATE FULLTEXT INDEX \`${index.name}\` ON \`${table}\` (${cols})`;
-    } else {
-      sql = `CREATE INDEX \`${index.name}\` ON \`${table}\` (${cols})`;
-    }
-    await connection.query(sql);
+  async addIndex(connectionId: string, database: string, table: string, index: IndexDefinition): Promise<void> {
+    return this.alterSchema(connectionId, ({ driver, handle }) => driver.addIndex(handle, database, table, index));
   }
 
   // 删除索引
   async dropIndex(connectionId: string, database: string, table: string, indexName: string): Promise<void> {
-    const connection = this.getConnection(connectionId);
-    await connection.query(`USE \`${database}\``);
-    await connection.query(`DROP INDEX \`${indexName}\` ON \`${table}\``);
+    return this.alterSchema(connectionId, ({ driver, handle }) => driver.dropIndex(handle, database, table, indexName));
   }
 
   // 添加外键
-  async addForeignKey(connectionId: string, database: string, table: string, fk: {name: string, column: string, refTable: string, refColumn: string, onDelete?: string, onUpdate?: string}): Promise<void> {
-    const connection = this.getConnection(connectionId);
-    await connection.query(`USE \`${database}\``);
-    
-    let sql = `ALTER TABLE \`${table}\` ADD CONSTRAINT \`${fk.name}\` FOREIGN KEY (\`${fk.column}\`) REFERENCES \`${fk.refTable}\`(\`${fk.refColumn}\`)`;
-    if (fk.onDelete) sql += ` ON DELETE ${fk.onDelete}`;
-    if (fk.onUpdate) sql += ` ON UPDATE ${fk.onUpdate}`;
-    await connection.query(sql);
+  async addForeignKey(connectionId: string, database: string, table: string, fk: ForeignKeyDefinition): Promise<void> {
+    return this.alterSchema(connectionId, ({ driver, handle }) => driver.addForeignKey(handle, database, table, fk));
   }
 
   // 删除外键
   async dropForeignKey(connectionId: string, database: string, table: string, fkName: string): Promise<void> {
-    const connection = this.getConnection(connectionId);
-    await connection.query(`USE \`${database}\``);
-    await connection.query(`ALTER TABLE \`${table}\` DROP FOREIGN KEY \`${fkName}\``);
+    return this.alterSchema(connectionId, ({ driver, handle }) => driver.dropForeignKey(handle, database, table, fkName));
   }
 
   // 修改主键
   async modifyPrimaryKey(connectionId: string, database: string, table: string, columns: string[]): Promise<void> {
-    const connection = this.getConnection(connectionId);
-    await connection.query(`USE \`${database}\``);
-    
-    // 先删除旧主键
-    try {
-      await connection.query(`ALTER TABLE \`${table}\` DROP PRIMARY KEY`);
-    } catch (e) {
-      // 可能没有主键
-    }
-    
-    // 添加新主键
-    if (columns.length > 0) {
-      const cols = columns.map(c => `\`${c}\``).join(', ');
-      await connection.query(`ALTER TABLE \`${table}\` ADD PRIMARY KEY (${cols})`);
-    }
+    return this.alterSchema(connectionId, ({ driver, handle }) => driver.modifyPrimaryKey(handle, database, table, columns));
   }
 }
-
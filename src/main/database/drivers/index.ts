@@ -0,0 +1,22 @@
+import type { DatabaseConfig } from '../databaseManager';
+import { MysqlDriver } from './mysqlDriver';
+import { PostgresDriver } from './postgresDriver';
+import { SqliteDriver } from './sqliteDriver';
+import type { DatabaseDriver } from './types';
+
+export type { DatabaseDriver, DialectInfo } from './types';
+
+// 新增数据库类型时在这里注册驱动
+const drivers: Partial<Record<DatabaseConfig['type'], DatabaseDriver<any>>> = {
+  mysql: new MysqlDriver(),
+  postgresql: new PostgresDriver(),
+  sqlite: new SqliteDriver(),
+};
+
+export function getDriver(type: DatabaseConfig['type']): DatabaseDriver<any> {
+  const driver = drivers[type];
+  if (!driver) {
+    throw new Error(`Database type ${type} is not yet supported`);
+  }
+  return driver;
+}
@@ -0,0 +1,589 @@
+import mysql from 'mysql2/promise';
+import * as net from 'net';
+import type { DatabaseConfig } from '../databaseManager';
+import { buildTlsOptions } from '../tls';
+import { ErrorClue, RunResult, SqlDriver, TransactionRunner } from './sqlDriver';
+import type {
+  ColumnChange,
+  ColumnDefinition,
+  DataTypeInfo,
+  Dialect,
+  ForeignKeyDefinition,
+  IndexDefinition,
+  QueryErrorKind,
+  QueryResult,
+  QueryWarning,
+} from './types';
+
+const MYSQL_TYPES: DataTypeInfo[] = [
+  { value: 'INT', category: 'integer', hasLength: false },
+  { value: 'BIGINT', category: 'integer', hasLength: false },
+  { value: 'SMALLINT', category: 'integer', hasLength: false },
+  { value: 'TINYINT', category: 'integer', hasLength: false },
+  { value: 'VARCHAR', category: 'string', hasLength: true, defaultLength: '255' },
+  { value: 'CHAR', category: 'string', hasLength: true, defaultLength: '50' },
+  { value: 'TEXT', category: 'text', hasLength: false },
+  { value: 'LONGTEXT', category: 'text', hasLength: false },
+  { value: 'MEDIUMTEXT', category: 'text', hasLength: false },
+  { value: 'DECIMAL', category: 'decimal', hasLength: true, defaultLength: '10,2' },
+  { value: 'FLOAT', category: 'decimal', hasLength: false },
+  { value: 'DOUBLE', category: 'decimal', hasLength: false },
+  { value: 'DATE', category: 'date', hasLength: false },
+  { value: 'DATETIME', category: 'datetime', hasLength: false },
+  { value: 'TIMESTAMP', category: 'datetime', hasLength: false },
+  { value: 'TIME', category: 'time', hasLength: false },
+  { value: 'YEAR', category: 'integer', hasLength: false },
+  { value: 'BOOLEAN', category: 'boolean', hasLength: false },
+  { value: 'ENUM', category: 'enum', hasLength: true, defaultLength: "'value1','value2'" },
+  { value: 'SET', category: 'enum', hasLength: true, defaultLength: "'value1','value2'" },
+  { value: 'JSON', category: 'json', hasLength: false },
+  { value: 'BLOB', category: 'binary', hasLength: false },
+  { value: 'BINARY', category: 'binary', hasLength: true, defaultLength: '255' },
+  { value: 'VARBINARY', category: 'binary', hasLength: true, defaultLength: '255' },
+];
+
+// 常见错误码的分类
+const ERROR_KINDS: Record<string, QueryErrorKind> = {
+  ER_PARSE_ERROR: 'syntax',
+  ER_BAD_FIELD_ERROR: 'unknown-column',
+  ER_NO_SUCH_TABLE: 'unknown-table',
+  ER_BAD_TABLE_ERROR: 'unknown-table',
+  ER_NON_UNIQ_ERROR: 'ambiguous-column',
+  ER_DUP_ENTRY: 'duplicate-key',
+  ER_NO_REFERENCED_ROW_2: 'foreign-key',
+  ER_ROW_IS_REFERENCED_2: 'foreign-key',
+  ER_BAD_NULL_ERROR: 'not-null',
+  ER_TABLEACCESS_DENIED_ERROR: 'access-denied',
+  ER_COLUMNACCESS_DENIED_ERROR: 'access-denied',
+  ER_DBACCESS_DENIED_ERROR: 'access-denied',
+  ER_SPECIFIC_ACCESS_DENIED_ERROR: 'access-denied',
+};
+
+const quoteIdentifier = (name: string) => `\`${name.replace(/`/g, '``')}\``;
+
+export const mysqlDialect: Dialect = {
+  name: 'mysql',
+  identifierQuote: '`',
+  dataTypes: MYSQL_TYPES,
+  capabilities: {
+    schemas: false,
+    unsigned: true,
+    columnComments: true,
+    autoIncrement: true,
+    onUpdateTimestamp: true,
+    indexTypes: ['INDEX', 'UNIQUE', 'FULLTEXT'],
+    foreignKeyActions: ['RESTRICT', 'CASCADE', 'SET NULL', 'NO ACTION', 'SET DEFAULT'],
+  },
+  quoteIdentifier,
+  quoteTable: quoteIdentifier,
+  placeholder: () => '?',
+  explain: (query: string) => `EXPLAIN FORMAT=JSON ${query}`,
+  // 格式化默认值
+  formatDefaultValue(defaultValue: string): string {
+    if (!defaultValue) return '';
+    const upper = defaultValue.toUpperCase();
+    // 这些特殊值不需要引号
+    const specialValues = ['NULL', 'CURRENT_TIMESTAMP', 'CURRENT_DATE', 'CURRENT_TIME', 'NOW()'];
+    if (specialValues.some(v => upper.startsWith(v))) {
+      return defaultValue;
+    }
+    // 数字不需要引号
+    if (/^-?\d+(\.\d+)?$/.test(defaultValue)) {
+      return defaultValue;
+    }
+    // 空字符串
+    if (defaultValue === "''") {
+      return "''";
+    }
+    // 其他值需要引号
+    return `'${defaultValue.replace(/'/g, "''")}'`;
+  },
+};
+
+// 连接池大小：浏览、表操作等并发操作各占一个连接，编辑器会话不占用连接池
+const POOL_SIZE = 5;
+
+interface MysqlSession {
+  connection: mysql.Connection;
+  // 会话当前 USE 的数据库
+  database?: string;
+  // 是否有查询正在执行
+  running?: boolean;
+  // 是否开启了手动事务
+  transaction?: boolean;
+}
+
+export interface MysqlHandle {
+  pool: mysql.Pool;
+  // 建立会话连接使用的连接选项
+  options: mysql.ConnectionOptions;
+  // 编辑器标签页独占的会话，会话变量和事务保持在同一连接上
+  sessions: Map<string, Promise<MysqlSession>>;
+  // 连接断开时事务随之回滚的会话，提交或回滚确认前不重建，以免后续语句在自动提交的新连接上执行
+  lostTransactions: Set<string>;
+  onSessionLost?: (sessionId: string) => void;
+}
+
+// 将 mysql2 返回的 [rows, fields] 转换为 RunResult
+const toRunResult = ([rows, fields]: [any, any]): RunResult => ({
+  columns: fields?.map((f: any) => f.name) || [],
+  rows: Array.isArray(rows) ? rows : [],
+  affectedRows: rows.affectedRows || 0,
+});
+
+export class MysqlDriver extends SqlDriver<MysqlHandle> {
+  readonly dialect = mysqlDialect;
+  readonly defaultPort = 3306;
+
+  private buildOptions(config: DatabaseConfig): mysql.ConnectionOptions {
+    const host = config.host || 'localhost';
+    const port = config.port || this.defaultPort;
+    const tlsOptions = buildTlsOptions(config.ssl, host);
+    const options: mysql.ConnectionOptions = {
+      host,
+      port,
+      user: config.user,
+      password: config.password,
+      database: config.database,
+      ssl: tlsOptions && {
+        ca: tlsOptions.ca as Buffer | undefined,
+        cert: tlsOptions.cert as Buffer | undefined,
+        key: tlsOptions.key as Buffer | undefined,
+        rejectUnauthorized: tlsOptions.rejectUnauthorized,
+        // mysql2 按 host 校验证书主机名，校验失败时连接以该错误失败
+        verifyIdentity: config.ssl?.mode === 'verify-full',
+      },
+    };
+    // 证书主机名与连接地址不同（指定了 serverName、经隧道连接）时，host 设为证书主机名，TCP 连接自行建立
+    const identity = config.ssl?.serverName;
+    if (tlsOptions && identity && identity !== host) {
+      options.host = identity;
+      options.stream = () => net.connect({ host, port, noDelay: true, keepAlive: true, keepAliveInitialDelay: 10000 });
+    }
+    return options;
+  }
+
+  async testConnection(config: DatabaseConfig): Promise<void> {
+    const connection = await mysql.createConnection(this.buildOptions(config));
+    await connection.end();
+  }
+
+  async connect(config: DatabaseConfig, onSessionLost?: (sessionId: string) => void): Promise<MysqlHandle> {
+    const options: mysql.ConnectionOptions = {
+      ...this.buildOptions(config),
+      // TCP 保活，避免空闲连接被防火墙或 NAT 静默断开
+      enableKeepAlive: true,
+      keepAliveInitialDelay: 10000,
+    };
+    const pool = mysql.createPool({ ...options, connectionLimit: POOL_SIZE });
+
+    // 先取一个连接，尽早暴露认证、网络或证书错误
+    try {
+      const connection = await pool.getConnection();
+      connection.release();
+    } catch (e) {
+      await pool.end().catch(() => undefined);
+      throw e;
+    }
+    return { pool, options, sessions: new Map(), lostTransactions: new Set(), onSessionLost };
+  }
+
+  async disconnect(handle: MysqlHandle): Promise<void> {
+    for (const sessionId of [...handle.sessions.keys()]) {
+      await this.closeSession(handle, sessionId);
+    }
+    await handle.pool.end();
+  }
+
+  // 另建一个临时连接终止会话线程上正在执行的语句，会话本身保留；不使用连接池，连接池占满时也能取消
+  async cancelQuery(handle: MysqlHandle, sessionId: string): Promise<boolean> {
+    const session = handle.sessions.get(sessionId);
+    if (!session) return false;
+    const { connection, running } = await session;
+    if (!running) return false;
+    const side = await mysql.createConnection(handle.options);
+    try {
+      await side.query('KILL QUERY ?', [connection.threadId]);
+    } finally {
+      await side.end().catch(() => side.destroy());
+    }
+    return true;
+  }
+
+  // 协议错误（包括连接被服务器断开）会使该连接不可用，是否重连由上层检测连接池后决定
+  isConnectionLost(error: any): boolean {
+    return !!error?.fatal || super.isConnectionLost(error);
+  }
+
+  // MySQL 不报告出错偏移：语法错误从 near '...' at line N 定位，名称错误按消息中的名称定位
+  protected parseError(error: any): ErrorClue {
+    const kind = ERROR_KINDS[error?.code];
+    const message: string = error?.sqlMessage || error?.message || '';
+    if (kind === 'syntax') {
+      const near = /near '([\s\S]*)' at line (\d+)$/.exec(message);
+      return near ? { kind, near: near[1], line: parseInt(near[2], 10) } : { kind };
+    }
+    if (kind === 'unknown-column' || kind === 'unknown-table' || kind === 'ambiguous-column') {
+      // Unknown column 'u.foo' in 'field list'、Table 'db.t' doesn't exist、Column 'id' in field list is ambiguous
+      return { kind, token: /'([^']+)'/.exec(message)?.[1] };
+    }
+    return { kind };
+  }
+
+  // 取得编辑器会话，首次使用时在连接池之外单独建立连接，标签页再多也不会占满连接池
+  private getSession(handle: MysqlHandle, sessionId: string): Promise<MysqlSession> {
+    if (handle.lostTransactions.has(sessionId)) {
+      return Promise.reject(new Error('Transaction was rolled back because the connection was lost'));
+    }
+    let session = handle.sessions.get(sessionId);
+    if (!session) {
+      session = mysql.createConnection(handle.options).then(connection => {
+        const created: MysqlSession = { connection };
+        // 空闲时被服务器断开的连接在后台报错，下次使用时重新建立
+        connection.on('error', () => {
+          if (handle.sessions.get(sessionId) === session) this.dropSession(handle, sessionId, created);
+        });
+        return created;
+      });
+      handle.sessions.set(sessionId, session);
+      session.catch(() => handle.sessions.delete(sessionId));
+    }
+    return session;
+  }
+
+  // 移除已断开的会话连接；其中的事务已被服务器回滚，记录下来并通知上层
+  private dropSession(handle: MysqlHandle, sessionId: string, session: MysqlSession): void {
+    handle.sessions.delete(sessionId);
+    session.connection.destroy();
+    if (session.transaction) {
+      handle.lostTransactions.add(sessionId);
+      handle.onSessionLost?.(sessionId);
+    }
+  }
+
+  // 切换会话连接的当前数据库
+  private async useDatabase(session: MysqlSession, database: string): Promise<void> {
+    if (database && session.database !== database) {
+      await session.connection.query(`USE ${quoteIdentifier(database)}`);
+      session.database = database;
+    }
+  }
+
+  // 读取连接上一条语句产生的警告，读取失败时不影响语句的结果
+  private async showWarnings(connection: mysql.Connection): Promise<QueryWarning[] | undefined> {
+    try {
+      const [rows] = await connection.query('SHOW WARNINGS');
+      return (rows as any[]).map(row => ({ level: row.Level, code: row.Code, message: row.Message }));
+    } catch {
+      return undefined;
+    }
+  }
+
+  // 会话本身就是独占的连接，事务直接在会话连接上开启
+  async beginTransaction(handle: MysqlHandle, database: string, sessionId: string): Promise<void> {
+    const session = await this.getSession(handle, sessionId);
+    await this.useDatabase(session, database);
+    await session.connection.query('START TRANSACTION');
+    session.transaction = true;
+  }
+
+  async commitTransaction(handle: MysqlHandle, sessionId: string): Promise<void> {
+    await this.endTransaction(handle, sessionId, 'COMMIT');
+  }
+
+  async rollbackTransaction(handle: MysqlHandle, sessionId: string): Promise<void> {
+    await this.endTransaction(handle, sessionId, 'ROLLBACK');
+  }
+
+  // 连接断开时事务已被回滚：回滚只清除记录，提交报错
+  private async endTransaction(handle: MysqlHandle, sessionId: string, statement: string): Promise<void> {
+    if (handle.lostTransactions.delete(sessionId)) {
+      if (statement === 'ROLLBACK') return;
+      throw new Error('Transaction was rolled back because the connection was lost');
+    }
+    const session = await handle.sessions.get(sessionId);
+    if (!session?.transaction) {
+      throw new Error('No open transaction in this session');
+    }
+    session.transaction = false;
+    await session.connection.query(statement);
+  }
+
+  // 直接销毁会话连接，丢弃会话变量和未提交的事务
+  async closeSession(handle: MysqlHandle, sessionId: string): Promise<void> {
+    handle.lostTransactions.delete(sessionId);
+    const session = handle.sessions.get(sessionId);
+    if (!session) return;
+    handle.sessions.delete(sessionId);
+    try {
+      (await session).connection.destroy();
+    } catch {
+      // 会话连接未能建立，无需关闭
+    }
+  }
+
+  // 元数据和表操作都使用带数据库名的全限定表名，不依赖连接当前的数据库
+  protected async run(handle: MysqlHandle, _database: string, sql: string, params?: any[]): Promise<RunResult> {
+    return toRunResult(await handle.pool.query(sql, params));
+  }
+
+  // 事务需要独占一个连接池连接
+  protected async transaction<T>(handle: MysqlHandle, _database: string, work: (run: TransactionRunner) => Promise<T>): Promise<T> {
+    const connection = await handle.pool.getConnection();
+    try {
+      await connection.beginTransaction();
+      const result = await work(async (sql, params) => toRunResult(await connection.query(sql, params)));
+      await connection.commit();
+      return result;
+    } catch (e) {
+      await connection.rollback().catch(() => undefined);
+      throw e;
+    } finally {
+      connection.release();
+    }
+  }
+
+  protected qualifyTable(database: string, table: string): string {
+    return `${quoteIdentifier(database)}.${quoteIdentifier(table)}`;
+  }
+
+  protected buildEmptyInsert(target: string): string {
+    return `INSERT INTO ${target} () VALUES ()`;
+  }
+
+  // InnoDB 的 TABLE_ROWS 是统计估算值
+  protected async estimateRowCount(handle: MysqlHandle, database: string, table: string): Promise<number | null> {
+    const result = await this.run(handle, database,
+      'SELECT TABLE_ROWS AS estimate FROM information_schema.TABLES WHERE TABLE_SCHEMA = ? AND TABLE_NAME = ?',
+      [database, table]
+    );
+    const estimate = result.rows[0]?.estimate;
+    return estimate === null || estimate === undefined ? null : Number(estimate);
+  }
+
+  async getDatabases(handle: MysqlHandle): Promise<string[]> {
+    const result = await this.run(handle, '', 'SHOW DATABASES');
+    return result.rows.map((row: any) => Object.values(row)[0] as string);
+  }
+
+  // MySQL 中 schema 即数据库
+  async getSchemas(_handle: MysqlHandle, database: string): Promise<string[]> {
+    return [database];
+  }
+
+  async getTables(handle: MysqlHandle, database: string): Promise<string[]> {
+    const result = await this.run(handle, database, `SHOW TABLES FROM ${quoteIdentifier(database)}`);
+    return result.rows.map((row: any) => Object.values(row)[0] as string);
+  }
+
+  async getTableStructure(handle: MysqlHandle, database: string, table: string): Promise<any[]> {
+    const result = await this.run(handle, database, `DESCRIBE ${this.qualifyTable(database, table)}`);
+    return result.rows;
+  }
+
+  // 获取表的列信息（用于确定主键）
+  async getTableColumns(handle: MysqlHandle, database: string, table: string): Promise<any[]> {
+    const result = await this.run(handle, database, `SHOW COLUMNS FROM ${this.qualifyTable(database, table)}`);
+    return result.rows;
+  }
+
+  // 编辑器查询：用户 SQL 中的表名不带数据库名，需要在执行连接上 USE
+  async executeQuery(handle: MysqlHandle, database: string, query: string, sessionId?: string, params?: any[]): Promise<QueryResult> {
+    const pooled = sessionId ? undefined : await handle.pool.getConnection();
+    const session = pooled ? { connection: pooled } as MysqlSession : await this.getSession(handle, sessionId!);
+    const { connection } = session;
+
+    try {
+      await this.useDatabase(session, database);
+
+      const startTime = Date.now();
+      session.running = true;
+      const [rows, fields] = await connection.query(query, params).finally(() => {
+        session.running = false;
+      });
+      const executionTime = Date.now() - startTime;
+
+      // 非查询语句返回 ResultSetHeader 而不是结果行
+      if (!Array.isArray(rows)) {
+        const header = rows as mysql.ResultSetHeader;
+        // UPDATE 的 info 形如 "Rows matched: 2  Changed: 1  Warnings: 0"
+        const changed = /Changed:\s*(\d+)/.exec(header.info || '');
+        return {
+          columns: [],
+          rows: [],
+          affectedRows: header.affectedRows,
+          changedRows: changed ? parseInt(changed[1], 10) : undefined,
+          insertId: header.insertId || undefined,
+          warningCount: header.warningStatus,
+          warnings: header.warningStatus > 0 ? await this.showWarnings(connection) : undefined,
+          executionTime,
+        };
+      }
+      return {
+        columns: fields?.map((f: any) => f.name) || [],
+        rows,
+        executionTime,
+      };
+    } catch (e: any) {
+      // 连接已断开的会话下次使用时重新建立
+      if (!pooled && e.fatal && handle.sessions.has(sessionId!)) {
+        this.dropSession(handle, sessionId!, session);
+      }
+      throw e;
+    } finally {
+      pooled?.release();
+    }
+  }
+
+  // 创建表
+  async createTable(
+    handle: MysqlHandle,
+    database: string,
+    tableName: string,
+    columns: ColumnDefinition[],
+    indexes?: IndexDefinition[]
+  ): Promise<void> {
+    const columnDefs: string[] = [];
+    const primaryKeys: string[] = [];
+    const uniqueKeys: string[] = [];
+
+    columns.forEach(col => {
+      let def = `${quoteIdentifier(col.name)} ${col.type}`;
+      if (col.unsigned) def += ' UNSIGNED';
+      if (!col.nullable) def += ' NOT NULL';
+      if (col.autoIncrement) def += ' AUTO_INCREMENT';
+      if (col.defaultValue !== undefined && col.defaultValue !== '') {
+        def += ` DEFAULT ${mysqlDialect.formatDefaultValue(col.defaultValue)}`;
+      }
+      if (col.comment) def += ` COMMENT '${col.comment.replace(/'/g, "''")}'`;
+
+      columnDefs.push(def);
+
+      if (col.primaryKey) primaryKeys.push(quoteIdentifier(col.name));
+      if (col.unique && !col.primaryKey) uniqueKeys.push(quoteIdentifier(col.name));
+    });
+
+    // 添加主键约束
+    if (primaryKeys.length > 0) {
+      columnDefs.push(`PRIMARY KEY (${primaryKeys.join(', ')})`);
+    }
+
+    // 添加唯一约束
+    uniqueKeys.forEach(uk => {
+      columnDefs.push(`UNIQUE KEY (${uk})`);
+    });
+
+    // 添加索引
+    (indexes || []).forEach((idx, i) => {
+      const idxName = quoteIdentifier(idx.name || `idx_${tableName}_${i}`);
+      const idxCols = idx.columns.map(quoteIdentifier).join(', ');
+      if (idx.type === 'UNIQUE') {
+        columnDefs.push(`UNIQUE KEY ${idxName} (${idxCols})`);
+      } else if (idx.type === 'FULLTEXT') {
+        columnDefs.push(`FULLTEXT KEY ${idxName} (${idxCols})`);
+      } else {
+        columnDefs.push(`KEY ${idxName} (${idxCols})`);
+      }
+    });
+
+    await this.run(handle, database, `CREATE TABLE ${this.qualifyTable(database, tableName)} (${columnDefs.join(', ')})`);
+  }
+
+  // 重命名表
+  async renameTable(handle: MysqlHandle, database: string, table: string, newName: string): Promise<void> {
+    await this.run(handle, database, `RENAME TABLE ${this.qualifyTable(database, table)} TO ${this.qualifyTable(database, newName)}`);
+  }
+
+  private buildColumnSpec(column: ColumnChange): string {
+    let spec = `${quoteIdentifier(column.name)} ${column.type}`;
+    if (!column.nullable) spec += ' NOT NULL';
+    if (column.defaultValue !== undefined && column.defaultValue !== '') {
+      spec += ` DEFAULT ${mysqlDialect.formatDefaultValue(column.defaultValue)}`;
+    }
+    return spec;
+  }
+
+  // 添加列
+  async addColumn(handle: MysqlHandle, database: string, table: string, column: ColumnChange): Promise<void> {
+    await this.run(handle, database, `ALTER TABLE ${this.qualifyTable(database, table)} ADD COLUMN ${this.buildColumnSpec(column)}`);
+  }
+
+  // 修改列
+  async modifyColumn(handle: MysqlHandle, database: string, table: string, oldName: string, column: ColumnChange): Promise<void> {
+    await this.run(
+      handle,
+      database,
+      `ALTER TABLE ${this.qualifyTable(database, table)} CHANGE COLUMN ${quoteIdentifier(oldName)} ${this.buildColumnSpec(column)}`
+    );
+  }
+
+  // 删除列
+  async dropColumn(handle: MysqlHandle, database: string, table: string, columnName: string): Promise<void> {
+    await this.run(handle, database, `ALTER TABLE ${this.qualifyTable(database, table)} DROP COLUMN ${quoteIdentifier(columnName)}`);
+  }
+
+  // 获取表的索引
+  async getTableIndexes(handle: MysqlHandle, database: string, table: string): Promise<any[]> {
+    const result = await this.run(handle, database, `SHOW INDEX FROM ${this.qualifyTable(database, table)}`);
+    return result.rows;
+  }
+
+  // 获取表的外键
+  async getTableForeignKeys(handle: MysqlHandle, database: string, table: string): Promise<any[]> {
+    const result = await this.run(handle, database, `
+      SELECT
+        CONSTRAINT_NAME as name,
+        COLUMN_NAME as \`column\`,
+        REFERENCED_TABLE_NAME as refTable,
+        REFERENCED_COLUMN_NAME as refColumn
+      FROM INFORMATION_SCHEMA.KEY_COLUMN_USAGE
+      WHERE TABLE_SCHEMA = ? AND TABLE_NAME = ? AND REFERENCED_TABLE_NAME IS NOT NULL
+    `, [database, table]);
+    return result.rows;
+  }
+
+  // 添加索引
+  async addIndex(handle: MysqlHandle, database: string, table: string, index: IndexDefinition): Promise<void> {
+    const cols = index.columns.map(quoteIdentifier).join(', ');
+    const kind = index.type === 'UNIQUE' || index.type === 'FULLTEXT' ? `${index.type} ` : '';
+    await this.run(
+      handle,
+      database,
+      `CREATE ${kind}INDEX ${quoteIdentifier(index.name)} ON ${this.qualifyTable(database, table)} (${cols})`
+    );
+  }
+
+  // 删除索引
+  async dropIndex(handle: MysqlHandle, database: string, table: string, indexName: string): Promise<void> {
+    await this.run(handle, database, `DROP INDEX ${quoteIdentifier(indexName)} ON ${this.qualifyTable(database, table)}`);
+  }
+
+  // 添加外键
+  async addForeignKey(handle: MysqlHandle, database: string, table: string, fk: ForeignKeyDefinition): Promise<void> {
+    let sql = `ALTER TABLE ${this.qualifyTable(database, table)} ADD CONSTRAINT ${quoteIdentifier(fk.name)} FOREIGN KEY (${quoteIdentifier(fk.column)}) REFERENCES ${this.qualifyTable(database, fk.refTable)}(${quoteIdentifier(fk.refColumn)})`;
+    if (fk.onDelete) sql += ` ON DELETE ${fk.onDelete}`;
+    if (fk.onUpdate) sql += ` ON UPDATE ${fk.onUpdate}`;
+    await this.run(handle, database, sql);
+  }
+
+  // 删除外键
+  async dropForeignKey(handle: MysqlHandle, database: string, table: string, fkName: string): Promise<void> {
+    await this.run(handle, database, `ALTER TABLE ${this.qualifyTable(database, table)} DROP FOREIGN KEY ${quoteIdentifier(fkName)}`);
+  }
+
+  // 修改主键
+  async modifyPrimaryKey(handle: MysqlHandle, database: string, table: string, columns: string[]): Promise<void> {
+    // 先删除旧主键
+    try {
+      await this.run(handle, database, `ALTER TABLE ${this.qualifyTable(database, table)} DROP PRIMARY KEY`);
+    } catch (e) {
+      // 可能没有主键
+    }
+
+    // 添加新主键
+    if (columns.length > 0) {
+      const cols = columns.map(quoteIdentifier).join(', ');
+      await this.run(handle, database, `ALTER TABLE ${this.qualifyTable(database, table)} ADD PRIMARY KEY (${cols})`);
+    }
+  }
+}
@@ -0,0 +1,739 @@
+import { Client, ClientConfig, Pool, PoolClient } from 'pg';
+import type { DatabaseConfig } from '../databaseManager';
+import { buildTlsOptions } from '../tls';
+import { ErrorClue, RunResult, SqlDriver, TransactionRunner } from './sqlDriver';
+import type {
+  ColumnChange,
+  ColumnDefinition,
+  DataTypeInfo,
+  Dialect,
+  ForeignKeyDefinition,
+  IndexDefinition,
+  QueryErrorKind,
+  QueryResult,
+} from './types';
+
+// 每个数据库连接池的大小：浏览、表操作等并发操作各占一个连接，编辑器会话不占用连接池
+const POOL_SIZE = 5;
+
+interface PostgresSession {
+  client: Client;
+  // 会话连接的服务器进程 ID，用于取消查询
+  pid: number;
+  // 会话连接所在的数据库
+  database: string;
+  // 是否开启了手动事务
+  transaction?: boolean;
+}
+
+export interface PostgresHandle {
+  config: DatabaseConfig;
+  // PostgreSQL 的连接绑定到单个数据库，每个数据库一个连接池
+  pools: Map<string, Pool>;
+  // 编辑器会话中正在执行查询的服务器进程 ID，用于取消查询
+  running: Map<string, number>;
+  // 编辑器标签页独占的会话连接，会话变量和事务保持在同一连接上
+  sessions: Map<string, PostgresSession>;
+  // 连接断开时事务随之回滚的会话，提交或回滚确认前不重建，以免后续语句在自动提交的新连接上执行
+  lostTransactions: Set<string>;
+  onSessionLost?: (sessionId: string) => void;
+}
+
+const POSTGRES_TYPES: DataTypeInfo[] = [
+  { value: 'INTEGER', category: 'integer', hasLength: false },
+  { value: 'BIGINT', category: 'integer', hasLength: false },
+  { value: 'SMALLINT', category: 'integer', hasLength: false },
+  { value: 'VARCHAR', category: 'string', hasLength: true, defaultLength: '255' },
+  { value: 'CHAR', category: 'string', hasLength: true, defaultLength: '50' },
+  { value: 'TEXT', category: 'text', hasLength: false },
+  { value: 'NUMERIC', category: 'decimal', hasLength: true, defaultLength: '10,2' },
+  { value: 'REAL', category: 'decimal', hasLength: false },
+  { value: 'DOUBLE PRECISION', category: 'decimal', hasLength: false },
+  { value: 'DATE', category: 'date', hasLength: false },
+  { value: 'TIMESTAMP', category: 'datetime', hasLength: false },
+  { value: 'TIMESTAMPTZ', category: 'datetime', hasLength: false },
+  { value: 'TIME', category: 'time', hasLength: false },
+  { value: 'INTERVAL', category: 'other', hasLength: false },
+  { value: 'BOOLEAN', category: 'boolean', hasLength: false },
+  { value: 'UUID', category: 'string', hasLength: false },
+  { value: 'JSON', category: 'json', hasLength: false },
+  { value: 'JSONB', category: 'json', hasLength: false },
+  { value: 'BYTEA', category: 'binary', hasLength: false },
+];
+
+// MySQL 风格类型名 -> PostgreSQL 类型名（兼容手工输入的 MySQL 写法）
+const TYPE_MAP: Record<string, string> = {
+  INT: 'INTEGER',
+  TINYINT: 'SMALLINT',
+  MEDIUMINT: 'INTEGER',
+  DATETIME: 'TIMESTAMP',
+  DOUBLE: 'DOUBLE PRECISION',
+  FLOAT: 'REAL',
+  LONGTEXT: 'TEXT',
+  MEDIUMTEXT: 'TEXT',
+  TINYTEXT: 'TEXT',
+  BLOB: 'BYTEA',
+  LONGBLOB: 'BYTEA',
+  BINARY: 'BYTEA',
+  VARBINARY: 'BYTEA',
+  ENUM: 'TEXT',
+  SET: 'TEXT',
+  YEAR: 'SMALLINT',
+};
+
+// format_type 返回的长类型名 -> 类型列表中的简写
+const DISPLAY_TYPE_MAP: Record<string, string> = {
+  'character varying': 'varchar',
+  'character': 'char',
+  'timestamp without time zone': 'timestamp',
+  'timestamp with time zone': 'timestamptz',
+  'time without time zone': 'time',
+  'time with time zone': 'timetz',
+};
+
+// 常见 SQLSTATE 的分类
+const ERROR_KINDS: Record<string, QueryErrorKind> = {
+  '42601': 'syntax',
+  '42703': 'unknown-column',
+  '42P01': 'unknown-table',
+  '42702': 'ambiguous-column',
+  '23505': 'duplicate-key',
+  '23503': 'foreign-key',
+  '23502': 'not-null',
+  '42501': 'access-denied',
+};
+
+const quoteIdent = (name: string) => `"${name.replace(/"/g, '""')}"`;
+
+const quoteLiteral = (value: string) => `'${value.replace(/'/g, "''")}'`;
+
+// 表名可能带 schema 前缀（public 之外的 schema 显示为 schema.table）
+const splitTableName = (table: string) => {
+  const dot = table.indexOf('.');
+  if (dot === -1) return { schema: 'public', name: table };
+  return { schema: table.slice(0, dot), name: table.slice(dot + 1) };
+};
+
+const qualify = (table: string) => {
+  const { schema, name } = splitTableName(table);
+  return `${quoteIdent(schema)}.${quoteIdent(name)}`;
+};
+
+const mapType = (type: string) => {
+  const match = type.trim().match(/^(\w+)\s*(\(.*\))?(.*)$/);
+  if (!match) return type;
+  const base = match[1].toUpperCase();
+  const mapped = TYPE_MAP[base];
+  if (!mapped) return type;
+  // BYTEA / TEXT 等类型不接受长度参数
+  if (['BYTEA', 'TEXT', 'INTEGER', 'SMALLINT', 'REAL', 'DOUBLE PRECISION'].includes(mapped)) {
+    return mapped;
+  }
+  return `${mapped}${match[2] || ''}${match[3] || ''}`;
+};
+
+const toDisplayType = (pgType: string) => {
+  const match = pgType.match(/^([a-z ]+?)(\(.*\))?(\[\])?$/);
+  if (!match) return pgType;
+  const base = DISPLAY_TYPE_MAP[match[1]] || match[1];
+  return `${base}${match[2] || ''}${match[3] || ''}`;
+};
+
+// 去掉默认值表达式上的类型转换，例如 'abc'::character varying -> abc
+const toDisplayDefault = (expr: string | null) => {
+  if (expr === null) return null;
+  if (expr.startsWith('nextval(')) return null;
+  const literal = expr.match(/^'((?:[^']|'')*)'::[\w\s."[\]]+$/);
+  if (literal) return literal[1].replace(/''/g, "'");
+  return expr.replace(/^\((-?[\d.]+)\)::\w+$/, '$1');
+};
+
+export const postgresDialect: Dialect = {
+  name: 'postgresql',
+  identifierQuote: '"',
+  dataTypes: POSTGRES_TYPES,
+  capabilities: {
+    schemas: true,
+    unsigned: false,
+    columnComments: true,
+    autoIncrement: true,
+    onUpdateTimestamp: false,
+    indexTypes: ['INDEX', 'UNIQUE', 'FULLTEXT'],
+    foreignKeyActions: ['RESTRICT', 'CASCADE', 'SET NULL', 'NO ACTION', 'SET DEFAULT'],
+  },
+  quoteIdentifier: quoteIdent,
+  quoteTable: qualify,
+  placeholder: (index: number) => `$${index}`,
+  explain: (query: string) => `EXPLAIN (FORMAT JSON) ${query}`,
+  // 格式化默认值
+  formatDefaultValue(defaultValue: string): string {
+    const upper = defaultValue.toUpperCase();
+    // MySQL 的 ON UPDATE 子句在 PostgreSQL 中不存在
+    if (upper.startsWith('CURRENT_TIMESTAMP')) return 'CURRENT_TIMESTAMP';
+    const specialValues = ['NULL', 'CURRENT_DATE', 'CURRENT_TIME', 'NOW()', 'TRUE', 'FALSE'];
+    if (specialValues.some(v => upper === v)) return defaultValue;
+    if (/^-?\d+(\.\d+)?$/.test(defaultValue)) return defaultValue;
+    // 函数调用（如 gen_random_uuid()）原样保留
+    if (/^[a-z_][\w.]*\(.*\)$/i.test(defaultValue)) return defaultValue;
+    if (defaultValue === "''") return "''";
+    return quoteLiteral(defaultValue);
+  },
+};
+
+export class PostgresDriver extends SqlDriver<PostgresHandle> {
+  readonly dialect = postgresDialect;
+  readonly defaultPort = 5432;
+
+  private clientOptions(config: DatabaseConfig, database?: string): ClientConfig {
+    const host = config.host || 'localhost';
+    return {
+      host,
+      port: config.port || this.defaultPort,
+      user: config.user,
+      password: config.password,
+      database: database || config.database || 'postgres',
+      ssl: buildTlsOptions(config.ssl, host) || false,
+      keepAlive: true,
+    };
+  }
+
+  private createClient(config: DatabaseConfig, database?: string): Client {
+    return new Client(this.clientOptions(config, database));
+  }
+
+  async testConnection(config: DatabaseConfig): Promise<void> {
+    const client = this.createClient(config);
+    await client.connect();
+    await client.end();
+  }
+
+  async connect(config: DatabaseConfig, onSessionLost?: (sessionId: string) => void): Promise<PostgresHandle> {
+    const handle: PostgresHandle = {
+      config,
+      pools: new Map(),
+      running: new Map(),
+      sessions: new Map(),
+      lostTransactions: new Set(),
+      onSessionLost,
+    };
+    // 先取一个连接，尽早暴露认证、网络或证书错误
+    try {
+      const client = await this.getPool(handle).connect();
+      client.release();
+    } catch (e) {
+      await this.disconnect(handle).catch(() => undefined);
+      throw e;
+    }
+    return handle;
+  }
+
+  async disconnect(handle: PostgresHandle): Promise<void> {
+    const sessions = [...handle.sessions.values()];
+    const pools = [...handle.pools.values()];
+    handle.sessions.clear();
+    handle.pools.clear();
+    await Promise.all([
+      ...sessions.map(session => session.client.end().catch(() => undefined)),
+      ...pools.map(pool => pool.end()),
+    ]);
+  }
+
+  private resolveDatabase(handle: PostgresHandle, database?: string): string {
+    return database || handle.config.database || 'postgres';
+  }
+
+  private getPool(handle: PostgresHandle, database?: string): Pool {
+    const target = this.resolveDatabase(handle, database);
+    let pool = handle.pools.get(target);
+    if (!pool) {
+      pool = new Pool({ ...this.clientOptions(handle.config, target), max: POOL_SIZE });
+      // 空闲连接断开时连接池会自动移除该连接，这里只需避免未处理的 error 事件
+      pool.on('error', () => undefined);
+      handle.pools.set(target, pool);
+    }
+    return pool;
+  }
+
+  // 从连接池取出一个连接执行 work，断开的连接不再放回连接池
+  private async withPoolClient<T>(handle: PostgresHandle, database: string, work: (client: PoolClient) => Promise<T>): Promise<T> {
+    const client = await this.getPool(handle, database).connect();
+    let lost = false;
+    try {
+      return await work(client);
+    } catch (e) {
+      lost = this.isConnectionLost(e);
+      throw e;
+    } finally {
+      client.release(lost);
+    }
+  }
+
+  // 取得编辑器会话，首次使用或切换数据库时在连接池之外单独建立连接
+  private async getSession(handle: PostgresHandle, sessionId: string, database: string): Promise<PostgresSession> {
+    if (handle.lostTransactions.has(sessionId)) {
+      throw new Error('Transaction was rolled back because the connection was lost');
+    }
+    const target = this.resolveDatabase(handle, database);
+    const existing = handle.sessions.get(sessionId);
+    if (existing?.database === target) return existing;
+    if (existing?.transaction) {
+      throw new Error('Cannot switch database while a transaction is open');
+    }
+    if (existing) {
+      await this.closeSession(handle, sessionId);
+    }
+
+    const client = this.createClient(handle.config, target);
+    await client.connect();
+    let pid: number;
+    try {
+      const { rows } = await client.query('SELECT pg_backend_pid() AS pid');
+      pid = rows[0].pid;
+    } catch (e) {
+      await client.end().catch(() => undefined);
+      throw e;
+    }
+    const session: PostgresSession = { client, pid, database: target };
+    // 连接断开时移除会话，下次使用时重新建立
+    client.on('error', () => {
+      if (handle.sessions.get(sessionId) === session) {
+        this.dropSession(handle, sessionId, session);
+      }
+    });
+    handle.sessions.set(sessionId, session);
+    return session;
+  }
+
+  // 移除已断开的会话连接；其中的事务已被服务器回滚，记录下来并通知上层
+  private dropSession(handle: PostgresHandle, sessionId: string, session: PostgresSession): void {
+    handle.sessions.delete(sessionId);
+    session.client.end().catch(() => undefined);
+    if (session.transaction) {
+      handle.lostTransactions.add(sessionId);
+      handle.onSessionLost?.(sessionId);
+    }
+  }
+
+  // 通过单独的连接调用 pg_cancel_backend 取消正在执行的查询
+  async cancelQuery(handle: PostgresHandle, sessionId: string): Promise<boolean> {
+    const pid = handle.running.get(sessionId);
+    if (pid === undefined) return false;
+    const side = this.createClient(handle.config);
+    await side.connect();
+    try {
+      await side.query('SELECT pg_cancel_backend($1)', [pid]);
+    } finally {
+      await side.end();
+    }
+    return true;
+  }
+
+  // 57P01-57P03：服务器关闭或重启
+  isConnectionLost(error: any): boolean {
+    return ['57P01', '57P02', '57P03'].includes(error?.code)
+      || /Connection terminated|not queryable/i.test(error?.message || '')
+      || super.isConnectionLost(error);
+  }
+
+  // 服务器错误带 severity，code 为 SQLSTATE，position 为从 1 开始的字符位置
+  protected parseError(error: any): ErrorClue {
+    if (!error?.severity) return {};
+    return {
+      kind: ERROR_KINDS[error.code],
+      sqlState: error.code,
+      position: error.position ? parseInt(error.position, 10) - 1 : undefined,
+    };
+  }
+
+  protected async run(handle: PostgresHandle, database: string, sql: string, params?: any[]): Promise<RunResult> {
+    const result = await this.getPool(handle, database).query(sql, params);
+    return {
+      columns: result.fields?.map(f => f.name) || [],
+      rows: result.rows || [],
+      affectedRows: result.rowCount || 0,
+    };
+  }
+
+  // reltuples 由 VACUUM/ANALYZE 维护，从未分析过的表为 -1
+  protected async estimateRowCount(handle: PostgresHandle, database: string, table: string): Promise<number | null> {
+    const result = await this.run(handle, database,
+      'SELECT reltuples::bigint AS estimate FROM pg_catalog.pg_class WHERE oid = to_regclass($1)',
+      [qualify(table)]
+    );
+    const estimate = Number(result.rows[0]?.estimate ?? -1);
+    return estimate >= 0 ? estimate : null;
+  }
+
+  // 事务独占一个连接池连接
+  protected async transaction<T>(handle: PostgresHandle, database: string, work: (run: TransactionRunner) => Promise<T>): Promise<T> {
+    return this.withPoolClient(handle, database, async client => {
+      await client.query('BEGIN');
+      try {
+        const result = await work(async (sql, params) => {
+          const { rows, rowCount } = await client.query(sql, params);
+          return { columns: [], rows, affectedRows: rowCount || 0 };
+        });
+        await client.query('COMMIT');
+        return result;
+      } catch (e) {
+        await client.query('ROLLBACK').catch(() => undefined);
+        throw e;
+      }
+    });
+  }
+
+  // PostgreSQL 的 UPDATE/DELETE 不支持 LIMIT，通过 ctid 定位第一条匹配的行
+  protected limitToOneRow(target: string, condition: string): string {
+    return `WHERE ctid = (SELECT ctid FROM ${target} WHERE ${condition} LIMIT 1)`;
+  }
+
+  // 在事务中依次执行多条语句
+  private async runInTransaction(handle: PostgresHandle, database: string, statements: string[]): Promise<void> {
+    await this.transaction(handle, database, async run => {
+      for (const sql of statements) {
+        await run(sql);
+      }
+    });
+  }
+
+  async getDatabases(handle: PostgresHandle): Promise<string[]> {
+    const result = await this.run(handle, '',
+      'SELECT datname FROM pg_catalog.pg_database WHERE NOT datistemplate AND datallowconn ORDER BY datname'
+    );
+    return result.rows.map(row => row.datname);
+  }
+
+  async getSchemas(handle: PostgresHandle, database: string): Promise<string[]> {
+    const result = await this.run(handle, database, `
+      SELECT nspname FROM pg_catalog.pg_namespace
+      WHERE nspname NOT IN ('pg_catalog', 'information_schema') AND nspname NOT LIKE 'pg\\_%'
+      ORDER BY nspname
+    `);
+    return result.rows.map(row => row.nspname);
+  }
+
+  async getTables(handle: PostgresHandle, database: string): Promise<string[]> {
+    const result = await this.run(handle, database, `
+      SELECT n.nspname AS schema, c.relname AS name
+      FROM pg_catalog.pg_class c
+      JOIN pg_catalog.pg_namespace n ON n.oid = c.relnamespace
+      WHERE c.relkind IN ('r', 'p', 'v', 'm', 'f')
+        AND n.nspname NOT IN ('pg_catalog', 'information_schema') AND n.nspname NOT LIKE 'pg\\_%'
+      ORDER BY n.nspname <> 'public', n.nspname, c.relname
+    `);
+    return result.rows.map(row => row.schema === 'public' ? row.name : `${row.schema}.${row.name}`);
+  }
+
+  // 返回与 MySQL SHOW COLUMNS 相同结构的列信息（Field/Type/Null/Key/Default/Extra）
+  async getTableColumns(handle: PostgresHandle, database: string, table: string): Promise<any[]> {
+    const columns = await this.run(handle, database, `
+      SELECT a.attname AS field,
+        pg_catalog.format_type(a.atttypid, a.atttypmod) AS type,
+        a.attnotnull AS notnull,
+        a.attidentity AS identity,
+        pg_catalog.pg_get_expr(d.adbin, d.adrelid) AS "default",
+        pg_catalog.col_description(a.attrelid, a.attnum) AS comment
+      FROM pg_catalog.pg_attribute a
+      LEFT JOIN pg_catalog.pg_attrdef d ON d.adrelid = a.attrelid AND d.adnum = a.attnum
+      WHERE a.attrelid = $1::regclass AND a.attnum > 0 AND NOT a.attisdropped
+      ORDER BY a.attnum
+    `, [qualify(table)]);
+    const indexes = await this.run(handle, database, `
+      SELECT a.attname AS field, i.indisprimary AS primary, i.indisunique AS unique,
+        i.indnkeyatts AS size, i.indkey[0] = a.attnum AS first
+      FROM pg_catalog.pg_index i
+      JOIN pg_catalog.pg_attribute a ON a.attrelid = i.indrelid AND a.attnum = ANY(i.indkey)
+      WHERE i.indrelid = $1::regclass
+    `, [qualify(table)]);
+
+    const keyOf = (field: string) => {
+      const related = indexes.rows.filter(idx => idx.field === field);
+      if (related.some(idx => idx.primary)) return 'PRI';
+      if (related.some(idx => idx.unique && idx.size === 1)) return 'UNI';
+      if (related.some(idx => idx.first)) return 'MUL';
+      return '';
+    };
+
+    return columns.rows.map(col => {
+      const isSerial = typeof col.default === 'string' && col.default.startsWith('nextval(');
+      return {
+        Field: col.field,
+        Type: toDisplayType(col.type),
+        Null: col.notnull ? 'NO' : 'YES',
+        Key: keyOf(col.field),
+        Default: toDisplayDefault(col.default),
+        Extra: col.identity || isSerial ? 'auto_increment' : '',
+        Comment: col.comment || '',
+      };
+    });
+  }
+
+  async executeQuery(handle: PostgresHandle, database: string, query: string, sessionId?: string, params?: any[]): Promise<QueryResult> {
+    // 编辑器会话使用自己的连接，手写的 BEGIN、SET 等不会影响浏览；没有会话时使用连接池
+    const session = sessionId ? await this.getSession(handle, sessionId, database) : undefined;
+
+    const startTime = Date.now();
+    let response: any;
+    if (session) {
+      handle.running.set(sessionId!, session.pid);
+      try {
+        response = await session.client.query(query, params);
+      } catch (e) {
+        // 连接已断开的会话下次使用时重新建立
+        if (this.isConnectionLost(e) && handle.sessions.get(sessionId!) === session) {
+          this.dropSession(handle, sessionId!, session);
+        }
+        throw e;
+      } finally {
+        handle.running.delete(sessionId!);
+      }
+    } else {
+      response = await this.getPool(handle, database).query(query, params);
+    }
+    const executionTime = Date.now() - startTime;
+
+    // 多条语句时 pg 返回结果数组，取最后一个
+    const result = Array.isArray(response) ? response[response.length - 1] : response;
+    const columns = result.fields?.map((f: any) => f.name) || [];
+    return {
+      columns,
+      rows: result.rows || [],
+      // 没有结果列的语句（INSERT / UPDATE / DDL 等）返回影响行数
+      affectedRows: columns.length === 0 ? result.rowCount ?? 0 : undefined,
+      executionTime,
+    };
+  }
+
+  // 会话本身就是独占的连接，事务直接在会话连接上开启
+  async beginTransaction(handle: PostgresHandle, database: string, sessionId: string): Promise<void> {
+    const session = await this.getSession(handle, sessionId, database);
+    if (session.transaction) {
+      throw new Error('A transaction is already open in this session');
+    }
+    await session.client.query('BEGIN');
+    session.transaction = true;
+  }
+
+  async commitTransaction(handle: PostgresHandle, sessionId: string): Promise<void> {
+    await this.endTransaction(handle, sessionId, 'COMMIT');
+  }
+
+  async rollbackTransaction(handle: PostgresHandle, sessionId: string): Promise<void> {
+    await this.endTransaction(handle, sessionId, 'ROLLBACK');
+  }
+
+  // 连接断开时事务已被回滚：回滚只清除记录，提交报错
+  private async endTransaction(handle: PostgresHandle, sessionId: string, statement: string): Promise<void> {
+    if (handle.lostTransactions.delete(sessionId)) {
+      if (statement === 'ROLLBACK') return;
+      throw new Error('Transaction was rolled back because the connection was lost');
+    }
+    const session = handle.sessions.get(sessionId);
+    if (!session?.transaction) {
+      throw new Error('No open transaction in this session');
+    }
+    session.transaction = false;
+    await session.client.query(statement);
+  }
+
+  // 关闭会话连接，丢弃会话变量和未提交的事务
+  async closeSession(handle: PostgresHandle, sessionId: string): Promise<void> {
+    handle.lostTransactions.delete(sessionId);
+    const session = handle.sessions.get(sessionId);
+    if (!session) return;
+    handle.sessions.delete(sessionId);
+    await session.client.end().catch(() => undefined);
+  }
+
+  // 创建表
+  async createTable(
+    handle: PostgresHandle,
+    database: string,
+    tableName: string,
+    columns: ColumnDefinition[],
+    indexes?: IndexDefinition[]
+  ): Promise<void> {
+    const target = qualify(tableName);
+
+    const columnDefs: string[] = [];
+    const primaryKeys: string[] = [];
+    const statements: string[] = [];
+
+    columns.forEach(col => {
+      // PostgreSQL 没有 UNSIGNED，自增使用标识列
+      let def = `${quoteIdent(col.name)} ${mapType(col.type)}`;
+      if (col.autoIncrement) def += ' GENERATED BY DEFAULT AS IDENTITY';
+      if (!col.nullable) def += ' NOT NULL';
+      if (col.defaultValue !== undefined && col.defaultValue !== '' && !col.autoIncrement) {
+        def += ` DEFAULT ${postgresDialect.formatDefaultValue(col.defaultValue)}`;
+      }
+      if (col.unique && !col.primaryKey) def += ' UNIQUE';
+      columnDefs.push(def);
+
+      if (col.primaryKey) primaryKeys.push(quoteIdent(col.name));
+      if (col.comment) {
+        statements.push(`COMMENT ON COLUMN ${target}.${quoteIdent(col.name)} IS ${quoteLiteral(col.comment)}`);
+      }
+    });
+
+    if (primaryKeys.length > 0) {
+      columnDefs.push(`PRIMARY KEY (${primaryKeys.join(', ')})`);
+    }
+
+    const { name: bareName } = splitTableName(tableName);
+    (indexes || []).forEach((idx, i) => {
+      statements.push(this.buildCreateIndex(tableName, {
+        name: idx.name || `idx_${bareName}_${i}`,
+        columns: idx.columns,
+        type: idx.type,
+      }));
+    });
+
+    await this.runInTransaction(handle, database, [
+      `CREATE TABLE ${target} (${columnDefs.join(', ')})`,
+      ...statements,
+    ]);
+  }
+
+  protected buildCreateIndex(table: string, index: IndexDefinition): string {
+    if (index.type === 'FULLTEXT') {
+      // 全文索引映射为 GIN 索引
+      const doc = index.columns.map(c => `coalesce(${quoteIdent(c)}::text, '')`).join(` || ' ' || `);
+      return `CREATE INDEX ${quoteIdent(index.name)} ON ${qualify(table)} USING gin (to_tsvector('simple', ${doc}))`;
+    }
+    return super.buildCreateIndex(table, index);
+  }
+
+  // 重命名表
+  async renameTable(handle: PostgresHandle, database: string, table: string, newName: string): Promise<void> {
+    await this.run(handle, database, `ALTER TABLE ${qualify(table)} RENAME TO ${quoteIdent(splitTableName(newName).name)}`);
+  }
+
+  // 添加列
+  async addColumn(handle: PostgresHandle, database: string, table: string, column: ColumnChange): Promise<void> {
+    let sql = `ALTER TABLE ${qualify(table)} ADD COLUMN ${quoteIdent(column.name)} ${mapType(column.type)}`;
+    if (!column.nullable) sql += ' NOT NULL';
+    if (column.defaultValue !== undefined && column.defaultValue !== '') {
+      sql += ` DEFAULT ${postgresDialect.formatDefaultValue(column.defaultValue)}`;
+    }
+    await this.run(handle, database, sql);
+  }
+
+  // 修改列：PostgreSQL 需要把 CHANGE COLUMN 拆成多条 ALTER，只改动实际变化的部分
+  async modifyColumn(handle: PostgresHandle, database: string, table: string, oldName: string, column: ColumnChange): Promise<void> {
+    const current = (await this.getTableColumns(handle, database, table)).find(c => c.Field === oldName);
+    if (!current) {
+      throw new Error(`Column ${oldName} not found`);
+    }
+
+    const target = qualify(table);
+    const col = quoteIdent(column.name);
+    const format = postgresDialect.formatDefaultValue;
+    const statements: string[] = [];
+
+    if (column.name !== oldName) {
+      statements.push(`ALTER TABLE ${target} RENAME COLUMN ${quoteIdent(oldName)} TO ${col}`);
+    }
+    if (column.type.toUpperCase() !== current.Type.toUpperCase()) {
+      const pgType = mapType(column.type);
+      statements.push(`ALTER TABLE ${target} ALTER COLUMN ${col} TYPE ${pgType} USING ${col}::${pgType}`);
+    }
+    if (column.nullable !== (current.Null === 'YES')) {
+      statements.push(`ALTER TABLE ${target} ALTER COLUMN ${col} ${column.nullable ? 'DROP' : 'SET'} NOT NULL`);
+    }
+    // 自增列的默认值由序列/标识列维护，不做修改
+    if (current.Extra !== 'auto_increment') {
+      const newDefault = column.defaultValue ? format(column.defaultValue) : '';
+      const oldDefault = current.Default !== null ? format(String(current.Default)) : '';
+      if (newDefault !== oldDefault) {
+        statements.push(newDefault
+          ? `ALTER TABLE ${target} ALTER COLUMN ${col} SET DEFAULT ${newDefault}`
+          : `ALTER TABLE ${target} ALTER COLUMN ${col} DROP DEFAULT`);
+      }
+    }
+
+    if (statements.length > 0) {
+      await this.runInTransaction(handle, database, statements);
+    }
+  }
+
+  // 删除列
+  async dropColumn(handle: PostgresHandle, database: string, table: string, columnName: string): Promise<void> {
+    await this.run(handle, database, `ALTER TABLE ${qualify(table)} DROP COLUMN ${quoteIdent(columnName)}`);
+  }
+
+  // 获取表的索引（返回与 MySQL SHOW INDEX 相同的字段名）
+  async getTableIndexes(handle: PostgresHandle, database: string, table: string): Promise<any[]> {
+    const result = await this.run(handle, database, `
+      SELECT CASE WHEN i.indisprimary THEN 'PRIMARY' ELSE ic.relname END AS "Key_name",
+        CASE WHEN i.indisunique THEN 0 ELSE 1 END AS "Non_unique",
+        k.ord AS "Seq_in_index",
+        pg_catalog.pg_get_indexdef(i.indexrelid, k.ord::int, true) AS "Column_name",
+        CASE WHEN am.amname = 'gin' THEN 'FULLTEXT' ELSE upper(am.amname) END AS "Index_type"
+      FROM pg_catalog.pg_index i
+      JOIN pg_catalog.pg_class ic ON ic.oid = i.indexrelid
+      JOIN pg_catalog.pg_am am ON am.oid = ic.relam
+      CROSS JOIN LATERAL unnest(i.indkey) WITH ORDINALITY AS k(attnum, ord)
+      WHERE i.indrelid = $1::regclass AND k.ord <= i.indnkeyatts
+      ORDER BY ic.relname, k.ord
+    `, [qualify(table)]);
+    return result.rows;
+  }
+
+  // 获取表的外键
+  async getTableForeignKeys(handle: PostgresHandle, database: string, table: string): Promise<any[]> {
+    const result = await this.run(handle, database, `
+      SELECT con.conname AS name,
+        a.attname AS column,
+        CASE WHEN rn.nspname = 'public' THEN rc.relname ELSE rn.nspname || '.' || rc.relname END AS "refTable",
+        ra.attname AS "refColumn"
+      FROM pg_catalog.pg_constraint con
+      CROSS JOIN LATERAL unnest(con.conkey, con.confkey) AS k(attnum, refattnum)
+      JOIN pg_catalog.pg_attribute a ON a.attrelid = con.conrelid AND a.attnum = k.attnum
+      JOIN pg_catalog.pg_class rc ON rc.oid = con.confrelid
+      JOIN pg_catalog.pg_namespace rn ON rn.oid = rc.relnamespace
+      JOIN pg_catalog.pg_attribute ra ON ra.attrelid = con.confrelid AND ra.attnum = k.refattnum
+      WHERE con.contype = 'f' AND con.conrelid = $1::regclass
+    `, [qualify(table)]);
+    return result.rows;
+  }
+
+  // 删除索引（索引与表位于同一 schema）
+  async dropIndex(handle: PostgresHandle, database: string, table: string, indexName: string): Promise<void> {
+    const { schema } = splitTableName(table);
+    await this.run(handle, database, `DROP INDEX ${quoteIdent(schema)}.${quoteIdent(indexName)}`);
+  }
+
+  // 添加外键
+  async addForeignKey(handle: PostgresHandle, database: string, table: string, fk: ForeignKeyDefinition): Promise<void> {
+    let sql = `ALTER TABLE ${qualify(table)} ADD CONSTRAINT ${quoteIdent(fk.name)} FOREIGN KEY (${quoteIdent(fk.column)}) REFERENCES ${qualify(fk.refTable)} (${quoteIdent(fk.refColumn)})`;
+    if (fk.onDelete) sql += ` ON DELETE ${fk.onDelete}`;
+    if (fk.onUpdate) sql += ` ON UPDATE ${fk.onUpdate}`;
+    await this.run(handle, database, sql);
+  }
+
+  // 删除外键
+  async dropForeignKey(handle: PostgresHandle, database: string, table: string, fkName: string): Promise<void> {
+    await this.run(handle, database, `ALTER TABLE ${qualify(table)} DROP CONSTRAINT ${quoteIdent(fkName)}`);
+  }
+
+  // 修改主键
+  async modifyPrimaryKey(handle: PostgresHandle, database: string, table: string, columns: string[]): Promise<void> {
+    const target = qualify(table);
+    const existing = await this.run(
+      handle,
+      database,
+      `SELECT conname FROM pg_catalog.pg_constraint WHERE conrelid = $1::regclass AND contype = 'p'`,
+      [target]
+    );
+
+    const statements: string[] = [];
+    if (existing.rows.length > 0) {
+      statements.push(`ALTER TABLE ${target} DROP CONSTRAINT ${quoteIdent(existing.rows[0].conname)}`);
+    }
+    if (columns.length > 0) {
+      statements.push(`ALTER TABLE ${target} ADD PRIMARY KEY (${columns.map(quoteIdent).join(', ')})`);
+    }
+    await this.runInTransaction(handle, database, statements);
+  }
+}
@@ -0,0 +1,418 @@
+import type { DatabaseConfig } from '../databaseManager';
+import type {
+  ColumnChange,
+  ColumnDefinition,
+  DatabaseDriver,
+  Dialect,
+  ForeignKeyDefinition,
+  FilterOperator,
+  IndexDefinition,
+  QueryErrorInfo,
+  QueryErrorKind,
+  QueryResult,
+  RowChange,
+  RowKey,
+  TableDataOptions,
+  TableFilter,
+} from './types';
+
+// 表示网络连接已断开的错误码，出现时需要重新建立连接
+export const CONNECTION_LOST_CODES = [
+  'PROTOCOL_CONNECTION_LOST',
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'EPIPE',
+  'ETIMEDOUT',
+  'EHOSTUNREACH',
+];
+
+const DEFAULT_PAGE_SIZE = 100;
+// 无筛选条件时，统计信息估算的行数超过该值则不再执行 COUNT(*)
+const ESTIMATE_THRESHOLD = 1000000;
+
+const COMPARISON_OPERATORS: FilterOperator[] = ['=', '!=', '>', '>=', '<', '<=', 'LIKE', 'NOT LIKE'];
+
+// 驱动从错误中解析出的分类和出错位置线索
+export interface ErrorClue {
+  kind?: QueryErrorKind;
+  sqlState?: string;
+  // 驱动报告的出错偏移（从 0 开始）
+  position?: number;
+  // 出错的标识符，在语句中查找其位置
+  token?: string;
+  // 从出错位置开始的语句片段（如 MySQL 语法错误的 near '...'），从 line 行开始查找；为空串时出错位置在语句末尾
+  near?: string;
+  line?: number;
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// 第 line 行（从 1 开始）在语句中的起始偏移
+const lineOffset = (query: string, line: number): number => {
+  let offset = 0;
+  for (let i = 1; i < line; i++) {
+    const next = query.indexOf('\n', offset);
+    if (next === -1) break;
+    offset = next + 1;
+  }
+  return offset;
+};
+
+// 不区分大小写查找片段，whole 时要求标识符完整匹配
+const findText = (query: string, text: string, from: number, whole: boolean): number | undefined => {
+  const before = whole && /^[\w$]/.test(text) ? '(?<![\\w$])' : '';
+  const after = whole && /[\w$]$/.test(text) ? '(?![\\w$])' : '';
+  const match = new RegExp(`${before}${escapeRegExp(text)}${after}`, 'i').exec(query.slice(from));
+  return match ? from + match.index : undefined;
+};
+
+// 查找出错的标识符，带库名或表名前缀（db.table、alias.column）找不到时只找最后一段
+const findIdentifier = (query: string, name: string): number | undefined => {
+  if (!/[\w$]/.test(name)) return undefined;
+  const position = findText(query, name, 0, true);
+  const last = name.split('.').pop()!;
+  return position ?? (last !== name ? findText(query, last, 0, true) : undefined);
+};
+
+// 出错位置上的标识符、带引号的名称或单个符号
+const tokenAt = (query: string, position: number): string | undefined =>
+  /^(?:[\w$]+(?:\.[\w$]+)*|`[^`]*`|"[^"]*"|\S)/.exec(query.slice(position))?.[0];
+
+export interface RunResult {
+  columns: string[];
+  rows: any[];
+  affectedRows: number;
+}
+
+export interface Statement {
+  sql: string;
+  params: any[];
+}
+
+// 事务内执行语句的函数，由各驱动绑定到同一个数据库连接
+export type TransactionRunner = (sql: string, params?: any[]) => Promise<RunResult>;
+
+/**
+ * 各驱动共用的 SQL 实现：行的增删改、整表读取、索引创建等只依赖方言的引号和占位符，
+ * 驱动只需实现 run() 以及各自数据库特有的元数据查询和 DDL。
+ */
+export abstract class SqlDriver<H> implements DatabaseDriver<H> {
+  abstract readonly dialect: Dialect;
+  readonly defaultPort?: number;
+
+  // 在指定数据库上执行一条语句
+  protected abstract run(handle: H, database: string, sql: string, params?: any[]): Promise<RunResult>;
+  // 在同一连接上开启事务执行 work，work 抛出错误时回滚
+  protected abstract transaction<T>(handle: H, database: string, work: (run: TransactionRunner) => Promise<T>): Promise<T>;
+
+  abstract testConnection(config: DatabaseConfig): Promise<void>;
+  abstract connect(config: DatabaseConfig, onSessionLost?: (sessionId: string) => void): Promise<H>;
+  abstract disconnect(handle: H): Promise<void>;
+
+  abstract getDatabases(handle: H): Promise<string[]>;
+  abstract getSchemas(handle: H, database: string): Promise<string[]>;
+  abstract getTables(handle: H, database: string): Promise<string[]>;
+  abstract getTableColumns(handle: H, database: string, table: string): Promise<any[]>;
+  abstract getTableIndexes(handle: H, database: string, table: string): Promise<any[]>;
+  abstract getTableForeignKeys(handle: H, database: string, table: string): Promise<any[]>;
+  abstract executeQuery(handle: H, database: string, query: string, sessionId?: string, params?: any[]): Promise<QueryResult>;
+  abstract cancelQuery(handle: H, sessionId: string): Promise<boolean>;
+  abstract beginTransaction(handle: H, database: string, sessionId: string): Promise<void>;
+  abstract commitTransaction(handle: H, sessionId: string): Promise<void>;
+  abstract rollbackTransaction(handle: H, sessionId: string): Promise<void>;
+
+  abstract createTable(handle: H, database: string, tableName: string, columns: ColumnDefinition[], indexes?: IndexDefinition[]): Promise<void>;
+  abstract renameTable(handle: H, database: string, table: string, newName: string): Promise<void>;
+  abstract addColumn(handle: H, database: string, table: string, column: ColumnChange): Promise<void>;
+  abstract modifyColumn(handle: H, database: string, table: string, oldName: string, column: ColumnChange): Promise<void>;
+  abstract dropColumn(handle: H, database: string, table: string, columnName: string): Promise<void>;
+  abstract dropIndex(handle: H, database: string, table: string, indexName: string): Promise<void>;
+  abstract addForeignKey(handle: H, database: string, table: string, fk: ForeignKeyDefinition): Promise<void>;
+  abstract dropForeignKey(handle: H, database: string, table: string, fkName: string): Promise<void>;
+  abstract modifyPrimaryKey(handle: H, database: string, table: string, columns: string[]): Promise<void>;
+
+  protected quote(name: string): string {
+    return this.dialect.quoteIdentifier(name);
+  }
+
+  protected quoteTable(table: string): string {
+    return this.dialect.quoteTable(table);
+  }
+
+  // 带数据库名的表名，默认由连接本身确定数据库
+  protected qualifyTable(_database: string, table: string): string {
+    return this.quoteTable(table);
+  }
+
+  // 关闭编辑器会话，不区分会话的驱动无需处理
+  async closeSession(_handle: H, _sessionId: string): Promise<void> {}
+
+  // 保活检测，连接不可用时抛出错误
+  async ping(handle: H): Promise<void> {
+    await this.run(handle, '', 'SELECT 1');
+  }
+
+  isConnectionLost(error: any): boolean {
+    return CONNECTION_LOST_CODES.includes(error?.code);
+  }
+
+  // 结合连接状态说明错误原因，默认原样返回
+  translateError(_handle: H, error: any): any {
+    return error;
+  }
+
+  // 按驱动的错误码解析错误分类和出错位置线索
+  protected parseError(_error: any): ErrorClue {
+    return {};
+  }
+
+  describeError(error: any, query: string): QueryErrorInfo {
+    const clue = this.parseError(error);
+    let position = clue.position;
+    if (position === undefined && clue.near !== undefined) {
+      position = clue.near
+        ? findText(query, clue.near, lineOffset(query, clue.line ?? 1), false)
+        : query.trimEnd().length;
+    }
+    if (position === undefined && clue.token) {
+      position = findIdentifier(query, clue.token);
+    }
+    return {
+      message: error?.message ?? String(error),
+      code: error?.code !== undefined ? String(error.code) : undefined,
+      errno: typeof error?.errno === 'number' ? error.errno : undefined,
+      sqlState: clue.sqlState ?? error?.sqlState,
+      kind: clue.kind,
+      position,
+      line: position !== undefined ? query.slice(0, position).split('\n').length : undefined,
+      token: position !== undefined ? tokenAt(query, position) : clue.token,
+      hint: error?.hint,
+    };
+  }
+
+  async getTableStructure(handle: H, database: string, table: string): Promise<any[]> {
+    return this.getTableColumns(handle, database, table);
+  }
+
+  // 分页读取表数据，排序和筛选在服务端完成
+  async getTableData(handle: H, database: string, table: string, options: TableDataOptions = {}): Promise<QueryResult> {
+    const target = this.qualifyTable(database, table);
+    const { where, params } = this.buildWhere(options.filters || []);
+    const limit = Math.max(1, Math.floor(options.limit ?? DEFAULT_PAGE_SIZE));
+    const offset = Math.max(0, Math.floor(options.offset ?? 0));
+
+    let sql = `SELECT * FROM ${target}${where}`;
+    if (options.orderBy) {
+      const direction = options.orderBy.direction === 'DESC' ? 'DESC' : 'ASC';
+      sql += ` ORDER BY ${this.quote(options.orderBy.column)} ${direction}`;
+    }
+    sql += ` LIMIT ${limit} OFFSET ${offset}`;
+
+    const startTime = Date.now();
+    const result = await this.run(handle, database, sql, params);
+    const executionTime = Date.now() - startTime;
+
+    // 大表在无筛选时使用统计信息估算行数，避免全表 COUNT(*)
+    const estimate = where ? null : await this.estimateRowCount(handle, database, table);
+    const useEstimate = estimate !== null && estimate > ESTIMATE_THRESHOLD;
+    const totalCount = useEstimate
+      ? estimate
+      : await this.countRows(handle, database, `SELECT COUNT(*) AS total FROM ${target}${where}`, params);
+
+    return {
+      columns: result.columns,
+      rows: result.rows,
+      totalCount,
+      totalCountEstimated: useEstimate,
+      executionTime,
+    };
+  }
+
+  private async countRows(handle: H, database: string, sql: string, params: any[]): Promise<number> {
+    const result = await this.run(handle, database, sql, params);
+    return Number(result.rows[0]?.total ?? 0);
+  }
+
+  // 根据表统计信息估算行数，不支持时返回 null
+  protected async estimateRowCount(_handle: H, _database: string, _table: string): Promise<number | null> {
+    return null;
+  }
+
+  // 将筛选条件转换为 WHERE 子句，值通过占位符传入
+  protected buildWhere(filters: TableFilter[]): { where: string; params: any[] } {
+    const params: any[] = [];
+    const next = (value: any) => {
+      params.push(value);
+      return this.dialect.placeholder(params.length);
+    };
+
+    const conditions = filters.map(filter => {
+      const column = this.quote(filter.column);
+      if (filter.operator === 'IS NULL' || filter.operator === 'IS NOT NULL') {
+        return `${column} ${filter.operator}`;
+      }
+      if (filter.operator === 'IN') {
+        const values: any[] = Array.isArray(filter.value) ? filter.value : [filter.value];
+        if (values.length === 0) return '1 = 0';
+        return `${column} IN (${values.map(next).join(', ')})`;
+      }
+      if (!COMPARISON_OPERATORS.includes(filter.operator)) {
+        throw new Error(`Unsupported filter operator: ${filter.operator}`);
+      }
+      return `${column} ${filter.operator} ${next(filter.value)}`;
+    });
+
+    return {
+      where: conditions.length > 0 ? ` WHERE ${conditions.join(' AND ')}` : '',
+      params,
+    };
+  }
+
+  // 删除表
+  async dropTable(handle: H, database: string, table: string): Promise<void> {
+    await this.run(handle, database, `DROP TABLE ${this.qualifyTable(database, table)}`);
+  }
+
+  // 清空表数据
+  async truncateTable(handle: H, database: string, table: string): Promise<void> {
+    await this.run(handle, database, `TRUNCATE TABLE ${this.qualifyTable(database, table)}`);
+  }
+
+  // 插入行
+  async insertRow(handle: H, database: string, table: string, data: Record<string, any>): Promise<void> {
+    const { sql, params } = this.buildInsert(database, table, data);
+    await this.run(handle, database, sql, params);
+  }
+
+  protected buildInsert(database: string, table: string, data: Record<string, any>): Statement {
+    const target = this.qualifyTable(database, table);
+    const keys = Object.keys(data);
+    if (keys.length === 0) {
+      return { sql: this.buildEmptyInsert(target), params: [] };
+    }
+    const columns = keys.map(c => this.quote(c)).join(', ');
+    const placeholders = keys.map((_, i) => this.dialect.placeholder(i + 1)).join(', ');
+    return {
+      sql: `INSERT INTO ${target} (${columns}) VALUES (${placeholders})`,
+      params: Object.values(data),
+    };
+  }
+
+  protected buildEmptyInsert(target: string): string {
+    return `INSERT INTO ${target} DEFAULT VALUES`;
+  }
+
+  // 更新行数据
+  async updateRow(handle: H, database: string, table: string, key: RowKey, updates: Record<string, any>): Promise<void> {
+    const { sql, params } = this.buildUpdate(database, table, key, updates);
+    await this.run(handle, database, sql, params);
+  }
+
+  protected buildUpdate(database: string, table: string, key: RowKey, updates: Record<string, any>): Statement {
+    const target = this.qualifyTable(database, table);
+    const entries = Object.entries(updates);
+    const setClauses = entries
+      .map(([col], i) => `${this.quote(col)} = ${this.dialect.placeholder(i + 1)}`)
+      .join(', ');
+    const { where, params } = this.buildKeyWhere(target, key, entries.length + 1);
+    return {
+      sql: `UPDATE ${target} SET ${setClauses} ${where}`,
+      params: [...entries.map(([, value]) => value), ...params],
+    };
+  }
+
+  // 删除行
+  async deleteRow(handle: H, database: string, table: string, key: RowKey): Promise<void> {
+    const { sql, params } = this.buildDelete(database, table, key);
+    await this.run(handle, database, sql, params);
+  }
+
+  protected buildDelete(database: string, table: string, key: RowKey): Statement {
+    const target = this.qualifyTable(database, table);
+    const { where, params } = this.buildKeyWhere(target, key, 1);
+    return { sql: `DELETE FROM ${target} ${where}`, params };
+  }
+
+  // 生成定位一行的 WHERE 子句，占位符从 startIndex 开始编号；NULL 值用 IS NULL 匹配
+  protected buildKeyWhere(target: string, key: RowKey, startIndex: number): { where: string; params: any[] } {
+    const entries = Object.entries(key.values || {});
+    if (entries.length === 0) {
+      throw new Error('Row key must contain at least one column');
+    }
+    const params: any[] = [];
+    const condition = entries
+      .map(([column, value]) => {
+        if (value === null || value === undefined) {
+          return `${this.quote(column)} IS NULL`;
+        }
+        params.push(value);
+        return `${this.quote(column)} = ${this.dialect.placeholder(startIndex + params.length - 1)}`;
+      })
+      .join(' AND ');
+    return {
+      where: key.limitOne ? this.limitToOneRow(target, condition) : `WHERE ${condition}`,
+      params,
+    };
+  }
+
+  // 没有唯一键时只修改第一条匹配的行，默认使用 MySQL 的 UPDATE/DELETE ... LIMIT
+  protected limitToOneRow(_target: string, condition: string): string {
+    return `WHERE ${condition} LIMIT 1`;
+  }
+
+  // 批量提交暂存的行修改，返回影响的总行数
+  async applyChanges(handle: H, database: string, table: string, changes: RowChange[]): Promise<number> {
+    const statements = changes.map(change => {
+      switch (change.type) {
+        case 'insert':
+          return this.buildInsert(database, table, change.data);
+        case 'update':
+          return this.buildUpdate(database, table, change.key, change.updates);
+        case 'delete':
+          return this.buildDelete(database, table, change.key);
+        default:
+          throw new Error(`Unsupported row change: ${(change as any).type}`);
+      }
+    });
+
+    return this.transaction(handle, database, async run => {
+      let affected = 0;
+      for (let i = 0; i < statements.length; i++) {
+        try {
+          const result = await run(statements[i].sql, statements[i].params);
+          // 目标行已被其他会话修改或删除时不能静默成功
+          if (changes[i].type !== 'insert' && result.affectedRows === 0) {
+            throw new Error('Row not found, it may have been changed or deleted by another session');
+          }
+          affected += result.affectedRows;
+        } catch (e: any) {
+          throw Object.assign(e, { changeIndex: i });
+        }
+      }
+      return affected;
+    });
+  }
+
+  // 批量删除行，在一个事务中逐行删除
+  async deleteRows(handle: H, database: string, table: string, keys: RowKey[]): Promise<number> {
+    const statements = keys.map(key => this.buildDelete(database, table, key));
+    return this.transaction(handle, database, async run => {
+      let affected = 0;
+      for (const { sql, params } of statements) {
+        affected += (await run(sql, params)).affectedRows;
+      }
+      return affected;
+    });
+  }
+
+  // 添加索引
+  async addIndex(handle: H, database: string, table: string, index: IndexDefinition): Promise<void> {
+    await this.run(handle, database, this.buildCreateIndex(table, index));
+  }
+
+  protected buildCreateIndex(table: string, index: IndexDefinition): string {
+    const cols = index.columns.map(c => this.quote(c)).join(', ');
+    const kind = index.type === 'UNIQUE' || index.type === 'FULLTEXT' ? `${index.type} ` : '';
+    return `CREATE ${kind}INDEX ${this.quote(index.name)} ON ${this.quoteTable(table)} (${cols})`;
+  }
+}
@@ -0,0 +1,707 @@
+import Database from 'better-sqlite3';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { DatabaseConfig } from '../databaseManager';
+import { ErrorClue, RunResult, SqlDriver, TransactionRunner } from './sqlDriver';
+import type {
+  ColumnChange,
+  ColumnDefinition,
+  DataTypeInfo,
+  Dialect,
+  ForeignKeyDefinition,
+  IndexDefinition,
+  QueryErrorKind,
+  QueryResult,
+} from './types';
+
+export interface SqliteHandle {
+  config: DatabaseConfig;
+  db: Database.Database;
+  // 开启了手动事务的编辑器会话，各自打开一个独立的数据库连接
+  sessions: Map<string, Database.Database>;
+}
+
+// 重建表时使用的表结构模型，source 为旧表中对应的列名（新增列为空）
+interface TableModel {
+  columns: Array<{ name: string; source?: string; type: string; notNull: boolean; defaultValue: string | null }>;
+  primaryKey: string[];
+  autoIncrement: boolean;
+  uniques: Array<{ name: string; columns: string[] }>;
+  foreignKeys: Array<{ name: string; columns: string[]; refTable: string; refColumns: string[]; onDelete: string; onUpdate: string }>;
+}
+
+// 数据库被其他连接锁住时的等待时间（毫秒）
+const BUSY_TIMEOUT = 200;
+
+// 约束错误的扩展错误码
+const CONSTRAINT_KINDS: Record<string, QueryErrorKind> = {
+  SQLITE_CONSTRAINT_UNIQUE: 'duplicate-key',
+  SQLITE_CONSTRAINT_PRIMARYKEY: 'duplicate-key',
+  SQLITE_CONSTRAINT_FOREIGNKEY: 'foreign-key',
+  SQLITE_CONSTRAINT_NOTNULL: 'not-null',
+};
+
+// SQLITE_ERROR 按消息分类，捕获的名称用于定位
+const MESSAGE_KINDS: Array<[RegExp, QueryErrorKind]> = [
+  [/^near "([\s\S]*)": syntax error/, 'syntax'],
+  [/^no such column: (.+)$/, 'unknown-column'],
+  [/^no such table: (.+)$/, 'unknown-table'],
+  [/^ambiguous column name: (.+)$/, 'ambiguous-column'],
+];
+
+const quoteIdent = (name: string) => `"${name.replace(/"/g, '""')}"`;
+
+const quoteLiteral = (value: string) => `'${value.replace(/'/g, "''")}'`;
+
+// 去掉默认值表达式外层的引号，'abc' -> abc
+const toDisplayDefault = (expr: string | null) => {
+  if (expr === null || expr.toUpperCase() === 'NULL') return null;
+  const literal = expr.match(/^'((?:[^']|'')*)'$/);
+  if (literal) return literal[1].replace(/''/g, "'");
+  return expr.replace(/^\((.*)\)$/, '$1');
+};
+
+// SQLite 按类型亲和性存储，列表只提供常用写法
+const SQLITE_TYPES: DataTypeInfo[] = [
+  { value: 'INTEGER', category: 'integer', hasLength: false },
+  { value: 'REAL', category: 'decimal', hasLength: false },
+  { value: 'NUMERIC', category: 'decimal', hasLength: false },
+  { value: 'TEXT', category: 'text', hasLength: false },
+  { value: 'VARCHAR', category: 'string', hasLength: true, defaultLength: '255' },
+  { value: 'BOOLEAN', category: 'boolean', hasLength: false },
+  { value: 'DATE', category: 'date', hasLength: false },
+  { value: 'DATETIME', category: 'datetime', hasLength: false },
+  { value: 'BLOB', category: 'binary', hasLength: false },
+];
+
+export const sqliteDialect: Dialect = {
+  name: 'sqlite',
+  identifierQuote: '"',
+  dataTypes: SQLITE_TYPES,
+  capabilities: {
+    schemas: false,
+    unsigned: false,
+    columnComments: false,
+    autoIncrement: true,
+    onUpdateTimestamp: false,
+    indexTypes: ['INDEX', 'UNIQUE'],
+    foreignKeyActions: ['RESTRICT', 'CASCADE', 'SET NULL', 'NO ACTION', 'SET DEFAULT'],
+  },
+  quoteIdentifier: quoteIdent,
+  quoteTable: quoteIdent,
+  placeholder: () => '?',
+  explain: (query: string) => `EXPLAIN QUERY PLAN ${query}`,
+  // 格式化默认值，函数调用等表达式需要用括号包起来
+  formatDefaultValue(defaultValue: string): string {
+    const upper = defaultValue.toUpperCase();
+    // MySQL 的 ON UPDATE 子句在 SQLite 中不存在
+    if (upper.startsWith('CURRENT_TIMESTAMP')) return 'CURRENT_TIMESTAMP';
+    if (['NULL', 'CURRENT_DATE', 'CURRENT_TIME', 'TRUE', 'FALSE'].includes(upper)) return defaultValue;
+    if (upper === 'NOW()') return 'CURRENT_TIMESTAMP';
+    if (/^-?\d+(\.\d+)?$/.test(defaultValue)) return defaultValue;
+    if (/^[a-z_]\w*\(.*\)$/i.test(defaultValue)) return `(${defaultValue})`;
+    if (defaultValue === "''") return "''";
+    return quoteLiteral(defaultValue);
+  },
+};
+
+export class SqliteDriver extends SqlDriver<SqliteHandle> {
+  readonly dialect = sqliteDialect;
+
+  async testConnection(config: DatabaseConfig): Promise<void> {
+    if (!config.filename) {
+      throw new Error('SQLite database file is required');
+    }
+    // 新建的数据库文件在连接时才会创建，这里只检查目录可写
+    if (!fs.existsSync(config.filename)) {
+      fs.accessSync(path.dirname(config.filename), fs.constants.W_OK);
+      return;
+    }
+    const db = new Database(config.filename, { readonly: true, fileMustExist: true });
+    try {
+      db.pragma('schema_version');
+    } finally {
+      db.close();
+    }
+  }
+
+  async connect(config: DatabaseConfig): Promise<SqliteHandle> {
+    if (!config.filename) {
+      throw new Error('SQLite database file is required');
+    }
+    return { config, db: this.open(config.filename), sessions: new Map() };
+  }
+
+  // 被其他连接锁住时同步等待会阻塞主进程，等待时间要短
+  private open(filename: string): Database.Database {
+    const db = new Database(filename, { timeout: BUSY_TIMEOUT });
+    db.pragma('foreign_keys = ON');
+    return db;
+  }
+
+  async disconnect(handle: SqliteHandle): Promise<void> {
+    for (const db of handle.sessions.values()) {
+      db.close();
+    }
+    handle.sessions.clear();
+    handle.db.close();
+  }
+
+  // 手动事务在独立连接上持有写锁，其他连接写入时很快报 SQLITE_BUSY，说明原因
+  translateError(handle: SqliteHandle, error: any): any {
+    if (error?.code !== 'SQLITE_BUSY' || handle.sessions.size === 0) return error;
+    return Object.assign(
+      new Error('Database is locked by a manual transaction open in another editor tab, commit or roll it back first'),
+      { code: error.code }
+    );
+  }
+
+  // SQLite 不报告出错位置，按消息中的名称定位；incomplete input 表示语句在末尾意外结束
+  protected parseError(error: any): ErrorClue {
+    const message: string = error?.message || '';
+    if (CONSTRAINT_KINDS[error?.code]) {
+      return { kind: CONSTRAINT_KINDS[error.code] };
+    }
+    if (/^incomplete input/.test(message)) {
+      return { kind: 'syntax', near: '' };
+    }
+    for (const [pattern, kind] of MESSAGE_KINDS) {
+      const match = pattern.exec(message);
+      if (match) return { kind, token: match[1] };
+    }
+    return {};
+  }
+
+  // better-sqlite3 是同步接口，所有语句都在主数据库上执行
+  protected async run(handle: SqliteHandle, _database: string, sql: string, params: any[] = []): Promise<RunResult> {
+    const stmt = handle.db.prepare(sql);
+    if (stmt.reader) {
+      return {
+        columns: stmt.columns().map(c => c.name),
+        rows: stmt.all(...params),
+        affectedRows: 0,
+      };
+    }
+    return { columns: [], rows: [], affectedRows: stmt.run(...params).changes };
+  }
+
+  // work 是异步函数，无法使用 db.transaction()，手动开启和结束事务
+  protected async transaction<T>(handle: SqliteHandle, database: string, work: (run: TransactionRunner) => Promise<T>): Promise<T> {
+    const { db } = handle;
+    db.exec('BEGIN');
+    try {
+      const result = await work((sql, params) => this.run(handle, database, sql, params));
+      db.exec('COMMIT');
+      return result;
+    } catch (e) {
+      if (db.inTransaction) db.exec('ROLLBACK');
+      throw e;
+    }
+  }
+
+  // UPDATE/DELETE ... LIMIT 需要编译选项支持，通过 rowid 定位第一条匹配的行
+  protected limitToOneRow(target: string, condition: string): string {
+    return `WHERE rowid = (SELECT rowid FROM ${target} WHERE ${condition} LIMIT 1)`;
+  }
+
+  // 单个文件即一个数据库，以文件名显示
+  async getDatabases(handle: SqliteHandle): Promise<string[]> {
+    return [path.basename(handle.config.filename || 'main')];
+  }
+
+  async getSchemas(handle: SqliteHandle, _database: string): Promise<string[]> {
+    const { db } = handle;
+    return (db.pragma('database_list') as any[]).map(row => row.name);
+  }
+
+  async getTables(handle: SqliteHandle, _database: string): Promise<string[]> {
+    const { db } = handle;
+    const rows = db.prepare(
+      `SELECT name FROM sqlite_master WHERE type IN ('table', 'view') AND name NOT LIKE 'sqlite\\_%' ESCAPE '\\' ORDER BY name`
+    ).all() as any[];
+    return rows.map(row => row.name);
+  }
+
+  // 返回与 MySQL SHOW COLUMNS 相同结构的列信息
+  async getTableColumns(handle: SqliteHandle, _database: string, table: string): Promise<any[]> {
+    const { db } = handle;
+    const columns = db.pragma(`table_info(${quoteIdent(table)})`) as any[];
+    const indexes = this.readIndexes(db, table);
+    const pkColumns = columns.filter(col => col.pk > 0);
+    const isAutoIncrement = (col: any) =>
+      pkColumns.length === 1 && col.pk > 0 && String(col.type).toUpperCase() === 'INTEGER';
+
+    const keyOf = (col: any) => {
+      if (col.pk > 0) return 'PRI';
+      if (indexes.some(idx => idx.unique && idx.columns.length === 1 && idx.columns[0] === col.name)) return 'UNI';
+      if (indexes.some(idx => idx.columns[0] === col.name)) return 'MUL';
+      return '';
+    };
+
+    return columns.map(col => ({
+      Field: col.name,
+      Type: col.type || '',
+      Null: col.notnull || col.pk > 0 ? 'NO' : 'YES',
+      Key: keyOf(col),
+      Default: toDisplayDefault(col.dflt_value),
+      Extra: isAutoIncrement(col) ? 'auto_increment' : '',
+    }));
+  }
+
+  async executeQuery(handle: SqliteHandle, _database: string, query: string, sessionId?: string, params: any[] = []): Promise<QueryResult> {
+    const db = (sessionId && handle.sessions.get(sessionId)) || handle.db;
+
+    const startTime = Date.now();
+    let columns: string[] = [];
+    let rows: any[] = [];
+    let affectedRows: number | undefined;
+    try {
+      const stmt = db.prepare(query);
+      if (stmt.reader) {
+        columns = stmt.columns().map(c => c.name);
+        rows = stmt.all(...params);
+      } else {
+        affectedRows = stmt.run(...params).changes;
+      }
+    } catch (e: any) {
+      // prepare 只接受单条语句，多条语句交给 exec 执行，exec 不支持绑定参数
+      if (!/more than one statement/i.test(e.message) || params.length > 0) throw e;
+      db.exec(query);
+    }
+    const executionTime = Date.now() - startTime;
+
+    return { columns, rows, affectedRows, executionTime };
+  }
+
+  // better-sqlite3 同步执行查询，执行期间主进程无法处理取消请求；没有可取消的语句，脚本的剩余语句由编辑器停止执行
+  async cancelQuery(_handle: SqliteHandle, _sessionId: string): Promise<boolean> {
+    return false;
+  }
+
+  // 事务在独立连接上进行，未提交的修改对浏览不可见；写入后会锁住数据库，提交前其他连接的写操作报错（见 translateError）
+  async beginTransaction(handle: SqliteHandle, _database: string, sessionId: string): Promise<void> {
+    const filename = handle.config.filename!;
+    if (filename === ':memory:' || filename === '') {
+      throw new Error('Manual transactions are not supported for in-memory SQLite databases');
+    }
+    if (handle.sessions.has(sessionId)) {
+      throw new Error('A transaction is already open in this session');
+    }
+    const db = this.open(filename);
+    db.exec('BEGIN');
+    handle.sessions.set(sessionId, db);
+  }
+
+  async commitTransaction(handle: SqliteHandle, sessionId: string): Promise<void> {
+    this.endTransaction(handle, sessionId, 'COMMIT');
+  }
+
+  async rollbackTransaction(handle: SqliteHandle, sessionId: string): Promise<void> {
+    this.endTransaction(handle, sessionId, 'ROLLBACK');
+  }
+
+  private endTransaction(handle: SqliteHandle, sessionId: string, statement: string): void {
+    const db = handle.sessions.get(sessionId);
+    if (!db) {
+      throw new Error('No open transaction in this session');
+    }
+    handle.sessions.delete(sessionId);
+    try {
+      if (db.inTransaction) db.exec(statement);
+    } finally {
+      db.close();
+    }
+  }
+
+  async closeSession(handle: SqliteHandle, sessionId: string): Promise<void> {
+    if (handle.sessions.has(sessionId)) {
+      this.endTransaction(handle, sessionId, 'ROLLBACK');
+    }
+  }
+
+  // 创建表
+  async createTable(
+    handle: SqliteHandle,
+    _database: string,
+    tableName: string,
+    columns: ColumnDefinition[],
+    indexes?: IndexDefinition[]
+  ): Promise<void> {
+    const { db } = handle;
+    const primaryKeys = columns.filter(col => col.primaryKey).map(col => col.name);
+    const autoIncrementCol = columns.find(col => col.autoIncrement);
+    if (autoIncrementCol && primaryKeys.length > 1) {
+      throw new Error('SQLite AUTOINCREMENT requires a single-column primary key');
+    }
+
+    const columnDefs: string[] = [];
+    columns.forEach(col => {
+      // SQLite 的自增列必须声明为 INTEGER PRIMARY KEY，无 UNSIGNED 和列注释
+      if (col.autoIncrement) {
+        columnDefs.push(`${quoteIdent(col.name)} INTEGER PRIMARY KEY AUTOINCREMENT`);
+        return;
+      }
+      let def = `${quoteIdent(col.name)} ${col.type}`;
+      if (!col.nullable) def += ' NOT NULL';
+      if (col.defaultValue !== undefined && col.defaultValue !== '') {
+        def += ` DEFAULT ${sqliteDialect.formatDefaultValue(col.defaultValue)}`;
+      }
+      if (col.unique && !col.primaryKey) def += ' UNIQUE';
+      columnDefs.push(def);
+    });
+
+    if (primaryKeys.length > 0 && !autoIncrementCol) {
+      columnDefs.push(`PRIMARY KEY (${primaryKeys.map(quoteIdent).join(', ')})`);
+    }
+
+    db.transaction(() => {
+      db.exec(`CREATE TABLE ${quoteIdent(tableName)} (${columnDefs.join(', ')})`);
+      (indexes || []).forEach((idx, i) => {
+        db.exec(this.buildCreateIndex(tableName, {
+          name: idx.name || `idx_${tableName}_${i}`,
+          columns: idx.columns,
+          type: idx.type,
+        }));
+      });
+    })();
+  }
+
+  // SQLite 没有全文索引（需要 FTS 虚拟表），按普通索引创建
+  protected buildCreateIndex(table: string, index: IndexDefinition): string {
+    return super.buildCreateIndex(table, { ...index, type: index.type === 'UNIQUE' ? 'UNIQUE' : 'INDEX' });
+  }
+
+  // 重命名表
+  async renameTable(handle: SqliteHandle, _database: string, table: string, newName: string): Promise<void> {
+    const { db } = handle;
+    db.exec(`ALTER TABLE ${quoteIdent(table)} RENAME TO ${quoteIdent(newName)}`);
+  }
+
+  // 清空表数据（SQLite 没有 TRUNCATE，同时重置自增计数）
+  async truncateTable(handle: SqliteHandle, _database: string, table: string): Promise<void> {
+    const { db } = handle;
+    db.transaction(() => {
+      db.exec(`DELETE FROM ${quoteIdent(table)}`);
+      const hasSequence = db.prepare(`SELECT 1 FROM sqlite_master WHERE name = 'sqlite_sequence'`).get();
+      if (hasSequence) {
+        db.prepare('DELETE FROM sqlite_sequence WHERE name = ?').run(table);
+      }
+    })();
+  }
+
+  // 添加列
+  async addColumn(handle: SqliteHandle, _database: string, table: string, column: ColumnChange): Promise<void> {
+    const { db } = handle;
+    let sql = `ALTER TABLE ${quoteIdent(table)} ADD COLUMN ${quoteIdent(column.name)} ${column.type}`;
+    if (!column.nullable) sql += ' NOT NULL';
+    if (column.defaultValue !== undefined && column.defaultValue !== '') {
+      sql += ` DEFAULT ${sqliteDialect.formatDefaultValue(column.defaultValue)}`;
+    }
+    db.exec(sql);
+  }
+
+  // 修改列（SQLite 不支持修改列定义，需要重建表）
+  async modifyColumn(handle: SqliteHandle, _database: string, table: string, oldName: string, column: ColumnChange): Promise<void> {
+    const { db } = handle;
+    this.rebuildTable(db, table, model => {
+      const target = model.columns.find(c => c.name === oldName);
+      if (!target) {
+        throw new Error(`Column ${oldName} not found`);
+      }
+      target.name = column.name;
+      target.type = column.type;
+      target.notNull = !column.nullable;
+      target.defaultValue = column.defaultValue ? sqliteDialect.formatDefaultValue(column.defaultValue) : null;
+      const rename = (c: string) => c === oldName ? column.name : c;
+      model.primaryKey = model.primaryKey.map(rename);
+      model.uniques.forEach(u => { u.columns = u.columns.map(rename); });
+      model.foreignKeys.forEach(fk => { fk.columns = fk.columns.map(rename); });
+    });
+  }
+
+  // 删除列
+  async dropColumn(handle: SqliteHandle, _database: string, table: string, columnName: string): Promise<void> {
+    const { db } = handle;
+    this.rebuildTable(db, table, model => {
+      model.columns = model.columns.filter(c => c.name !== columnName);
+      model.primaryKey = model.primaryKey.filter(c => c !== columnName);
+      model.uniques = model.uniques.filter(u => !u.columns.includes(columnName));
+      model.foreignKeys = model.foreignKeys.filter(fk => !fk.columns.includes(columnName));
+    });
+  }
+
+  // 获取表的索引（返回与 MySQL SHOW INDEX 相同的字段名）
+  async getTableIndexes(handle: SqliteHandle, _database: string, table: string): Promise<any[]> {
+    const { db } = handle;
+    const rows: any[] = [];
+    for (const idx of this.readIndexes(db, table)) {
+      idx.columns.forEach((column, i) => {
+        rows.push({
+          Key_name: idx.origin === 'pk' ? 'PRIMARY' : idx.name,
+          Non_unique: idx.unique ? 0 : 1,
+          Seq_in_index: i + 1,
+          Column_name: column,
+          Index_type: 'BTREE',
+        });
+      });
+    }
+    return rows;
+  }
+
+  // 获取表的外键
+  async getTableForeignKeys(handle: SqliteHandle, _database: string, table: string): Promise<any[]> {
+    const { db } = handle;
+    return this.readForeignKeys(db, table).flatMap(fk =>
+      fk.columns.map((column, i) => ({
+        name: fk.name,
+        column,
+        refTable: fk.refTable,
+        refColumn: fk.refColumns[i],
+      }))
+    );
+  }
+
+  // 删除索引，UNIQUE 约束生成的自动索引只能通过重建表删除
+  async dropIndex(handle: SqliteHandle, _database: string, table: string, indexName: string): Promise<void> {
+    const { db } = handle;
+    if (!indexName.startsWith('sqlite_autoindex_')) {
+      db.exec(`DROP INDEX ${quoteIdent(indexName)}`);
+      return;
+    }
+    this.rebuildTable(db, table, model => {
+      model.uniques = model.uniques.filter(u => u.name !== indexName);
+    });
+  }
+
+  // 添加外键
+  async addForeignKey(handle: SqliteHandle, _database: string, table: string, fk: ForeignKeyDefinition): Promise<void> {
+    const { db } = handle;
+    this.rebuildTable(db, table, model => {
+      model.foreignKeys.push({
+        name: fk.name,
+        columns: [fk.column],
+        refTable: fk.refTable,
+        refColumns: [fk.refColumn],
+        onDelete: fk.onDelete || 'NO ACTION',
+        onUpdate: fk.onUpdate || 'NO ACTION',
+      });
+    });
+  }
+
+  // 删除外键
+  async dropForeignKey(handle: SqliteHandle, _database: string, table: string, fkName: string): Promise<void> {
+    const { db } = handle;
+    this.rebuildTable(db, table, model => {
+      model.foreignKeys = model.foreignKeys.filter(fk => fk.name !== fkName);
+    });
+  }
+
+  // 修改主键
+  async modifyPrimaryKey(handle: SqliteHandle, _database: string, table: string, columns: string[]): Promise<void> {
+    const { db } = handle;
+    this.rebuildTable(db, table, model => {
+      model.primaryKey = columns;
+      // 自增只能用于单列 INTEGER 主键
+      if (columns.length !== 1) model.autoIncrement = false;
+    });
+  }
+
+  private readIndexes(db: Database.Database, table: string) {
+    const list = db.pragma(`index_list(${quoteIdent(table)})`) as any[];
+    return list.map(idx => ({
+      name: idx.name as string,
+      unique: idx.unique === 1,
+      origin: idx.origin as 'c' | 'u' | 'pk',
+      columns: (db.pragma(`index_info(${quoteIdent(idx.name)})`) as any[])
+        .sort((a, b) => a.seqno - b.seqno)
+        .map(col => col.name as string),
+    }));
+  }
+
+  // PRAGMA foreign_key_list 不返回约束名，从建表语句中解析 CONSTRAINT name FOREIGN KEY (...)
+  private readForeignKeys(db: Database.Database, table: string): TableModel['foreignKeys'] {
+    const rows = db.pragma(`foreign_key_list(${quoteIdent(table)})`) as any[];
+    const sql = this.getCreateSql(db, table);
+    const names = new Map<string, string>();
+    const pattern = /CONSTRAINT\s+("(?:[^"]|"")+"|`[^`]+`|\[[^\]]+\]|\w+)\s+FOREIGN\s+KEY\s*\(\s*("(?:[^"]|"")+"|`[^`]+`|\[[^\]]+\]|\w+)/gi;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(sql)) !== null) {
+      const unquote = (s: string) => s.replace(/^["`[](.*)["`\]]$/, '$1').replace(/""/g, '"');
+      names.set(unquote(match[2]), unquote(match[1]));
+    }
+
+    const byId = new Map<number, TableModel['foreignKeys'][number]>();
+    for (const row of rows.sort((a, b) => a.id - b.id || a.seq - b.seq)) {
+      let fk = byId.get(row.id);
+      if (!fk) {
+        fk = {
+          name: names.get(row.from) || `fk_${table}_${row.id}`,
+          columns: [],
+          refTable: row.table,
+          refColumns: [],
+          onDelete: row.on_delete,
+          onUpdate: row.on_update,
+        };
+        byId.set(row.id, fk);
+      }
+      fk.columns.push(row.from);
+      fk.refColumns.push(row.to);
+    }
+    return Array.from(byId.values());
+  }
+
+  private getCreateSql(db: Database.Database, table: string): string {
+    const row = db.prepare(`SELECT sql FROM sqlite_master WHERE type = 'table' AND name = ?`).get(table) as any;
+    if (!row) {
+      throw new Error(`Table ${table} not found`);
+    }
+    return row.sql || '';
+  }
+
+  private readTableModel(db: Database.Database, table: string): TableModel {
+    const columns = db.pragma(`table_info(${quoteIdent(table)})`) as any[];
+    return {
+      columns: columns.map(col => ({
+        name: col.name,
+        source: col.name,
+        type: col.type || '',
+        notNull: col.notnull === 1,
+        defaultValue: col.dflt_value,
+      })),
+      primaryKey: columns.filter(col => col.pk > 0).sort((a, b) => a.pk - b.pk).map(col => col.name),
+      autoIncrement: /\bAUTOINCREMENT\b/i.test(this.getCreateSql(db, table)),
+      uniques: this.readIndexes(db, table)
+        .filter(idx => idx.origin === 'u')
+        .map(idx => ({ name: idx.name, columns: idx.columns })),
+      foreignKeys: this.readForeignKeys(db, table),
+    };
+  }
+
+  private buildCreateTable(table: string, model: TableModel): string {
+    const inlinePk = model.autoIncrement && model.primaryKey.length === 1;
+    const defs = model.columns.map(col => {
+      if (inlinePk && col.name === model.primaryKey[0]) {
+        return `${quoteIdent(col.name)} INTEGER PRIMARY KEY AUTOINCREMENT`;
+      }
+      let def = `${quoteIdent(col.name)}${col.type ? ` ${col.type}` : ''}`;
+      if (col.notNull) def += ' NOT NULL';
+      if (col.defaultValue !== null) def += ` DEFAULT ${col.defaultValue}`;
+      return def;
+    });
+    if (model.primaryKey.length > 0 && !inlinePk) {
+      defs.push(`PRIMARY KEY (${model.primaryKey.map(quoteIdent).join(', ')})`);
+    }
+    model.uniques.forEach(u => {
+      defs.push(`UNIQUE (${u.columns.map(quoteIdent).join(', ')})`);
+    });
+    model.foreignKeys.forEach(fk => {
+      defs.push(
+        `CONSTRAINT ${quoteIdent(fk.name)} FOREIGN KEY (${fk.columns.map(quoteIdent).join(', ')}) ` +
+        `REFERENCES ${quoteIdent(fk.refTable)} (${fk.refColumns.map(quoteIdent).join(', ')}) ` +
+        `ON DELETE ${fk.onDelete} ON UPDATE ${fk.onUpdate}`
+      );
+    });
+    return `CREATE TABLE ${quoteIdent(table)} (${defs.join(', ')})`;
+  }
+
+  /**
+   * SQLite 的 ALTER TABLE 只支持少数操作，其余修改按官方推荐的步骤重建表：
+   * 建新表 -> 复制数据 -> 删除旧表 -> 新表改名 -> 重建索引和触发器 -> 检查视图和外键
+   */
+  private rebuildTable(db: Database.Database, table: string, mutate: (model: TableModel) => void): void {
+    const model = this.readTableModel(db, table);
+    mutate(model);
+
+    // 旧列名 -> 新列名，用于重建手动创建的索引
+    const renamed = new Map<string, string>();
+    model.columns.forEach(col => {
+      if (col.source) renamed.set(col.source, col.name);
+    });
+    const indexes = this.readIndexes(db, table).filter(idx => idx.origin === 'c');
+    const indexSql = new Map<string, string>();
+    for (const idx of indexes) {
+      const row = db.prepare(`SELECT sql FROM sqlite_master WHERE type = 'index' AND name = ?`).get(idx.name) as any;
+      if (row?.sql) indexSql.set(idx.name, row.sql);
+    }
+    // 删除旧表时触发器随之删除，改名后按原 SQL 重建
+    const triggers = db.prepare(
+      `SELECT name, sql FROM sqlite_master WHERE type = 'trigger' AND tbl_name = ? AND sql IS NOT NULL`
+    ).all(table) as { name: string; sql: string }[];
+    // 重建前可用的视图，重建后仍需可用
+    const views = (db.prepare(`SELECT name FROM sqlite_master WHERE type = 'view'`).all() as { name: string }[])
+      .map(row => row.name)
+      .filter(name => this.viewError(db, name) === null);
+
+    const tempName = `_${table}_rebuild`;
+    const copied = model.columns.filter(col => col.source);
+
+    db.pragma('foreign_keys = OFF');
+    try {
+      db.transaction(() => {
+        db.exec(this.buildCreateTable(tempName, model));
+        if (copied.length > 0) {
+          db.exec(
+            `INSERT INTO ${quoteIdent(tempName)} (${copied.map(c => quoteIdent(c.name)).join(', ')}) ` +
+            `SELECT ${copied.map(c => quoteIdent(c.source!)).join(', ')} FROM ${quoteIdent(table)}`
+          );
+        }
+        db.exec(`DROP TABLE ${quoteIdent(table)}`);
+        // 旧表删除后引用它的视图暂时失效，新版 RENAME 会因此报错，改用旧版行为只改表名
+        db.pragma('legacy_alter_table = ON');
+        try {
+          db.exec(`ALTER TABLE ${quoteIdent(tempName)} RENAME TO ${quoteIdent(table)}`);
+        } finally {
+          db.pragma('legacy_alter_table = OFF');
+        }
+
+        for (const idx of indexes) {
+          // 引用了已删除列的索引随列一起删除
+          if (idx.columns.some(c => c !== null && !renamed.has(c))) continue;
+          const unchanged = idx.columns.every(c => c === null || renamed.get(c) === c);
+          const sql = indexSql.get(idx.name);
+          if (unchanged && sql) {
+            db.exec(sql);
+          } else {
+            db.exec(this.buildCreateIndex(table, {
+              name: idx.name,
+              columns: idx.columns.map(c => renamed.get(c)!),
+              type: idx.unique ? 'UNIQUE' : 'INDEX',
+            }));
+          }
+        }
+
+        for (const trigger of triggers) {
+          try {
+            db.exec(trigger.sql);
+          } catch (e: any) {
+            throw new Error(`Cannot recreate trigger ${trigger.name}: ${e.message}`);
+          }
+        }
+
+        for (const view of views) {
+          const error = this.viewError(db, view);
+          if (error) {
+            throw new Error(`View ${view} would break: ${error}`);
+          }
+        }
+
+        const violations = db.pragma('foreign_key_check') as any[];
+        if (violations.length > 0) {
+          throw new Error(`Foreign key check failed on table ${violations[0].table}`);
+        }
+      })();
+    } finally {
+      db.pragma('foreign_keys = ON');
+    }
+  }
+
+  // 编译视图检查其引用的表和列是否存在，返回错误信息
+  private viewError(db: Database.Database, view: string): string | null {
+    try {
+      db.prepare(`SELECT * FROM ${quoteIdent(view)} LIMIT 0`);
+      return null;
+    } catch (e: any) {
+      return e.message;
+    }
+  }
+}
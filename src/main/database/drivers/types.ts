@@ -0,0 +1,249 @@
+import type { DatabaseConfig } from '../databaseManager';
+
+export type IndexType = 'INDEX' | 'UNIQUE' | 'FULLTEXT';
+
+export interface ColumnDefinition {
+  name: string;
+  type: string;
+  nullable: boolean;
+  defaultValue?: string;
+  primaryKey?: boolean;
+  autoIncrement?: boolean;
+  unique?: boolean;
+  unsigned?: boolean;
+  comment?: string;
+}
+
+export interface ColumnChange {
+  name: string;
+  type: string;
+  nullable: boolean;
+  defaultValue?: string;
+}
+
+export interface IndexDefinition {
+  name: string;
+  columns: string[];
+  type: string;
+}
+
+export interface ForeignKeyDefinition {
+  name: string;
+  column: string;
+  refTable: string;
+  refColumn: string;
+  onDelete?: string;
+  onUpdate?: string;
+}
+
+export type FilterOperator =
+  | '='
+  | '!='
+  | '>'
+  | '>='
+  | '<'
+  | '<='
+  | 'LIKE'
+  | 'NOT LIKE'
+  | 'IN'
+  | 'IS NULL'
+  | 'IS NOT NULL';
+
+export interface TableFilter {
+  column: string;
+  operator: FilterOperator;
+  // IN 为数组，IS NULL / IS NOT NULL 不需要值
+  value?: any;
+}
+
+// 表数据分页、排序和筛选参数
+export interface TableDataOptions {
+  offset?: number;
+  limit?: number;
+  orderBy?: { column: string; direction: 'ASC' | 'DESC' };
+  filters?: TableFilter[];
+}
+
+// 定位一行数据：列名到原值的映射，通常为主键或唯一索引的列。
+// 表没有主键和唯一索引时按全部列匹配，limitOne 为 true，每条语句只修改一行
+export interface RowKey {
+  values: Record<string, any>;
+  limitOne?: boolean;
+}
+
+// 数据表格中暂存的行修改，批量提交时在同一事务中执行
+export type RowChange =
+  | { type: 'insert'; data: Record<string, any> }
+  | { type: 'update'; key: RowKey; updates: Record<string, any> }
+  | { type: 'delete'; key: RowKey };
+
+export interface QueryResult {
+  columns: string[];
+  rows: any[];
+  totalCount?: number;
+  // totalCount 来自表统计信息的估算值
+  totalCountEstimated?: boolean;
+  // 非查询语句影响的行数
+  affectedRows?: number;
+  // UPDATE 中值实际发生变化的行数（MySQL）
+  changedRows?: number;
+  // 自增列生成的 ID（MySQL）
+  insertId?: number | string;
+  warningCount?: number;
+  // 有警告时 SHOW WARNINGS 的结果
+  warnings?: QueryWarning[];
+  executionTime: number;
+}
+
+// SHOW WARNINGS 的一行
+export interface QueryWarning {
+  level: string;
+  code: number;
+  message: string;
+}
+
+// 常见查询错误的分类，界面据此给出提示
+export type QueryErrorKind =
+  | 'syntax'
+  | 'unknown-column'
+  | 'unknown-table'
+  | 'ambiguous-column'
+  | 'duplicate-key'
+  | 'foreign-key'
+  | 'not-null'
+  | 'access-denied';
+
+// 编辑器查询失败的详细信息
+export interface QueryErrorInfo {
+  message: string;
+  // 驱动的错误码：MySQL 为 ER_BAD_FIELD_ERROR 等，PostgreSQL 为 SQLSTATE，SQLite 为 SQLITE_ERROR 等
+  code?: string;
+  // MySQL 的错误号
+  errno?: number;
+  sqlState?: string;
+  kind?: QueryErrorKind;
+  // 出错位置在语句中的偏移（从 0 开始）和行号（从 1 开始），驱动没有报告且无法从消息推断时为空
+  position?: number;
+  line?: number;
+  // 出错位置的标识符或片段
+  token?: string;
+  // 服务器给出的提示（PostgreSQL）
+  hint?: string;
+}
+
+// 类型分类，界面根据分类选择输入控件和默认值选项
+export type TypeCategory =
+  | 'integer'
+  | 'decimal'
+  | 'string'
+  | 'text'
+  | 'date'
+  | 'datetime'
+  | 'time'
+  | 'boolean'
+  | 'json'
+  | 'binary'
+  | 'enum'
+  | 'other';
+
+export interface DataTypeInfo {
+  value: string;
+  category: TypeCategory;
+  hasLength: boolean;
+  defaultLength?: string;
+}
+
+export interface DriverCapabilities {
+  schemas: boolean;
+  unsigned: boolean;
+  columnComments: boolean;
+  autoIncrement: boolean;
+  // MySQL 的 ON UPDATE CURRENT_TIMESTAMP
+  onUpdateTimestamp: boolean;
+  indexTypes: IndexType[];
+  foreignKeyActions: string[];
+}
+
+// 可以通过 IPC 传给渲染进程的方言信息
+export interface DialectInfo {
+  name: DatabaseConfig['type'];
+  identifierQuote: string;
+  dataTypes: DataTypeInfo[];
+  capabilities: DriverCapabilities;
+}
+
+export interface Dialect extends DialectInfo {
+  quoteIdentifier(name: string): string;
+  // 表名可能带 schema 前缀
+  quoteTable(table: string): string;
+  placeholder(index: number): string;
+  formatDefaultValue(defaultValue: string): string;
+  // 查看执行计划的语句：MySQL / PostgreSQL 返回 JSON 格式的计划，SQLite 为 EXPLAIN QUERY PLAN
+  explain(query: string): string;
+}
+
+/**
+ * 数据库驱动接口，DatabaseManager 按 DatabaseConfig.type 分发到对应实现。
+ * H 为驱动自己的连接句柄类型，对 DatabaseManager 不透明。
+ */
+export interface DatabaseDriver<H = unknown> {
+  readonly dialect: Dialect;
+  // 网络数据库的默认端口，SQLite 等文件数据库为空
+  readonly defaultPort?: number;
+
+  testConnection(config: DatabaseConfig): Promise<void>;
+  // onSessionLost：编辑器会话的连接断开且其中有手动事务时调用，事务已被服务器回滚
+  connect(config: DatabaseConfig, onSessionLost?: (sessionId: string) => void): Promise<H>;
+  disconnect(handle: H): Promise<void>;
+  // 保活检测，连接不可用时抛出错误
+  ping(handle: H): Promise<void>;
+  // 判断错误是否因连接断开引起，是则由上层重新连接
+  isConnectionLost(error: any): boolean;
+  // 编辑器查询失败时的错误码、分类和出错位置，query 为执行的语句
+  describeError(error: any, query: string): QueryErrorInfo;
+  // 结合连接状态把驱动错误转换为更易理解的错误（如被其他会话的事务锁住），其余原样返回
+  translateError(handle: H, error: any): any;
+
+  getDatabases(handle: H): Promise<string[]>;
+  getSchemas(handle: H, database: string): Promise<string[]>;
+  getTables(handle: H, database: string): Promise<string[]>;
+  getTableStructure(handle: H, database: string, table: string): Promise<any[]>;
+  getTableColumns(handle: H, database: string, table: string): Promise<any[]>;
+  getTableIndexes(handle: H, database: string, table: string): Promise<any[]>;
+  getTableForeignKeys(handle: H, database: string, table: string): Promise<any[]>;
+
+  // sessionId 标识编辑器标签页，同一会话的查询在同一数据库连接上执行；
+  // params 按位置绑定到 query 中的方言占位符（? 或 $n）
+  executeQuery(handle: H, database: string, query: string, sessionId?: string, params?: any[]): Promise<QueryResult>;
+  closeSession(handle: H, sessionId: string): Promise<void>;
+  // 取消会话中正在执行的查询，没有正在执行的查询时返回 false
+  cancelQuery(handle: H, sessionId: string): Promise<boolean>;
+  // 手动事务：在会话的专用连接上开启事务，提交或回滚前该会话的查询都在事务中执行，
+  // 关闭会话时未结束的事务会被回滚
+  beginTransaction(handle: H, database: string, sessionId: string): Promise<void>;
+  commitTransaction(handle: H, sessionId: string): Promise<void>;
+  rollbackTransaction(handle: H, sessionId: string): Promise<void>;
+  getTableData(handle: H, database: string, table: string, options?: TableDataOptions): Promise<QueryResult>;
+
+  createTable(handle: H, database: string, tableName: string, columns: ColumnDefinition[], indexes?: IndexDefinition[]): Promise<void>;
+  dropTable(handle: H, database: string, table: string): Promise<void>;
+  renameTable(handle: H, database: string, table: string, newName: string): Promise<void>;
+  truncateTable(handle: H, database: string, table: string): Promise<void>;
+
+  addColumn(handle: H, database: string, table: string, column: ColumnChange): Promise<void>;
+  modifyColumn(handle: H, database: string, table: string, oldName: string, column: ColumnChange): Promise<void>;
+  dropColumn(handle: H, database: string, table: string, columnName: string): Promise<void>;
+
+  addIndex(handle: H, database: string, table: string, index: IndexDefinition): Promise<void>;
+  dropIndex(handle: H, database: string, table: string, indexName: string): Promise<void>;
+  addForeignKey(handle: H, database: string, table: string, fk: ForeignKeyDefinition): Promise<void>;
+  dropForeignKey(handle: H, database: string, table: string, fkName: string): Promise<void>;
+  modifyPrimaryKey(handle: H, database: string, table: string, columns: string[]): Promise<void>;
+
+  insertRow(handle: H, database: string, table: string, data: Record<string, any>): Promise<void>;
+  updateRow(handle: H, database: string, table: string, key: RowKey, updates: Record<string, any>): Promise<void>;
+  deleteRow(handle: H, database: string, table: string, key: RowKey): Promise<void>;
+  deleteRows(handle: H, database: string, table: string, keys: RowKey[]): Promise<number>;
+  // 在一个事务中依次执行行修改，任一失败则整体回滚，错误的 changeIndex 为失败的修改下标
+  applyChanges(handle: H, database: string, table: string, changes: RowChange[]): Promise<number>;
+}
@@ -1,5 +1,9 @@
+import { EventEmitter } from 'events';
 import Redis from 'ioredis';
 import { v4 as uuidv4 } from 'uuid';
+import type { ConnectionState, ConnectionStateEvent } from './databaseManager';
+import { SshConfig, SshTunnel, withTestTunnel } from './sshTunnel';
+import { SslConfig, buildTlsOptions, withSslFallback } from './tls';
 
 export interface RedisConfig {
   type: 'redis';
@@ -8,58 +12,122 @@ export interface RedisConfig {
   password?: string;
   database?: number;
   name?: string;
+  ssh?: SshConfig;
+  ssl?: SslConfig;
 }
 
 interface RedisConnection {
   id: string;
   config: RedisConfig;
   client: Redis | null;
+  tunnel?: SshTunnel;
 }
 
-export class RedisManager {
+// 断线后的最大重连次数，超过后客户端进入 end 状态（离线）
+const MAX_RETRIES = 10;
+
+/**
+ * 管理 Redis 连接。断线重连由 ioredis 完成，
+ * 状态变化通过 'state' 事件（ConnectionStateEvent）通知。
+ */
+export class RedisManager extends EventEmitter {
   private connections: Map<string, RedisConnection> = new Map();
 
-  async testConnection(config: RedisConfig): Promise<boolean> {
+  // 创建客户端并等待连接可用，失败时释放客户端
+  private async openClient(config: RedisConfig, host: string, port: number): Promise<Redis> {
     const client = new Redis({
-      host: config.host || 'localhost',
-      port: config.port || 6379,
+      host,
+      port,
       password: config.password || undefined,
       db: config.database || 0,
+      // 经隧道连接时证书仍按原主机名校验
+      tls: buildTlsOptions(config.ssl, config.host || 'localhost'),
       lazyConnect: true,
+      // TCP 保活，避免空闲连接被静默断开
+      keepAlive: 10000,
+      retryStrategy: times => (times > MAX_RETRIES ? null : Math.min(times * 500, 5000)),
+    });
+
+    try {
+      await client.connect();
+      await client.ping();
+    } catch (e) {
+      client.disconnect();
+      throw e;
+    }
+    return client;
+  }
+
+  async testConnection(config: RedisConfig): Promise<boolean> {
+    await withTestTunnel(config.ssh, config.host || 'localhost', config.port || 6379, async (host, port) => {
+      const client = await withSslFallback(config, c => this.openClient(c, host, port));
+      await client.quit();
     });
-    
-    await client.connect();
-    await client.ping();
-    await client.quit();
     return true;
   }
 
   async connect(config: RedisConfig): Promise<string> {
     const connectionId = uuidv4();
-    
-    const client = new Redis({
-      host: config.host || 'localhost',
-      port: config.port || 6379,
-      password: config.password || undefined,
-      db: config.database || 0,
-    });
+    let host = config.host || 'localhost';
+    let port = config.port || 6379;
+    let tunnel: SshTunnel | undefined;
+
+    // 通过 SSH 隧道连接时，客户端连接本地转发端口
+    if (config.ssh?.enabled) {
+      tunnel = await SshTunnel.open(config.ssh, host, port);
+      host = '127.0.0.1';
+      port = tunnel.localPort;
+    }
 
-    await client.ping();
+    let client: Redis;
+    try {
+      client = await withSslFallback(config, c => this.openClient(c, host, port));
+    } catch (e) {
+      tunnel?.close();
+      throw e;
+    }
 
     this.connections.set(connectionId, {
       id: connectionId,
       config,
       client,
+      tunnel,
     });
+    this.watch(connectionId, client);
+    this.setState(connectionId, 'connected');
 
     return connectionId;
   }
 
+  // 将 ioredis 的连接事件转换为连接状态
+  private watch(connectionId: string, client: Redis): void {
+    client.on('reconnecting', () => this.setState(connectionId, 'reconnecting'));
+    client.on('ready', () => this.setState(connectionId, 'connected'));
+    client.on('end', () => this.setState(connectionId, 'offline'));
+    // 错误由上面的状态事件体现，监听以免未处理的 error 事件
+    client.on('error', (e: Error) => console.warn(`Redis connection ${connectionId}:`, e.message));
+  }
+
+  private setState(connectionId: string, state: ConnectionState): void {
+    // 主动断开的连接不再通知
+    if (!this.connections.has(connectionId)) return;
+    const event: ConnectionStateEvent = { connectionId, state };
+    this.emit('state', event);
+  }
+
   async disconnect(connectionId: string): Promise<void> {
     const conn = this.connections.get(connectionId);
     if (conn && conn.client) {
-      await conn.client.quit();
       this.connections.delete(connectionId);
+      try {
+        if (conn.client.status === 'end') {
+          conn.client.disconnect();
+        } else {
+          await conn.client.quit();
+        }
+      } finally {
+        conn.tunnel?.close();
+      }
     }
   }
 
@@ -68,6 +136,10 @@ export class RedisManager {
     if (!conn || !conn.client) {
       throw new Error('Redis connection not found or closed');
     }
+    // 重连次数用尽后离线，再次使用时重新连接，期间的命令进入离线队列
+    if (conn.client.status === 'end') {
+      conn.client.connect().catch(() => undefined);
+    }
     return conn.client;
   }
 
@@ -0,0 +1,77 @@
+import type { DatabaseManager } from './databaseManager';
+
+// 自动补全用的列信息
+export interface ColumnInfo {
+  name: string;
+  type: string;
+}
+
+// 一个连接缓存的结构信息，值为加载中的 Promise，并发请求共用一次加载
+interface ConnectionSchema {
+  databases?: Promise<string[]>;
+  tables: Map<string, Promise<string[]>>;
+  // 键为 database + '\0' + table
+  columns: Map<string, Promise<ColumnInfo[]>>;
+}
+
+/**
+ * 按连接缓存数据库、表和列，供编辑器自动补全使用。
+ * 表和列在首次用到时加载；执行 DDL 或断开连接后整个连接的缓存失效。
+ */
+export class SchemaCache {
+  private schemas: Map<string, ConnectionSchema> = new Map();
+
+  constructor(private readonly dbManager: DatabaseManager) {}
+
+  getDatabases(connectionId: string): Promise<string[]> {
+    const schema = this.schemaOf(connectionId);
+    if (!schema.databases) {
+      schema.databases = this.load(() => this.dbManager.getDatabases(connectionId), () => {
+        schema.databases = undefined;
+      });
+    }
+    return schema.databases;
+  }
+
+  getTables(connectionId: string, database: string): Promise<string[]> {
+    const { tables } = this.schemaOf(connectionId);
+    return this.cached(tables, database, () => this.dbManager.getTables(connectionId, database));
+  }
+
+  getColumns(connectionId: string, database: string, table: string): Promise<ColumnInfo[]> {
+    const { columns } = this.schemaOf(connectionId);
+    return this.cached(columns, `${database}\0${table}`, async () => {
+      const rows = await this.dbManager.getTableColumns(connectionId, database, table);
+      return rows.map(row => ({ name: row.Field, type: row.Type }));
+    });
+  }
+
+  invalidate(connectionId: string): void {
+    this.schemas.delete(connectionId);
+  }
+
+  private schemaOf(connectionId: string): ConnectionSchema {
+    let schema = this.schemas.get(connectionId);
+    if (!schema) {
+      schema = { tables: new Map(), columns: new Map() };
+      this.schemas.set(connectionId, schema);
+    }
+    return schema;
+  }
+
+  private cached<T>(cache: Map<string, Promise<T>>, key: string, fetch: () => Promise<T>): Promise<T> {
+    let value = cache.get(key);
+    if (!value) {
+      value = this.load(fetch, () => cache.delete(key));
+      cache.set(key, value);
+    }
+    return value;
+  }
+
+  // 加载失败时不缓存，下次重新加载
+  private load<T>(fetch: () => Promise<T>, discard: () => void): Promise<T> {
+    const value = fetch();
+    value.catch(discard);
+    return value;
+  }
+}
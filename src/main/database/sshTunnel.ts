@@ -0,0 +1,118 @@
+import * as fs from 'fs';
+import * as net from 'net';
+import { Client, ConnectConfig } from 'ssh2';
+
+export interface SshConfig {
+  enabled: boolean;
+  host: string;
+  port?: number;
+  user: string;
+  authMethod: 'password' | 'privateKey';
+  password?: string;
+  privateKeyPath?: string;
+  passphrase?: string;
+}
+
+/**
+ * 通过跳板机转发端口：在本地 127.0.0.1 上监听一个随机端口，
+ * 每个进入的连接经 SSH forwardOut 转发到目标主机端口。
+ */
+export class SshTunnel {
+  private constructor(
+    private client: Client,
+    private server: net.Server,
+    readonly localPort: number
+  ) {}
+
+  static async open(ssh: SshConfig, targetHost: string, targetPort: number): Promise<SshTunnel> {
+    let client: Client;
+    try {
+      client = await connectSsh(ssh);
+    } catch (e: any) {
+      throw new Error(`SSH connection failed: ${e.message}`);
+    }
+
+    const server = net.createServer(socket => {
+      client.forwardOut(
+        socket.remoteAddress || '127.0.0.1',
+        socket.remotePort || 0,
+        targetHost,
+        targetPort,
+        (err, stream) => {
+          if (err) {
+            socket.destroy(err);
+            return;
+          }
+          socket.pipe(stream).pipe(socket);
+          stream.on('error', () => socket.destroy());
+          socket.on('error', () => stream.destroy());
+        }
+      );
+    });
+
+    try {
+      await new Promise<void>((resolve, reject) => {
+        server.once('error', reject);
+        server.listen(0, '127.0.0.1', () => resolve());
+      });
+    } catch (e: any) {
+      client.end();
+      throw new Error(`SSH tunnel failed: ${e.message}`);
+    }
+
+    const { port } = server.address() as net.AddressInfo;
+    return new SshTunnel(client, server, port);
+  }
+
+  close(): void {
+    this.server.close();
+    this.client.end();
+  }
+}
+
+function connectSsh(ssh: SshConfig): Promise<Client> {
+  const options: ConnectConfig = {
+    host: ssh.host,
+    port: ssh.port || 22,
+    username: ssh.user,
+    readyTimeout: 15000,
+  };
+  if (ssh.authMethod === 'privateKey') {
+    if (!ssh.privateKeyPath) {
+      return Promise.reject(new Error('Private key file is required'));
+    }
+    options.privateKey = fs.readFileSync(ssh.privateKeyPath);
+    options.passphrase = ssh.passphrase || undefined;
+  } else {
+    options.password = ssh.password;
+  }
+
+  return new Promise((resolve, reject) => {
+    const client = new Client();
+    client
+      .once('ready', () => resolve(client))
+      // 保持监听，连接建立后的错误（如跳板机断开）不应导致主进程崩溃
+      .on('error', reject)
+      .connect(options);
+  });
+}
+
+// 测试连接时区分是 SSH 还是数据库这一跳失败
+export async function withTestTunnel<T>(
+  ssh: SshConfig | undefined,
+  targetHost: string,
+  targetPort: number,
+  test: (host: string, port: number) => Promise<T>
+): Promise<T> {
+  if (!ssh?.enabled) {
+    return test(targetHost, targetPort);
+  }
+  const tunnel = await SshTunnel.open(ssh, targetHost, targetPort);
+  try {
+    return await test('127.0.0.1', tunnel.localPort);
+  } catch (e: any) {
+    throw new Error(`SSH connected, but database connection failed: ${e.message}`);
+  } finally {
+    tunnel.close();
+  }
+}
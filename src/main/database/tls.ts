@@ -0,0 +1,68 @@
+import * as fs from 'fs';
+import * as net from 'net';
+import * as tls from 'tls';
+
+export type SslMode = 'disabled' | 'preferred' | 'required' | 'verify-ca' | 'verify-full';
+
+export interface SslConfig {
+  mode: SslMode;
+  caPath?: string;
+  certPath?: string;
+  keyPath?: string;
+  // SNI 以及 verify-full 校验证书时使用的主机名，默认为连接的主机
+  serverName?: string;
+}
+
+const readFile = (filePath: string | undefined, label: string) => {
+  if (!filePath) return undefined;
+  try {
+    return fs.readFileSync(filePath);
+  } catch (e: any) {
+    throw new Error(`Cannot read ${label} file: ${e.message}`);
+  }
+};
+
+/**
+ * 根据 SSL 模式生成 tls.connect 选项，disabled 时返回 undefined。
+ * preferred / required 只加密不校验证书，verify-ca 校验证书链，verify-full 额外校验主机名。
+ */
+export function buildTlsOptions(ssl: SslConfig | undefined, host: string): tls.ConnectionOptions | undefined {
+  if (!ssl || ssl.mode === 'disabled') return undefined;
+
+  const identity = ssl.serverName || host;
+  return {
+    ca: readFile(ssl.caPath, 'CA certificate'),
+    cert: readFile(ssl.certPath, 'client certificate'),
+    key: readFile(ssl.keyPath, 'client key'),
+    // SNI 不能是 IP 地址
+    servername: net.isIP(identity) ? undefined : identity,
+    rejectUnauthorized: ssl.mode === 'verify-ca' || ssl.mode === 'verify-full',
+    checkServerIdentity: ssl.mode === 'verify-full'
+      ? (_host, cert) => tls.checkServerIdentity(identity, cert)
+      : () => undefined,
+  };
+}
+
+// 服务器不支持 SSL：MySQL 握手时声明不支持，PostgreSQL 拒绝 SSLRequest；
+// Redis 没有协商过程，明文服务器对 TLS 握手的回应表现为 TLS 版本错误
+const isSslUnsupported = (error: any): boolean =>
+  error?.code === 'HANDSHAKE_NO_SSL_SUPPORT' ||
+  error?.code === 'ERR_SSL_WRONG_VERSION_NUMBER' ||
+  error?.message === 'The server does not support SSL connections';
+
+// preferred 模式先尝试加密连接，服务器不支持 SSL 时退回明文连接；
+// 认证、证书等其他错误直接抛出，不隐藏真实原因，也不再以明文发送一次密码
+export async function withSslFallback<C extends { ssl?: SslConfig }, T>(
+  config: C,
+  attempt: (config: C) => Promise<T>
+): Promise<T> {
+  if (config.ssl?.mode !== 'preferred') {
+    return attempt(config);
+  }
+  try {
+    return await attempt(config);
+  } catch (e) {
+    if (!isSslUnsupported(e)) throw e;
+    return attempt({ ...config, ssl: { ...config.ssl, mode: 'disabled' } });
+  }
+}
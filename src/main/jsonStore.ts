@@ -0,0 +1,65 @@
+import { app } from 'electron';
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * userData 目录下的 JSON 文件，首次访问时读取并缓存在内存中。
+ * 修改在内存中立即生效，落盘按调用顺序排队，避免并发写入时互相覆盖。
+ */
+export class JsonStore<T> {
+  private data: T | null = null;
+  private loading: Promise<void> | null = null;
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly fileName: string,
+    private readonly createDefault: () => T,
+    // 读取失败时错误信息中的名称
+    private readonly label: string
+  ) {}
+
+  private get filePath(): string {
+    return path.join(app.getPath('userData'), this.fileName);
+  }
+
+  // 并发调用共用同一次读取，避免读取完成时覆盖已有的修改
+  async get(): Promise<T> {
+    if (!this.loading) {
+      this.loading = this.read().then(data => {
+        this.data = data;
+      });
+      this.loading.catch(() => {
+        this.loading = null;
+      });
+    }
+    await this.loading;
+    return this.data!;
+  }
+
+  async update(change: (data: T) => T): Promise<void> {
+    // 等待读取后再取当前数据，保证基于其他调用已做的修改
+    await this.get();
+    this.data = change(this.data!);
+    const tmpPath = `${this.filePath}.tmp`;
+    // 先写临时文件再重命名，避免写入中断导致文件损坏
+    const task = this.writing.catch(() => undefined).then(async () => {
+      await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+      await fs.promises.writeFile(tmpPath, JSON.stringify(this.data), { encoding: 'utf-8', mode: 0o600 });
+      await fs.promises.rename(tmpPath, this.filePath);
+    });
+    this.writing = task;
+    await task;
+  }
+
+  private async read(): Promise<T> {
+    try {
+      const content = await fs.promises.readFile(this.filePath, 'utf-8');
+      return JSON.parse(content) as T;
+    } catch (e: any) {
+      if (e.code !== 'ENOENT') {
+        throw new Error(`Cannot read ${this.label}: ${e.message}`);
+      }
+      return this.createDefault();
+    }
+  }
+}
@@ -1,7 +1,12 @@
-import { app, BrowserWindow, ipcMain, Menu } from 'electron';
+import { app, BrowserWindow, dialog, ipcMain, Menu } from 'electron';
 import * as path from 'path';
-import { DatabaseManager } from './database/databaseManager';
+import { ConnectionStateEvent, DatabaseManager } from './database/databaseManager';
+import type { QueryResult } from './database/drivers/types';
 import { RedisManager } from './database/redisManager';
+import { SchemaCache } from './database/schemaCache';
+import { ProfileStore } from './profileStore';
+import { QueryHistory } from './queryHistory';
+import { SnippetStore } from './snippetStore';
 
 // 禁用 GPU 加速以避免虚拟机/某些系统上的兼容性问题
 app.disableHardwareAcceleration();
@@ -13,7 +18,20 @@ app.commandLine.appendSwitch('no-sandbox');
 
 let mainWindow: BrowserWindow | null = null;
 const dbManager = new DatabaseManager();
+const schemaCache = new SchemaCache(dbManager);
 const redisManager = new RedisManager();
+const profileStore = new ProfileStore();
+const queryHistory = new QueryHistory();
+const snippetStore = new SnippetStore();
+
+// 连接状态变化（断线重连等）推送给渲染进程
+const sendConnectionState = (event: ConnectionStateEvent) => {
+  mainWindow?.webContents.send('connection:state', event);
+};
+dbManager.on('state', sendConnectionState);
+redisManager.on('state', sendConnectionState);
+// 表结构变化后自动补全重新加载表和列
+dbManager.on('schema', (connectionId: string) => schemaCache.invalidate(connectionId));
 
 function createWindow() {
   const isDev = process.env.NODE_ENV === 'development' || !app.isPackaged;
@@ -49,6 +67,33 @@ function createWindow() {
     mainWindow.loadFile(path.join(__dirname, 'renderer/index.html'));
   }
 
+  // 有未提交的手动事务时确认后先回滚再关闭窗口（macOS 关闭窗口不退出应用，连接不会随之断开）
+  let rollingBack = false;
+  mainWindow.on('close', event => {
+    if (rollingBack) {
+      event.preventDefault();
+      return;
+    }
+    const count = dbManager.countTransactions();
+    if (count === 0) return;
+    event.preventDefault();
+    const window = mainWindow!;
+    const choice = dialog.showMessageBoxSync(window, {
+      type: 'warning',
+      buttons: ['取消', '回滚并退出'],
+      defaultId: 0,
+      cancelId: 0,
+      message: `有 ${count} 个事务尚未提交`,
+      detail: '退出后这些事务中的修改将被回滚。',
+    });
+    if (choice === 0) return;
+    rollingBack = true;
+    dbManager.rollbackAllTransactions().finally(() => {
+      rollingBack = false;
+      window.close();
+    });
+  });
+
   mainWindow.on('closed', () => {
     mainWindow = null;
   });
@@ -113,6 +158,96 @@ app.on('window-all-closed', () => {
   }
 });
 
+// SQLite 数据库文件选择（打开已有文件或新建文件）
+ipcMain.handle('dialog:select-sqlite-file', async (event, mode: 'open' | 'create') => {
+  try {
+    const window = BrowserWindow.fromWebContents(event.sender)!;
+    const filters = [
+      { name: 'SQLite Database', extensions: ['db', 'sqlite', 'sqlite3', 'db3'] },
+      { name: 'All Files', extensions: ['*'] },
+    ];
+    if (mode === 'create') {
+      const result = await dialog.showSaveDialog(window, {
+        title: '新建 SQLite 数据库',
+        defaultPath: 'database.db',
+        filters,
+      });
+      return { success: true, data: result.canceled ? null : result.filePath };
+    }
+    const result = await dialog.showOpenDialog(window, {
+      title: '打开 SQLite 数据库',
+      properties: ['openFile'],
+      filters,
+    });
+    return { success: true, data: result.canceled ? null : result.filePaths[0] };
+  } catch (error: any) {
+    return { success: false, error: error.message };
+  }
+});
+
+// 选择本地文件（SSH 私钥等）
+ipcMain.handle('dialog:select-file', async (event, title: string) => {
+  try {
+    const window = BrowserWindow.fromWebContents(event.sender)!;
+    const result = await dialog.showOpenDialog(window, {
+      title,
+      properties: ['openFile', 'showHiddenFiles'],
+    });
+    return { success: true, data: result.canceled ? null : result.filePaths[0] };
+  } catch (error: any) {
+    return { success: false, error: error.message };
+  }
+});
+
+// 连接配置（密码加密保存在主进程）
+ipcMain.handle('profiles:list', async () => {
+  try {
+    const profiles = await profileStore.list();
+    return { success: true, data: profiles };
+  } catch (error: any) {
+    return { success: false, error: error.message };
+  }
+});
+
+ipcMain.handle('profiles:can-encrypt', async () => {
+  try {
+    return { success: true, data: profileStore.canEncrypt() };
+  } catch (error: any) {
+    return { success: false, error: error.message };
+  }
+});
+
+ipcMain.handle('profiles:save', async (_event, profile, replaceId) => {
+  try {
+    await profileStore.save(profile, replaceId);
+    if (replaceId && replaceId !== profile.id) {
+      await queryHistory.renameConnection(replaceId, profile.id, profile.name);
+      await snippetStore.renameConnection(replaceId, profile.id);
+    }
+    return { success: true };
+  } catch (error: any) {
+    return { success: false, error: error.message };
+  }
+});
+
+ipcMain.handle('profiles:delete', async (_event, id) => {
+  try {
+    await profileStore.delete(id);
+    return { success: true };
+  } catch (error: any) {
+    return { success: false, error: error.message };
+  }
+});
+
+ipcMain.handle('profiles:migrate', async (_event, legacyProfiles) => {
+  try {
+    const profiles = await profileStore.migrate(legacyProfiles);
+    return { success: true, data: profiles };
+  } catch (error: any) {
+    return { success: false, error: error.message };
+  }
+});
+
 // IPC Handlers for database operations
 ipcMain.handle('db:test-connection', async (_event, config) => {
   try {
@@ -135,12 +270,22 @@ ipcMain.handle('db:connect', async (_event, config) => {
 ipcMain.handle('db:disconnect', async (_event, connectionId) => {
   try {
     await dbManager.disconnect(connectionId);
+    schemaCache.invalidate(connectionId);
     return { success: true };
   } catch (error: any) {
     return { success: false, error: error.message };
   }
 });
 
+ipcMain.handle('db:get-dialect', async (_event, connectionId) => {
+  try {
+    const dialect = dbManager.getDialect(connectionId);
+    return { success: true, data: dialect };
+  } catch (error: any) {
+    return { success: false, error: error.message };
+  }
+});
+
 ipcMain.handle('db:get-databases', async (_event, connectionId) => {
   try {
     const databases = await dbManager.getDatabases(connectionId);
@@ -150,6 +295,15 @@ ipcMain.handle('db:get-databases', async (_event, connectionId) => {
   }
 });
 
+ipcMain.handle('db:get-schemas', async (_event, connectionId, database) => {
+  try {
+    const schemas = await dbManager.getSchemas(connectionId, database);
+    return { success: true, data: schemas };
+  } catch (error: any) {
+    return { success: false, error: error.message };
+  }
+});
+
 ipcMain.handle('db:get-tables', async (_event, connectionId, database) => {
   try {
     const tables = await dbManager.getTables(connectionId, database);
@@ -159,6 +313,34 @@ ipcMain.handle('db:get-tables', async (_event, connectionId, database) => {
   }
 });
 
+// 自动补全使用缓存的数据库、表和列
+ipcMain.handle('completion:databases', async (_event, connectionId) => {
+  try {
+    const databases = await schemaCache.getDatabases(connectionId);
+    return { success: true, data: databases };
+  } catch (error: any) {
+    return { success: false, error: error.message };
+  }
+});
+
+ipcMain.handle('completion:tables', async (_event, connectionId, database) => {
+  try {
+    const tables = await schemaCache.getTables(connectionId, database);
+    return { success: true, data: tables };
+  } catch (error: any) {
+    return { success: false, error: error.message };
+  }
+});
+
+ipcMain.handle('completion:columns', async (_event, connectionId, database, table) => {
+  try {
+    const columns = await schemaCache.getColumns(connectionId, database, table);
+    return { success: true, data: columns };
+  } catch (error: any) {
+    return { success: false, error: error.message };
+  }
+});
+
 ipcMain.handle('db:get-table-structure', async (_event, connectionId, database, table) => {
   try {
     const structure = await dbManager.getTableStructure(connectionId, database, table);
@@ -168,18 +350,228 @@ ipcMain.handle('db:get-table-structure', async (_event, connectionId, database,
   }
 });
 
-ipcMain.handle('db:execute-query', async (_event, connectionId, database, query) => {
+// 记录编辑器执行的语句，写入失败不影响查询结果
+const recordHistory = (connectionId: string, database: string, sql: string, startTime: number, result: { rowCount?: number; error?: string }) => {
+  let connectionName = connectionId;
   try {
-    const result = await dbManager.executeQuery(connectionId, database, query);
+    connectionName = dbManager.getConnectionName(connectionId);
+  } catch {
+    // 连接已关闭，使用连接 ID
+  }
+  queryHistory.add({
+    connectionId,
+    connectionName,
+    database,
+    sql,
+    executedAt: startTime,
+    duration: Date.now() - startTime,
+    rowCount: result.rowCount,
+    success: result.error === undefined,
+    error: result.error,
+  }).catch(e => console.error('Failed to save query history:', e.message));
+};
+
+// 执行编辑器查询并记录到历史
+const executeAndRecord = async (
+  connectionId: string,
+  database: string,
+  query: string,
+  execute: () => Promise<QueryResult>
+) => {
+  const startTime = Date.now();
+  try {
+    const result = await execute();
+    recordHistory(connectionId, database, query, startTime, {
+      rowCount: result.columns.length > 0 ? result.rows.length : result.affectedRows,
+    });
     return { success: true, data: result };
+  } catch (error: any) {
+    recordHistory(connectionId, database, query, startTime, { error: error.message });
+    // details 中为错误码和出错位置，编辑器据此标出出错的位置
+    return { success: false, error: error.message, details: dbManager.describeQueryError(connectionId, query, error) };
+  }
+};
+
+ipcMain.handle('db:execute-query', (_event, connectionId, database, query, sessionId) =>
+  executeAndRecord(connectionId, database, query, () => dbManager.executeQuery(connectionId, database, query, sessionId))
+);
+
+// 带参数的查询，query 中为驱动的位置占位符，params 为带类型的参数值
+ipcMain.handle('db:execute-parameterized', (_event, connectionId, database, query, params, sessionId) =>
+  executeAndRecord(connectionId, database, query, () =>
+    dbManager.executeParameterized(connectionId, database, query, params, sessionId)
+  )
+);
+
+// 执行计划，不记录到查询历史
+ipcMain.handle('db:explain-query', async (_event, connectionId, database, query, params, sessionId) => {
+  try {
+    const explain = await dbManager.explainQuery(connectionId, database, query, params, sessionId);
+    return { success: true, data: explain };
+  } catch (error: any) {
+    return { success: false, error: error.message };
+  }
+});
+
+// 查询片段库
+ipcMain.handle('snippets:list', async () => {
+  try {
+    const snippets = await snippetStore.list();
+    return { success: true, data: snippets };
+  } catch (error: any) {
+    return { success: false, error: error.message };
+  }
+});
+
+ipcMain.handle('snippets:save', async (_event, snippet) => {
+  try {
+    const saved = await snippetStore.save(snippet);
+    return { success: true, data: saved };
+  } catch (error: any) {
+    return { success: false, error: error.message };
+  }
+});
+
+ipcMain.handle('snippets:delete', async (_event, id) => {
+  try {
+    await snippetStore.delete(id);
+    return { success: true };
+  } catch (error: any) {
+    return { success: false, error: error.message };
+  }
+});
+
+const SNIPPET_FILE_FILTERS = [
+  { name: 'JSON', extensions: ['json'] },
+  { name: 'All Files', extensions: ['*'] },
+];
+
+// 导出或导入时返回处理的片段数，用户取消时返回 null
+ipcMain.handle('snippets:export', async (event) => {
+  try {
+    const window = BrowserWindow.fromWebContents(event.sender)!;
+    const result = await dialog.showSaveDialog(window, {
+      title: '导出查询片段',
+      defaultPath: 'snippets.json',
+      filters: SNIPPET_FILE_FILTERS,
+    });
+    if (result.canceled || !result.filePath) return { success: true, data: null };
+    const profiles = await profileStore.list();
+    const count = await snippetStore.exportTo(result.filePath, new Map(profiles.map(p => [p.id, p.name])));
+    return { success: true, data: count };
   } catch (error: any) {
     return { success: false, error: error.message };
   }
 });
 
-ipcMain.handle('db:get-table-data', async (_event, connectionId, database, table) => {
+ipcMain.handle('snippets:import', async (event) => {
   try {
-    const data = await dbManager.getTableData(connectionId, database, table);
+    const window = BrowserWindow.fromWebContents(event.sender)!;
+    const result = await dialog.showOpenDialog(window, {
+      title: '导入查询片段',
+      properties: ['openFile'],
+      filters: SNIPPET_FILE_FILTERS,
+    });
+    if (result.canceled || result.filePaths.length === 0) return { success: true, data: null };
+    const profiles = await profileStore.list();
+    const count = await snippetStore.importFrom(result.filePaths[0], new Map(profiles.map(p => [p.name, p.id])));
+    return { success: true, data: count };
+  } catch (error: any) {
+    return { success: false, error: error.message };
+  }
+});
+
+ipcMain.handle('history:list', async (_event, filter) => {
+  try {
+    const entries = await queryHistory.list(filter);
+    return { success: true, data: entries };
+  } catch (error: any) {
+    return { success: false, error: error.message };
+  }
+});
+
+ipcMain.handle('history:connections', async () => {
+  try {
+    const connections = await queryHistory.connections();
+    return { success: true, data: connections };
+  } catch (error: any) {
+    return { success: false, error: error.message };
+  }
+});
+
+ipcMain.handle('history:clear', async (_event, connectionId) => {
+  try {
+    await queryHistory.clear(connectionId);
+    return { success: true };
+  } catch (error: any) {
+    return { success: false, error: error.message };
+  }
+});
+
+ipcMain.handle('db:cancel-query', async (_event, connectionId, sessionId) => {
+  try {
+    const cancelled = await dbManager.cancelQuery(connectionId, sessionId);
+    return { success: true, data: cancelled };
+  } catch (error: any) {
+    return { success: false, error: error.message };
+  }
+});
+
+ipcMain.handle('db:close-session', async (_event, connectionId, sessionId) => {
+  try {
+    await dbManager.closeSession(connectionId, sessionId);
+    return { success: true };
+  } catch (error: any) {
+    return { success: false, error: error.message };
+  }
+});
+
+ipcMain.handle('db:begin-transaction', async (_event, connectionId, database, sessionId) => {
+  try {
+    const transaction = await dbManager.beginTransaction(connectionId, database, sessionId);
+    return { success: true, data: transaction };
+  } catch (error: any) {
+    return { success: false, error: error.message };
+  }
+});
+
+ipcMain.handle('db:commit-transaction', async (_event, connectionId, sessionId) => {
+  try {
+    await dbManager.commitTransaction(connectionId, sessionId);
+    return { success: true };
+  } catch (error: any) {
+    return { success: false, error: error.message };
+  }
+});
+
+ipcMain.handle('db:rollback-transaction', async (_event, connectionId, sessionId) => {
+  try {
+    await dbManager.rollbackTransaction(connectionId, sessionId);
+    return { success: true };
+  } catch (error: any) {
+    return { success: false, error: error.message };
+  }
+});
+
+ipcMain.handle('db:get-transaction', async (_event, connectionId, sessionId) => {
+  try {
+    return { success: true, data: dbManager.getTransaction(connectionId, sessionId) };
+  } catch (error: any) {
+    return { success: false, error: error.message };
+  }
+});
+
+ipcMain.handle('db:count-transactions', async (_event, connectionId) => {
+  try {
+    return { success: true, data: dbManager.countTransactions(connectionId) };
+  } catch (error: any) {
+    return { success: false, error: error.message };
+  }
+});
+
+ipcMain.handle('db:get-table-data', async (_event, connectionId, database, table, options) => {
+  try {
+    const data = await dbManager.getTableData(connectionId, database, table, options);
     return { success: true, data };
   } catch (error: any) {
     return { success: false, error: error.message };
@@ -205,6 +597,15 @@ ipcMain.handle('db:drop-table', async (_event, connectionId, database, table) =>
   }
 });
 
+ipcMain.handle('db:rename-table', async (_event, connectionId, database, table, newName) => {
+  try {
+    await dbManager.renameTable(connectionId, database, table, newName);
+    return { success: true };
+  } catch (error: any) {
+    return { success: false, error: error.message };
+  }
+});
+
 ipcMain.handle('db:get-table-columns', async (_event, connectionId, database, table) => {
   try {
     const columns = await dbManager.getTableColumns(connectionId, database, table);
@@ -214,18 +615,18 @@ ipcMain.handle('db:get-table-columns', async (_event, connectionId, database, ta
   }
 });
 
-ipcMain.handle('db:update-row', async (_event, connectionId, database, table, primaryKey, updates) => {
+ipcMain.handle('db:update-row', async (_event, connectionId, database, table, key, updates) => {
   try {
-    await dbManager.updateRow(connectionId, database, table, primaryKey, updates);
+    await dbManager.updateRow(connectionId, database, table, key, updates);
     return { success: true };
   } catch (error: any) {
     return { success: false, error: error.message };
   }
 });
 
-ipcMain.handle('db:delete-row', async (_event, connectionId, database, table, primaryKey) => {
+ipcMain.handle('db:delete-row', async (_event, connectionId, database, table, key) => {
   try {
-    await dbManager.deleteRow(connectionId, database, table, primaryKey);
+    await dbManager.deleteRow(connectionId, database, table, key);
     return { success: true };
   } catch (error: any) {
     return { success: false, error: error.message };
@@ -268,15 +669,25 @@ ipcMain.handle('db:insert-row', async (_event, connectionId, database, table, da
   }
 });
 
-ipcMain.handle('db:delete-rows', async (_event, connectionId, database, table, primaryKey) => {
+ipcMain.handle('db:delete-rows', async (_event, connectionId, database, table, keys) => {
   try {
-    const count = await dbManager.deleteRows(connectionId, database, table, primaryKey);
+    const count = await dbManager.deleteRows(connectionId, database, table, keys);
     return { success: true, data: count };
   } catch (error: any) {
     return { success: false, error: error.message };
   }
 });
 
+ipcMain.handle('db:apply-changes', async (_event, connectionId, database, table, changes) => {
+  try {
+    const count = await dbManager.applyChanges(connectionId, database, table, changes);
+    return { success: true, data: count };
+  } catch (error: any) {
+    // failedIndex 指出导致回滚的修改
+    return { success: false, error: error.message, failedIndex: error.changeIndex };
+  }
+});
+
 ipcMain.handle('db:truncate-table', async (_event, connectionId, database, table) => {
   try {
     await dbManager.truncateTable(connectionId, database, table);
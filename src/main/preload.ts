@@ -1,4 +1,4 @@
-import { contextBridge, ipcRenderer } from 'electron';
+import { contextBridge, ipcRenderer, IpcRendererEvent } from 'electron';
 
 export interface DatabaseConfig {
   type: 'mysql' | 'postgresql' | 'sqlite' | 'redis';
@@ -9,16 +9,163 @@ export interface DatabaseConfig {
   database?: string | number;
   filename?: string; // for SQLite
   name?: string; // connection name
+  ssh?: SshConfig;
+  ssl?: SslConfig;
+}
+
+export interface SshConfig {
+  enabled: boolean;
+  host: string;
+  port?: number;
+  user: string;
+  authMethod: 'password' | 'privateKey';
+  password?: string;
+  privateKeyPath?: string;
+  passphrase?: string;
+}
+
+export interface SslConfig {
+  mode: 'disabled' | 'preferred' | 'required' | 'verify-ca' | 'verify-full';
+  caPath?: string;
+  certPath?: string;
+  keyPath?: string;
+  serverName?: string;
+}
+
+export interface ConnectionProfile {
+  id: string;
+  name: string;
+  type: string;
+  config?: DatabaseConfig;
+}
+
+export interface ConnectionStateEvent {
+  connectionId: string;
+  state: 'connected' | 'reconnecting' | 'offline';
+  error?: string;
 }
 
 export interface QueryResult {
   columns: string[];
   rows: any[];
   affectedRows?: number;
+  changedRows?: number;
+  insertId?: number | string;
+  warningCount?: number;
+  warnings?: QueryWarning[];
   executionTime?: number;
 }
 
+export interface QueryWarning {
+  level: string;
+  code: number;
+  message: string;
+}
+
+export interface QueryParameter {
+  type: 'string' | 'number' | 'null' | 'date';
+  value?: string;
+}
+
+export interface TableFilter {
+  column: string;
+  operator: '=' | '!=' | '>' | '>=' | '<' | '<=' | 'LIKE' | 'NOT LIKE' | 'IN' | 'IS NULL' | 'IS NOT NULL';
+  value?: any;
+}
+
+export interface TableDataOptions {
+  offset?: number;
+  limit?: number;
+  orderBy?: { column: string; direction: 'ASC' | 'DESC' };
+  filters?: TableFilter[];
+}
+
+export interface RowKey {
+  values: Record<string, any>;
+  limitOne?: boolean;
+}
+
+export type RowChange =
+  | { type: 'insert'; data: Record<string, any> }
+  | { type: 'update'; key: RowKey; updates: Record<string, any> }
+  | { type: 'delete'; key: RowKey };
+
+export interface SnippetInput {
+  id?: string;
+  name: string;
+  folder: string;
+  description: string;
+  sql: string;
+  connectionId?: string;
+}
+
+export interface HistoryFilter {
+  search?: string;
+  connectionId?: string;
+  from?: number;
+  to?: number;
+  limit?: number;
+}
+
 contextBridge.exposeInMainWorld('electronAPI', {
+  // Dialogs
+  selectSqliteFile: (mode: 'open' | 'create') =>
+    ipcRenderer.invoke('dialog:select-sqlite-file', mode),
+
+  selectFile: (title: string) =>
+    ipcRenderer.invoke('dialog:select-file', title),
+
+  // Connection profiles
+  listProfiles: () =>
+    ipcRenderer.invoke('profiles:list'),
+
+  saveProfile: (profile: ConnectionProfile, replaceId?: string) =>
+    ipcRenderer.invoke('profiles:save', profile, replaceId),
+
+  deleteProfile: (id: string) =>
+    ipcRenderer.invoke('profiles:delete', id),
+
+  migrateProfiles: (legacyProfiles: ConnectionProfile[]) =>
+    ipcRenderer.invoke('profiles:migrate', legacyProfiles),
+
+  canEncryptProfiles: () =>
+    ipcRenderer.invoke('profiles:can-encrypt'),
+
+  // Query snippets
+  listSnippets: () =>
+    ipcRenderer.invoke('snippets:list'),
+
+  saveSnippet: (snippet: SnippetInput) =>
+    ipcRenderer.invoke('snippets:save', snippet),
+
+  deleteSnippet: (id: string) =>
+    ipcRenderer.invoke('snippets:delete', id),
+
+  exportSnippets: () =>
+    ipcRenderer.invoke('snippets:export'),
+
+  importSnippets: () =>
+    ipcRenderer.invoke('snippets:import'),
+
+  // Query history
+  listHistory: (filter?: HistoryFilter) =>
+    ipcRenderer.invoke('history:list', filter),
+
+  listHistoryConnections: () =>
+    ipcRenderer.invoke('history:connections'),
+
+  clearHistory: (connectionId?: string) =>
+    ipcRenderer.invoke('history:clear', connectionId),
+
+  // 连接状态变化，返回取消监听的函数
+  onConnectionState: (callback: (event: ConnectionStateEvent) => void) => {
+    const listener = (_event: IpcRendererEvent, data: ConnectionStateEvent) => callback(data);
+    ipcRenderer.on('connection:state', listener);
+    return () => {
+      ipcRenderer.removeListener('connection:state', listener);
+    };
+  },
+
   // Database operations
   testConnection: (config: DatabaseConfig) => 
     ipcRenderer.invoke('db:test-connection', config),
@@ -29,20 +176,64 @@ contextBridge.exposeInMainWorld('electronAPI', {
   disconnect: (connectionId: string) => 
     ipcRenderer.invoke('db:disconnect', connectionId),
   
+  getDialect: (connectionId: string) => 
+    ipcRenderer.invoke('db:get-dialect', connectionId),
+  
   getDatabases: (connectionId: string) => 
     ipcRenderer.invoke('db:get-databases', connectionId),
   
+  getSchemas: (connectionId: string, database: string) => 
+    ipcRenderer.invoke('db:get-schemas', connectionId, database),
+  
   getTables: (connectionId: string, database: string) => 
     ipcRenderer.invoke('db:get-tables', connectionId, database),
   
   getTableStructure: (connectionId: string, database: string, table: string) => 
     ipcRenderer.invoke('db:get-table-structure', connectionId, database, table),
+
+  // 自动补全（主进程缓存，DDL 后失效）
+  getCompletionDatabases: (connectionId: string) =>
+    ipcRenderer.invoke('completion:databases', connectionId),
+
+  getCompletionTables: (connectionId: string, database: string) =>
+    ipcRenderer.invoke('completion:tables', connectionId, database),
+
+  getCompletionColumns: (connectionId: string, database: string, table: string) =>
+    ipcRenderer.invoke('completion:columns', connectionId, database, table),
+  
+  executeQuery: (connectionId: string, database: string, query: string, sessionId?: string) => 
+    ipcRenderer.invoke('db:execute-query', connectionId, database, query, sessionId),
+
+  executeParameterized: (connectionId: string, database: string, query: string, params: QueryParameter[], sessionId?: string) =>
+    ipcRenderer.invoke('db:execute-parameterized', connectionId, database, query, params, sessionId),
+
+  explainQuery: (connectionId: string, database: string, query: string, params: QueryParameter[], sessionId?: string) =>
+    ipcRenderer.invoke('db:explain-query', connectionId, database, query, params, sessionId),
+  
+  cancelQuery: (connectionId: string, sessionId: string) => 
+    ipcRenderer.invoke('db:cancel-query', connectionId, sessionId),
   
-  executeQuery: (connectionId: string, database: string, query: string) => 
-    ipcRenderer.invoke('db:execute-query', connectionId, database, query),
+  closeSession: (connectionId: string, sessionId: string) => 
+    ipcRenderer.invoke('db:close-session', connectionId, sessionId),
+
+  // Manual transactions
+  beginTransaction: (connectionId: string, database: string, sessionId: string) =>
+    ipcRenderer.invoke('db:begin-transaction', connectionId, database, sessionId),
+
+  commitTransaction: (connectionId: string, sessionId: string) =>
+    ipcRenderer.invoke('db:commit-transaction', connectionId, sessionId),
+
+  rollbackTransaction: (connectionId: string, sessionId: string) =>
+    ipcRenderer.invoke('db:rollback-transaction', connectionId, sessionId),
+
+  getTransaction: (connectionId: string, sessionId: string) =>
+    ipcRenderer.invoke('db:get-transaction', connectionId, sessionId),
+
+  countTransactions: (connectionId?: string) =>
+    ipcRenderer.invoke('db:count-transactions', connectionId),
   
-  getTableData: (connectionId: string, database: string, table: string) => 
-    ipcRenderer.invoke('db:get-table-data', connectionId, database, table),
+  getTableData: (connectionId: string, database: string, table: string, options?: TableDataOptions) => 
+    ipcRenderer.invoke('db:get-table-data', connectionId, database, table, options),
 
   // Table management
   createTable: (connectionId: string, database: string, tableName: string, columns: any[], indexes?: any[]) =>
@@ -51,14 +242,17 @@ contextBridge.exposeInMainWorld('electronAPI', {
   dropTable: (connectionId: string, database: string, table: string) =>
     ipcRenderer.invoke('db:drop-table', connectionId, database, table),
   
+  renameTable: (connectionId: string, database: string, table: string, newName: string) =>
+    ipcRenderer.invoke('db:rename-table', connectionId, database, table, newName),
+  
   getTableColumns: (connectionId: string, database: string, table: string) =>
     ipcRenderer.invoke('db:get-table-columns', connectionId, database, table),
   
-  updateRow: (connectionId: string, database: string, table: string, primaryKey: any, updates: any) =>
-    ipcRenderer.invoke('db:update-row', connectionId, database, table, primaryKey, updates),
+  updateRow: (connectionId: string, database: string, table: string, key: RowKey, updates: any) =>
+    ipcRenderer.invoke('db:update-row', connectionId, database, table, key, updates),
   
-  deleteRow: (connectionId: string, database: string, table: string, primaryKey: any) =>
-    ipcRenderer.invoke('db:delete-row', connectionId, database, table, primaryKey),
+  deleteRow: (connectionId: string, database: string, table: string, key: RowKey) =>
+    ipcRenderer.invoke('db:delete-row', connectionId, database, table, key),
   
   addColumn: (connectionId: string, database: string, table: string, column: any) =>
     ipcRenderer.invoke('db:add-column', connectionId, database, table, column),
@@ -72,8 +266,11 @@ contextBridge.exposeInMainWorld('electronAPI', {
   insertRow: (connectionId: string, database: string, table: string, data: any) =>
     ipcRenderer.invoke('db:insert-row', connectionId, database, table, data),
   
-  deleteRows: (connectionId: string, database: string, table: string, primaryKey: any) =>
-    ipcRenderer.invoke('db:delete-rows', connectionId, database, table, primaryKey),
+  deleteRows: (connectionId: string, database: string, table: string, keys: RowKey[]) =>
+    ipcRenderer.invoke('db:delete-rows', connectionId, database, table, keys),
+  
+  applyChanges: (connectionId: string, database: string, table: string, changes: RowChange[]) =>
+    ipcRenderer.invoke('db:apply-changes', connectionId, database, table, changes),
   
   truncateTable: (connectionId: string, database: string, table: string) =>
     ipcRenderer.invoke('db:truncate-table', connectionId, database, table),
@@ -143,25 +340,60 @@ contextBridge.exposeInMainWorld('electronAPI', {
 declare global {
   interface Window {
     electronAPI: {
+      selectSqliteFile: (mode: 'open' | 'create') => Promise<any>;
+      selectFile: (title: string) => Promise<any>;
+      listProfiles: () => Promise<any>;
+      saveProfile: (profile: ConnectionProfile, replaceId?: string) => Promise<any>;
+      deleteProfile: (id: string) => Promise<any>;
+      migrateProfiles: (legacyProfiles: ConnectionProfile[]) => Promise<any>;
+      canEncryptProfiles: () => Promise<any>;
+      // Query snippets
+      listSnippets: () => Promise<any>;
+      saveSnippet: (snippet: SnippetInput) => Promise<any>;
+      deleteSnippet: (id: string) => Promise<any>;
+      exportSnippets: () => Promise<any>;
+      importSnippets: () => Promise<any>;
+      // Query history
+      listHistory: (filter?: HistoryFilter) => Promise<any>;
+      listHistoryConnections: () => Promise<any>;
+      clearHistory: (connectionId?: string) => Promise<any>;
+      onConnectionState: (callback: (event: ConnectionStateEvent) => void) => () => void;
       testConnection: (config: DatabaseConfig) => Promise<any>;
       connect: (config: DatabaseConfig) => Promise<any>;
       disconnect: (connectionId: string) => Promise<any>;
+      getDialect: (connectionId: string) => Promise<any>;
       getDatabases: (connectionId: string) => Promise<any>;
+      getSchemas: (connectionId: string, database: string) => Promise<any>;
       getTables: (connectionId: string, database: string) => Promise<any>;
       getTableStructure: (connectionId: string, database: string, table: string) => Promise<any>;
-      executeQuery: (connectionId: string, database: string, query: string) => Promise<any>;
-      getTableData: (connectionId: string, database: string, table: string) => Promise<any>;
+      getCompletionDatabases: (connectionId: string) => Promise<any>;
+      getCompletionTables: (connectionId: string, database: string) => Promise<any>;
+      getCompletionColumns: (connectionId: string, database: string, table: string) => Promise<any>;
+      executeQuery: (connectionId: string, database: string, query: string, sessionId?: string) => Promise<any>;
+      executeParameterized: (connectionId: string, database: string, query: string, params: QueryParameter[], sessionId?: string) => Promise<any>;
+      explainQuery: (connectionId: string, database: string, query: string, params: QueryParameter[], sessionId?: string) => Promise<any>;
+      cancelQuery: (connectionId: string, sessionId: string) => Promise<any>;
+      closeSession: (connectionId: string, sessionId: string) => Promise<any>;
+      // Manual transactions
+      beginTransaction: (connectionId: string, database: string, sessionId: string) => Promise<any>;
+      commitTransaction: (connectionId: string, sessionId: string) => Promise<any>;
+      rollbackTransaction: (connectionId: string, sessionId: string) => Promise<any>;
+      getTransaction: (connectionId: string, sessionId: string) => Promise<any>;
+      countTransactions: (connectionId?: string) => Promise<any>;
+      getTableData: (connectionId: string, database: string, table: string, options?: TableDataOptions) => Promise<any>;
       // Table management
       createTable: (connectionId: string, database: string, tableName: string, columns: any[], indexes?: any[]) => Promise<any>;
       dropTable: (connectionId: string, database: string, table: string) => Promise<any>;
+      renameTable: (connectionId: string, database: string, table: string, newName: string) => Promise<any>;
       getTableColumns: (connectionId: string, database: string, table: string) => Promise<any>;
-      updateRow: (connectionId: string, database: string, table: string, primaryKey: any, updates: any) => Promise<any>;
-      deleteRow: (connectionId: string, database: string, table: string, primaryKey: any) => Promise<any>;
+      updateRow: (connectionId: string, database: string, table: string, key: RowKey, updates: any) => Promise<any>;
+      deleteRow: (connectionId: string, database: string, table: string, key: RowKey) => Promise<any>;
       addColumn: (connectionId: string, database: string, table: string, column: any) => Promise<any>;
       modifyColumn: (connectionId: string, database: string, table: string, oldName: string, column: any) => Promise<any>;
       dropColumn: (connectionId: string, database: string, table: string, columnName: string) => Promise<any>;
       insertRow: (connectionId: string, database: string, table: string, data: any) => Promise<any>;
-      deleteRows: (connectionId: string, database: string, table: string, primaryKey: any) => Promise<any>;
+      deleteRows: (connectionId: string, database: string, table: string, keys: RowKey[]) => Promise<any>;
+      applyChanges: (connectionId: string, database: string, table: string, changes: RowChange[]) => Promise<any>;
       truncateTable: (connectionId: string, database: string, table: string) => Promise<any>;
       getTableIndexes: (connectionId: string, database: string, table: string) => Promise<any>;
       getTableForeignKeys: (connectionId: string, database: string, table: string) => Promise<any>;
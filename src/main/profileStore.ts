@@ -0,0 +1,156 @@
+import { app, safeStorage } from 'electron';
+import * as fs from 'fs';
+import * as path from 'path';
+
+export interface ConnectionProfile {
+  id: string;
+  name: string;
+  type: string;
+  config?: any;
+}
+
+// 落盘格式：敏感字段从 config 中移除，加密后以 base64 存放在 secrets 中
+interface StoredProfile extends ConnectionProfile {
+  secrets?: Record<string, string>;
+}
+
+interface StoreFile {
+  version: 1;
+  // 是否已从渲染进程 localStorage 迁移过，迁移只执行一次
+  migrated: boolean;
+  profiles: StoredProfile[];
+}
+
+// 需要加密保存的字段路径
+const SECRET_FIELDS = ['password', 'ssh.password', 'ssh.passphrase'];
+
+const getField = (obj: any, fieldPath: string) =>
+  fieldPath.split('.').reduce((value, key) => value?.[key], obj);
+
+const setField = (obj: any, fieldPath: string, value: any) => {
+  const keys = fieldPath.split('.');
+  const last = keys.pop()!;
+  const parent = keys.reduce((value, key) => value?.[key], obj);
+  if (parent && typeof parent === 'object') {
+    if (value === undefined) {
+      delete parent[last];
+    } else {
+      parent[last] = value;
+    }
+  }
+};
+
+/**
+ * 连接配置持久化：保存在 userData 目录下的 connections.json，
+ * 密码等敏感字段通过 safeStorage（系统钥匙串）加密，不以明文写入磁盘。
+ */
+export class ProfileStore {
+  private data: StoreFile | null = null;
+
+  constructor(private readonly fileName = 'connections.json') {}
+
+  private get filePath(): string {
+    return path.join(app.getPath('userData'), this.fileName);
+  }
+
+  // 系统不支持加密时密码等敏感字段不会保存，由界面提示用户
+  canEncrypt(): boolean {
+    return safeStorage.isEncryptionAvailable();
+  }
+
+  async list(): Promise<ConnectionProfile[]> {
+    const data = await this.load();
+    return data.profiles.map(profile => this.decrypt(profile));
+  }
+
+  // 新增或更新配置；传入 replaceId 时替换该配置（重连后连接 ID 会变化），保持列表顺序
+  async save(profile: ConnectionProfile, replaceId?: string): Promise<void> {
+    const data = await this.load();
+    const stored = this.encrypt(profile);
+    const targetId = replaceId ?? profile.id;
+    const profiles = data.profiles.filter(p => p.id === targetId || p.id !== profile.id);
+    const index = profiles.findIndex(p => p.id === targetId);
+    if (index >= 0) {
+      profiles[index] = stored;
+    } else {
+      profiles.push(stored);
+    }
+    await this.write({ ...data, profiles });
+  }
+
+  async delete(id: string): Promise<void> {
+    const data = await this.load();
+    await this.write({ ...data, profiles: data.profiles.filter(p => p.id !== id) });
+  }
+
+  // 一次性导入旧版 localStorage 中的配置，已迁移过则忽略
+  async migrate(legacy: ConnectionProfile[]): Promise<ConnectionProfile[]> {
+    const data = await this.load();
+    if (!data.migrated) {
+      const existing = new Set(data.profiles.map(p => p.id));
+      const imported = legacy
+        .filter(p => p && p.id && !existing.has(p.id))
+        .map(p => this.encrypt(p));
+      await this.write({ ...data, migrated: true, profiles: [...data.profiles, ...imported] });
+    }
+    return this.list();
+  }
+
+  private async load(): Promise<StoreFile> {
+    if (this.data) return this.data;
+    try {
+      const content = await fs.promises.readFile(this.filePath, 'utf-8');
+      this.data = JSON.parse(content) as StoreFile;
+    } catch (e: any) {
+      if (e.code !== 'ENOENT') {
+        throw new Error(`Cannot read connection profiles: ${e.message}`);
+      }
+      this.data = { version: 1, migrated: false, profiles: [] };
+    }
+    return this.data;
+  }
+
+  // 先写临时文件再重命名，避免写入中断导致配置文件损坏
+  private async write(data: StoreFile): Promise<void> {
+    const tmpPath = `${this.filePath}.tmp`;
+    await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.promises.writeFile(tmpPath, JSON.stringify(data, null, 2), { encoding: 'utf-8', mode: 0o600 });
+    await fs.promises.rename(tmpPath, this.filePath);
+    this.data = data;
+  }
+
+  private encrypt(profile: ConnectionProfile): StoredProfile {
+    if (!profile.config) return { ...profile };
+
+    const config = JSON.parse(JSON.stringify(profile.config));
+    const secrets: Record<string, string> = {};
+    const canEncrypt = this.canEncrypt();
+    for (const field of SECRET_FIELDS) {
+      const value = getField(config, field);
+      if (!value) continue;
+      setField(config, field, undefined);
+      // 系统不支持加密时不保存密码，连接时需要重新输入
+      if (canEncrypt) {
+        secrets[field] = safeStorage.encryptString(String(value)).toString('base64');
+      }
+    }
+    return Object.keys(secrets).length > 0
+      ? { ...profile, config, secrets }
+      : { ...profile, config };
+  }
+
+  private decrypt(stored: StoredProfile): ConnectionProfile {
+    const { secrets, ...profile } = stored;
+    if (!profile.config || !secrets) return profile;
+
+    const config = JSON.parse(JSON.stringify(profile.config));
+    for (const [field, encrypted] of Object.entries(secrets)) {
+      try {
+        setField(config, field, safeStorage.decryptString(Buffer.from(encrypted, 'base64')));
+      } catch (e: any) {
+        console.error(`Failed to decrypt "${field}" of profile ${profile.name}:`, e.message);
+      }
+    }
+    return { ...profile, config };
+  }
+}
@@ -0,0 +1,102 @@
+import { v4 as uuidv4 } from 'uuid';
+import { JsonStore } from './jsonStore';
+
+// 查询编辑器执行过的一条语句
+export interface HistoryEntry {
+  id: string;
+  connectionId: string;
+  // 记录时的连接名称，连接配置删除后仍可显示
+  connectionName: string;
+  database: string;
+  sql: string;
+  executedAt: number;
+  // 执行耗时（毫秒）
+  duration: number;
+  // 查询返回的行数或非查询语句影响的行数
+  rowCount?: number;
+  success: boolean;
+  error?: string;
+}
+
+export interface HistoryFilter {
+  // 按 SQL 文本搜索，不区分大小写
+  search?: string;
+  connectionId?: string;
+  // 执行时间范围（时间戳，含两端）
+  from?: number;
+  to?: number;
+  limit?: number;
+}
+
+interface HistoryFile {
+  version: 1;
+  // 按执行时间从新到旧
+  entries: HistoryEntry[];
+}
+
+// 最多保留的记录数，超出后丢弃最旧的
+const MAX_ENTRIES = 5000;
+const DEFAULT_LIMIT = 200;
+
+// 查询历史持久化：保存在 userData 目录下的 query-history.json
+export class QueryHistory {
+  private readonly store: JsonStore<HistoryFile>;
+
+  constructor(fileName = 'query-history.json') {
+    this.store = new JsonStore(fileName, () => ({ version: 1, entries: [] }), 'query history');
+  }
+
+  async add(entry: Omit<HistoryEntry, 'id'>): Promise<HistoryEntry> {
+    const saved: HistoryEntry = { id: uuidv4(), ...entry };
+    await this.store.update(data => ({ ...data, entries: [saved, ...data.entries].slice(0, MAX_ENTRIES) }));
+    return saved;
+  }
+
+  async list({ search, connectionId, from, to, limit = DEFAULT_LIMIT }: HistoryFilter = {}): Promise<HistoryEntry[]> {
+    const data = await this.store.get();
+    const keyword = search?.trim().toLowerCase();
+    const result: HistoryEntry[] = [];
+    for (const entry of data.entries) {
+      if (connectionId && entry.connectionId !== connectionId) continue;
+      if (from !== undefined && entry.executedAt < from) continue;
+      if (to !== undefined && entry.executedAt > to) continue;
+      if (keyword && !entry.sql.toLowerCase().includes(keyword)) continue;
+      result.push(entry);
+      if (result.length >= limit) break;
+    }
+    return result;
+  }
+
+  // 历史中出现过的连接，供按连接筛选
+  async connections(): Promise<{ connectionId: string; connectionName: string }[]> {
+    const data = await this.store.get();
+    const seen = new Map<string, string>();
+    for (const entry of data.entries) {
+      if (!seen.has(entry.connectionId)) {
+        seen.set(entry.connectionId, entry.connectionName);
+      }
+    }
+    return Array.from(seen, ([connectionId, connectionName]) => ({ connectionId, connectionName }));
+  }
+
+  // 重连后连接 ID 会变化，把旧 ID 下的记录归到新 ID
+  async renameConnection(oldId: string, newId: string, connectionName?: string): Promise<void> {
+    const data = await this.store.get();
+    if (!data.entries.some(entry => entry.connectionId === oldId)) return;
+    await this.store.update(current => ({
+      ...current,
+      entries: current.entries.map(entry =>
+        entry.connectionId === oldId
+          ? { ...entry, connectionId: newId, connectionName: connectionName ?? entry.connectionName }
+          : entry
+      ),
+    }));
+  }
+
+  async clear(connectionId?: string): Promise<void> {
+    await this.store.update(data => ({
+      ...data,
+      entries: connectionId ? data.entries.filter(entry => entry.connectionId !== connectionId) : [],
+    }));
+  }
+}
@@ -0,0 +1,160 @@
+import * as fs from 'fs';
+import { v4 as uuidv4 } from 'uuid';
+import { JsonStore } from './jsonStore';
+
+// 保存的常用查询，SQL 中可以使用 :name 占位符，执行时填写参数值
+export interface Snippet {
+  id: string;
+  name: string;
+  // 所在文件夹，空字符串表示根目录；用 / 分隔多级
+  folder: string;
+  description: string;
+  sql: string;
+  // 绑定的连接，只能在该连接上执行
+  connectionId?: string;
+  updatedAt: number;
+}
+
+export type SnippetInput = Omit<Snippet, 'id' | 'updatedAt'> & { id?: string };
+
+// 导出文件中的片段不含本机 ID，绑定的连接按名称记录，导入时匹配同名连接
+interface ExportedSnippet {
+  name: string;
+  folder?: string;
+  description?: string;
+  sql: string;
+  connection?: string;
+}
+
+interface SnippetExportFile {
+  version: 1;
+  snippets: ExportedSnippet[];
+}
+
+interface SnippetFile {
+  version: 1;
+  snippets: Snippet[];
+}
+
+const sameSlot = (a: { folder: string; name: string }, b: { folder: string; name: string }) =>
+  a.folder === b.folder && a.name === b.name;
+
+// 查询片段库：保存在 userData 目录下的 snippets.json，可导出为 JSON 文件与他人共享
+export class SnippetStore {
+  private readonly store: JsonStore<SnippetFile>;
+
+  constructor(fileName = 'snippets.json') {
+    this.store = new JsonStore(fileName, () => ({ version: 1, snippets: [] }), 'snippets');
+  }
+
+  async list(): Promise<Snippet[]> {
+    const data = await this.store.get();
+    return [...data.snippets].sort((a, b) => a.folder.localeCompare(b.folder) || a.name.localeCompare(b.name));
+  }
+
+  // 新增或按 ID 更新
+  async save(input: SnippetInput): Promise<Snippet> {
+    const name = input.name.trim();
+    if (!name) {
+      throw new Error('Snippet name is required');
+    }
+    const snippet: Snippet = {
+      ...input,
+      id: input.id || uuidv4(),
+      name,
+      folder: normalizeFolder(input.folder),
+      updatedAt: Date.now(),
+    };
+    await this.store.update(data => {
+      const exists = data.snippets.some(s => s.id === snippet.id);
+      return {
+        ...data,
+        snippets: exists
+          ? data.snippets.map(s => (s.id === snippet.id ? snippet : s))
+          : [...data.snippets, snippet],
+      };
+    });
+    return snippet;
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.store.update(data => ({ ...data, snippets: data.snippets.filter(s => s.id !== id) }));
+  }
+
+  // 重连后连接 ID 会变化，更新绑定到旧 ID 的片段
+  async renameConnection(oldId: string, newId: string): Promise<void> {
+    const data = await this.store.get();
+    if (!data.snippets.some(s => s.connectionId === oldId)) return;
+    await this.store.update(current => ({
+      ...current,
+      snippets: current.snippets.map(s => (s.connectionId === oldId ? { ...s, connectionId: newId } : s)),
+    }));
+  }
+
+  // connectionNames：连接 ID 到名称的映射，用于记录绑定的连接
+  async exportTo(filePath: string, connectionNames: Map<string, string>): Promise<number> {
+    const snippets = await this.list();
+    const file: SnippetExportFile = {
+      version: 1,
+      snippets: snippets.map(({ name, folder, description, sql, connectionId }) => {
+        const connection = connectionId ? connectionNames.get(connectionId) : undefined;
+        return connection ? { name, folder, description, sql, connection } : { name, folder, description, sql };
+      }),
+    };
+    await fs.promises.writeFile(filePath, JSON.stringify(file, null, 2), 'utf-8');
+    return snippets.length;
+  }
+
+  // 同一文件夹下同名的片段被覆盖；connectionIds：连接名称到 ID 的映射，找不到同名连接时不绑定
+  async importFrom(filePath: string, connectionIds: Map<string, string>): Promise<number> {
+    const content = await fs.promises.readFile(filePath, 'utf-8');
+    const imported = parseExportFile(content).map(item => ({
+      name: item.name.trim(),
+      folder: normalizeFolder(item.folder),
+      description: item.description || '',
+      sql: item.sql,
+      connectionId: item.connection ? connectionIds.get(item.connection) : undefined,
+    }));
+
+    await this.store.update(data => {
+      const snippets = [...data.snippets];
+      for (const item of imported) {
+        const index = snippets.findIndex(s => sameSlot(s, item));
+        const snippet: Snippet = { ...item, id: index >= 0 ? snippets[index].id : uuidv4(), updatedAt: Date.now() };
+        if (index >= 0) {
+          snippets[index] = snippet;
+        } else {
+          snippets.push(snippet);
+        }
+      }
+      return { ...data, snippets };
+    });
+    return imported.length;
+  }
+}
+
+// 去掉文件夹路径首尾和多余的 /
+const normalizeFolder = (folder?: string): string =>
+  (folder || '')
+    .split('/')
+    .map(part => part.trim())
+    .filter(Boolean)
+    .join('/');
+
+const parseExportFile = (content: string): ExportedSnippet[] => {
+  let file: any;
+  try {
+    file = JSON.parse(content);
+  } catch (e: any) {
+    throw new Error(`Invalid snippet file: ${e.message}`);
+  }
+  if (!file || !Array.isArray(file.snippets)) {
+    throw new Error('Invalid snippet file: missing "snippets" array');
+  }
+  file.snippets.forEach((item: any, index: number) => {
+    if (typeof item?.name !== 'string' || !item.name.trim() || typeof item.sql !== 'string') {
+      throw new Error(`Invalid snippet file: entry ${index + 1} must have a name and sql`);
+    }
+  });
+  return file.snippets;
+};
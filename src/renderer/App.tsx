@@ -1,12 +1,16 @@
 import React, { useState, useEffect, useRef } from 'react';
-import ConnectionPanel from './components/ConnectionPanel';
+import ConnectionPanel, { ConnectionState } from './components/ConnectionPanel';
 import DatabaseExplorer from './components/DatabaseExplorer';
 import RedisExplorer from './components/RedisExplorer';
 import QueryEditor from './components/QueryEditor';
-import DataTable from './components/DataTable';
+import QueryResultTabs, { StatementResult } from './components/QueryResultTabs';
+import QueryTabBar from './components/QueryTabBar';
+import DataTable, { DEFAULT_PAGE_SIZE, TableDataOptions } from './components/DataTable';
 import RedisDataView from './components/RedisDataView';
 import CreateTableDialog from './components/CreateTableDialog';
 import TableStructureDialog from './components/TableStructureDialog';
+import { createTab, loadTabs, moveTab, QueryTab, QueryTabsState, saveTabs, setTabPinned } from './utils/queryTabs';
+import { resolveRowKey, RowKeyInfo } from './utils/rowKey';
 import './styles/App.css';
 
 interface Connection {
@@ -16,6 +20,8 @@ interface Connection {
   config?: any;
 }
 
+const isRedisConnection = (conn?: Connection) => (conn?.config?.type || conn?.type) === 'redis';
+
 interface AppProps {
   onReady?: () => void;
 }
@@ -24,44 +30,135 @@ function App({ onReady }: AppProps) {
   const [currentConnection, setCurrentConnection] = useState<string | null>(null);
   const [currentDatabase, setCurrentDatabase] = useState<string | null>(null);
   const [connections, setConnections] = useState<Connection[]>([]);
+  // 本次运行中已建立的连接的状态，由主进程推送
+  const [connectionStates, setConnectionStates] = useState<Record<string, ConnectionState>>({});
   const [queryResults, setQueryResults] = useState<any>(null);
+  // 查询标签页，各自绑定连接和数据库，只能在编辑器标题的选择器中切换；左侧选择只绑定尚未绑定的标签页
+  const [tabsState, setTabsState] = useState<QueryTabsState>(loadTabs);
+  const { tabs } = tabsState;
+  const activeTab = tabs.find(t => t.id === tabsState.activeId) || tabs[0];
+  // 每个标签页最近一次执行脚本的结果，每条语句一个
+  const [tabResults, setTabResults] = useState<Record<string, StatementResult[]>>({});
+  // 结果区显示表数据还是当前标签页的查询结果
+  const [resultView, setResultView] = useState<'table' | 'query'>('query');
   const [redisData, setRedisData] = useState<any>(null);
   const [loading, setLoading] = useState(false);
   const [currentTable, setCurrentTable] = useState<string | null>(null);
+  // 每次打开表时递增，用于重置 DataTable 的分页、排序和筛选状态
+  const [tableViewKey, setTableViewKey] = useState(0);
+  // 当前表数据的分页、排序和筛选参数，刷新时沿用
+  const tableOptions = useRef<TableDataOptions>({ offset: 0, limit: DEFAULT_PAGE_SIZE });
   const [showCreateTable, setShowCreateTable] = useState(false);
-  const [primaryKeyColumn, setPrimaryKeyColumn] = useState<string | null>(null);
+  const [rowKey, setRowKey] = useState<RowKeyInfo | null>(null);
   const [columnInfo, setColumnInfo] = useState<any[]>([]);
   const [showStructure, setShowStructure] = useState(false);
   const [structureTable, setStructureTable] = useState<string | null>(null);
   const explorerRef = useRef<any>(null);
 
   useEffect(() => {
-    // Load saved connections from localStorage
-    const saved = localStorage.getItem('db-connections');
-    if (saved) {
-      setConnections(JSON.parse(saved));
-    }
+    const loadConnections = async () => {
+      try {
+        // 旧版本把连接配置（含明文密码）存在 localStorage，首次启动时迁移到主进程并删除
+        const legacy = localStorage.getItem('db-connections');
+        const result = legacy
+          ? await window.electronAPI.migrateProfiles(JSON.parse(legacy))
+          : await window.electronAPI.listProfiles();
+        if (result.success) {
+          if (legacy) {
+            localStorage.removeItem('db-connections');
+          }
+          setConnections(result.data);
+        } else {
+          console.error('加载连接配置失败:', result.error);
+        }
+      } catch (e) {
+        console.error('加载连接配置失败:', e);
+      }
+    };
+    loadConnections();
     // 通知应用已加载完成
     onReady?.();
   }, []);
 
+  useEffect(() => {
+    return window.electronAPI.onConnectionState(
+      ({ connectionId, state }: { connectionId: string; state: ConnectionState }) => {
+        setConnectionStates(prev => ({ ...prev, [connectionId]: state }));
+      }
+    );
+  }, []);
+
+  useEffect(() => {
+    saveTabs(tabsState);
+  }, [tabsState]);
+
+  const updateTabs = (change: (tabs: QueryTab[]) => QueryTab[]) => {
+    setTabsState(prev => ({ ...prev, tabs: change(prev.tabs) }));
+  };
+
+  const updateTab = (id: string, change: Partial<QueryTab>) => {
+    updateTabs(prev => prev.map(t => (t.id === id ? { ...t, ...change } : t)));
+  };
+
+  // 左侧选择连接或数据库时，只为尚未绑定连接（或绑定该连接但未选择数据库）的当前标签页设置绑定，
+  // 已绑定的标签页不随浏览切换，以免事务或结果所在的连接被悄悄换掉
+  const bindActiveTab = (connectionId: string, database: string | null) => {
+    const unbound = !activeTab.connectionId || (activeTab.connectionId === connectionId && !activeTab.database);
+    if (unbound) {
+      updateTab(activeTab.id, { connectionId, database });
+    }
+  };
+
+  const forgetConnectionState = (connectionId: string) => {
+    setConnectionStates(prev => {
+      const { [connectionId]: _removed, ...rest } = prev;
+      return rest;
+    });
+  };
+
+  // 保存连接配置，replaceId 为被替换的旧连接 ID
+  const saveProfile = async (connection: Connection, replaceId?: string) => {
+    const result = await window.electronAPI.saveProfile(connection, replaceId);
+    if (!result.success) {
+      console.error('保存连接配置失败:', result.error);
+    }
+  };
+
   const handleConnectionCreated = (connection: Connection) => {
     const connWithConfig = {
       ...connection,
       config: connection.config || null,
     };
-    const updated = [...connections, connWithConfig];
-    setConnections(updated);
-    localStorage.setItem('db-connections', JSON.stringify(updated));
+    setConnections([...connections, connWithConfig]);
+    saveProfile(connWithConfig);
     setCurrentConnection(connection.id);
     // 如果配置了数据库名，自动选中
     if (connection.config?.database) {
       setCurrentDatabase(connection.config.database);
     }
+    if (!isRedisConnection(connection)) {
+      bindActiveTab(connection.id, connection.config?.database || null);
+    }
+  };
+
+  // 断开或切换连接会回滚查询编辑器中未提交的事务，先确认
+  const confirmCloseTransactions = async (connectionIds: string[]) => {
+    let count = 0;
+    for (const id of new Set(connectionIds)) {
+      const result = await window.electronAPI.countTransactions(id).catch(() => null);
+      if (result?.success) count += result.data;
+    }
+    return count === 0 || confirm(`有 ${count} 个事务尚未提交，继续将回滚这些事务，确定吗？`);
   };
 
   const handleConnectionSelected = async (connectionId: string) => {
     const conn = connections.find(c => c.id === connectionId);
+    // 重新连接会关闭该连接上的会话，当前标签页切换绑定会关闭其会话
+    const affected = [connectionId];
+    if (activeTab.connectionId && !isRedisConnection(conn)) {
+      affected.push(activeTab.connectionId);
+    }
+    if (!(await confirmCloseTransactions(affected))) return;
     if (conn?.config) {
       try {
         // 根据类型选择连接方法
@@ -71,19 +168,29 @@ function App({ onReady }: AppProps) {
         if (result.success) {
           // 更新连接ID
           const newId = result.connectionId;
-          const updated = connections.map(c => 
-            c.id === connectionId ? { ...c, id: newId } : c
-          );
-          setConnections(updated);
-          localStorage.setItem('db-connections', JSON.stringify(updated));
+          const reconnected = { ...conn, id: newId };
+          setConnections(connections.map(c => 
+            c.id === connectionId ? reconnected : c
+          ));
+          saveProfile(reconnected, connectionId);
+          // 关闭本次运行中已建立的旧连接，避免其继续保活重连
+          if (connectionStates[connectionId]) {
+            const disconnect = conn.config.type === 'redis'
+              ? window.electronAPI.redisDisconnect
+              : window.electronAPI.disconnect;
+            disconnect(connectionId).catch(() => undefined);
+            forgetConnectionState(connectionId);
+          }
           setCurrentConnection(newId);
           setQueryResults(null);
           setRedisData(null);
           // 如果配置了数据库名，自动选中
-          if (conn.config.database && conn.config.type !== 'redis') {
-            setCurrentDatabase(conn.config.database);
-          } else {
-            setCurrentDatabase(null);
+          const database = conn.config.database && conn.config.type !== 'redis' ? conn.config.database : null;
+          setCurrentDatabase(database);
+          // 绑定旧连接的标签页改为新连接，当前标签页绑定到该连接
+          updateTabs(prev => prev.map(t => (t.connectionId === connectionId ? { ...t, connectionId: newId } : t)));
+          if (conn.config.type !== 'redis') {
+            bindActiveTab(newId, database);
           }
           return;
         }
@@ -93,10 +200,14 @@ function App({ onReady }: AppProps) {
     }
     setCurrentConnection(connectionId);
     setCurrentDatabase(null);
+    if (!isRedisConnection(conn)) {
+      bindActiveTab(connectionId, null);
+    }
   };
 
   const handleConnectionDeleted = async (connectionId: string) => {
     const conn = connections.find(c => c.id === connectionId);
+    if (!(await confirmCloseTransactions([connectionId]))) return;
     try {
       if (conn?.config?.type === 'redis') {
         await window.electronAPI.redisDisconnect(connectionId);
@@ -106,37 +217,100 @@ function App({ onReady }: AppProps) {
     } catch (e) {
       // 连接可能已断开，忽略错误
     }
-    const updated = connections.filter(c => c.id !== connectionId);
-    setConnections(updated);
-    localStorage.setItem('db-connections', JSON.stringify(updated));
+    setConnections(connections.filter(c => c.id !== connectionId));
+    forgetConnectionState(connectionId);
+    const result = await window.electronAPI.deleteProfile(connectionId);
+    if (!result.success) {
+      console.error('删除连接配置失败:', result.error);
+    }
     if (currentConnection === connectionId) {
       setCurrentConnection(null);
       setCurrentDatabase(null);
     }
+    updateTabs(prev => prev.map(t => (t.connectionId === connectionId ? { ...t, connectionId: null, database: null } : t)));
+  };
+
+  const handleDatabaseSelected = (database: string) => {
+    setCurrentDatabase(database);
+    if (currentConnection) {
+      bindActiveTab(currentConnection, database);
+    }
+  };
+
+  const connectionName = (connectionId: string | null) =>
+    connections.find(c => c.id === connectionId)?.name || '未连接';
+
+  const handleAddTab = () => {
+    const tab = createTab(tabs, isRedis ? null : currentConnection, isRedis ? null : currentDatabase);
+    setTabsState(prev => ({ tabs: [...prev.tabs, tab], activeId: tab.id }));
+  };
+
+  const handleSelectTab = (id: string) => {
+    setTabsState(prev => ({ ...prev, activeId: id }));
+    setResultView('query');
+  };
+
+  // 关闭标签页会回滚其会话中未提交的事务，先确认
+  const closeTabs = async (ids: string[]) => {
+    const closing = tabs.filter(t => ids.includes(t.id) && !t.pinned);
+    const open: string[] = [];
+    for (const tab of closing) {
+      if (!tab.connectionId) continue;
+      const result = await window.electronAPI.getTransaction(tab.connectionId, tab.id).catch(() => null);
+      if (result?.success && result.data) open.push(tab.title);
+    }
+    if (open.length > 0 && !confirm(`${open.join('、')} 中有未提交的事务，关闭将回滚这些事务，确定吗？`)) return;
+
+    const closed = new Set(closing.map(t => t.id));
+    setTabsState(prev => {
+      let remaining = prev.tabs.filter(t => !closed.has(t.id));
+      if (remaining.length === 0) {
+        remaining = [createTab([], isRedis ? null : currentConnection, isRedis ? null : currentDatabase)];
+      }
+      // 关闭当前标签页时激活其右侧（没有时左侧）的标签页
+      const index = prev.tabs.findIndex(t => t.id === prev.activeId);
+      const activeId = closed.has(prev.activeId)
+        ? (prev.tabs.slice(index + 1).find(t => !closed.has(t.id)) || remaining[remaining.length - 1]).id
+        : prev.activeId;
+      return { tabs: remaining, activeId };
+    });
+    setTabResults(prev => Object.fromEntries(Object.entries(prev).filter(([id]) => !closed.has(id))));
   };
 
   const handleConnectionUpdated = (connection: Connection) => {
-    const updated = connections.map(c => c.id === connection.id ? connection : c);
-    setConnections(updated);
-    localStorage.setItem('db-connections', JSON.stringify(updated));
+    setConnections(connections.map(c => c.id === connection.id ? connection : c));
+    saveProfile(connection);
   };
 
   const handleTableSelected = async (table: string, data: any) => {
     setCurrentTable(table);
+    setTableViewKey(key => key + 1);
+    tableOptions.current = { offset: 0, limit: DEFAULT_PAGE_SIZE };
     setQueryResults(data);
+    setResultView('table');
+    setRowKey(null);
     // 获取列信息（包括主键和类型）
-    if (currentConnection && currentDatabase) {
-      try {
-        const result = await window.electronAPI.getTableColumns(currentConnection, currentDatabase, table);
-        if (result.success) {
-          setColumnInfo(result.data);
-          const pkCol = result.data.find((c: any) => c.Key === 'PRI');
-          setPrimaryKeyColumn(pkCol?.Field || null);
-        }
-      } catch (e) {
-        console.error('获取列信息失败', e);
+    try {
+      await loadColumnInfo(table);
+    } catch (e) {
+      console.error('获取列信息失败', e);
+    }
+  };
+
+  // 加载表的列信息，并确定编辑数据时定位行的列（主键 → 非空唯一索引 → 全部列）
+  const loadColumnInfo = async (table: string) => {
+    if (!currentConnection || !currentDatabase) return;
+    const result = await window.electronAPI.getTableColumns(currentConnection, currentDatabase, table);
+    if (!result.success) return;
+    setColumnInfo(result.data);
+    let indexes: any[] = [];
+    if (!result.data.some((c: any) => c.Key === 'PRI')) {
+      const indexResult = await window.electronAPI.getTableIndexes(currentConnection, currentDatabase, table);
+      if (indexResult.success) {
+        indexes = indexResult.data;
       }
     }
+    setRowKey(resolveRowKey(result.data, indexes));
   };
 
   const handleCreateTable = async (tableName: string, columns: any[], indexes: any[], foreignKeys: any[]) => {
@@ -163,15 +337,12 @@ function App({ onReady }: AppProps) {
     if (!currentConnection || !currentDatabase || !currentTable) return;
     setLoading(true);
     try {
-      const result = await window.electronAPI.getTableData(currentConnection, currentDatabase, currentTable);
+      const result = await window.electronAPI.getTableData(currentConnection, currentDatabase, currentTable, tableOptions.current);
       if (result.success) {
         setQueryResults(result.data);
       }
       // 同时刷新列信息
-      const colResult = await window.electronAPI.getTableColumns(currentConnection, currentDatabase, currentTable);
-      if (colResult.success) {
-        setColumnInfo(colResult.data);
-      }
+      await loadColumnInfo(currentTable);
     } catch (e) {
       console.error(e);
     } finally {
@@ -179,6 +350,11 @@ function App({ onReady }: AppProps) {
     }
   };
 
+  const handleTableOptionsChange = (options: TableDataOptions) => {
+    tableOptions.current = options;
+    refreshTableData();
+  };
+
   const handleEditStructure = async (table: string) => {
     if (!currentConnection || !currentDatabase) return;
     try {
@@ -220,6 +396,12 @@ function App({ onReady }: AppProps) {
   };
 
   const isRedis = getCurrentConnectionType() === 'redis';
+  // 本次运行中已建立的 SQL 连接，可供标签页绑定
+  const sqlConnections = connections
+    .filter(c => connectionStates[c.id] && !isRedisConnection(c))
+    .map(c => ({ id: c.id, name: c.name }));
+  const activeResults = tabResults[activeTab.id];
+  const showQueryResults = !!activeResults && (resultView === 'query' || !queryResults);
 
 
   return (
@@ -231,6 +413,7 @@ function App({ onReady }: AppProps) {
         <div className="sidebar">
           <ConnectionPanel
             connections={connections}
+            connectionStates={connectionStates}
             currentConnection={currentConnection}
             onConnectionCreated={handleConnectionCreated}
             onConnectionSelected={handleConnectionSelected}
@@ -253,7 +436,7 @@ function App({ onReady }: AppProps) {
                     <DatabaseExplorer
                       connectionId={currentConnection}
                       currentDatabase={currentDatabase}
-                      onDatabaseSelected={setCurrentDatabase}
+                      onDatabaseSelected={handleDatabaseSelected}
                       onTableSelected={handleTableSelected}
                       onLoadingChange={setLoading}
                       onCreateTable={() => setShowCreateTable(true)}
@@ -268,21 +451,40 @@ function App({ onReady }: AppProps) {
                       <span>加载中...</span>
                     </div>
                   )}
+                  {!isRedis && activeResults && queryResults && (
+                    <div className="results-switch">
+                      <button className={resultView === 'table' ? 'active' : ''} onClick={() => setResultView('table')}>
+                        表 {currentTable}
+                      </button>
+                      <button className={showQueryResults ? 'active' : ''} onClick={() => setResultView('query')}>
+                        {activeTab.title} 的结果
+                      </button>
+                    </div>
+                  )}
                   {isRedis ? (
                     <RedisDataView data={redisData} />
+                  ) : showQueryResults ? (
+                    <QueryResultTabs
+                      key={activeTab.id}
+                      results={activeResults}
+                      connectionId={activeTab.connectionId || undefined}
+                    />
                   ) : queryResults ? (
                     <DataTable
+                      key={tableViewKey}
                       columns={queryResults.columns || []}
                       rows={queryResults.rows || []}
                       totalCount={queryResults.totalCount}
+                      totalCountEstimated={queryResults.totalCountEstimated}
                       executionTime={queryResults.executionTime}
-                      editable={!!currentTable && !!primaryKeyColumn}
+                      editable={!!currentTable && !!rowKey}
                       connectionId={currentConnection || undefined}
                       database={currentDatabase || undefined}
                       table={currentTable || undefined}
-                      primaryKeyColumn={primaryKeyColumn || undefined}
+                      rowKey={rowKey || undefined}
                       columnInfo={columnInfo}
                       onDataChanged={refreshTableData}
+                      onOptionsChange={currentTable ? handleTableOptionsChange : undefined}
                     />
                   ) : (
                     <div className="no-results">
@@ -291,17 +493,6 @@ function App({ onReady }: AppProps) {
                   )}
                 </div>
               </div>
-              {!isRedis && (
-                <div className="bottom-section">
-                  <div className="editor-panel">
-                    <QueryEditor
-                      connectionId={currentConnection}
-                      database={currentDatabase}
-                      onResults={setQueryResults}
-                    />
-                  </div>
-                </div>
-              )}
             </>
           ) : (
             <div className="welcome-screen">
@@ -309,6 +500,39 @@ function App({ onReady }: AppProps) {
               <p>请先创建一个数据库连接</p>
             </div>
           )}
+          {/* 编辑器隐藏时保持挂载，以免关闭标签页的会话和事务 */}
+          <div className="bottom-section" style={currentConnection && !isRedis ? undefined : { display: 'none' }}>
+            <QueryTabBar
+              tabs={tabs}
+              activeId={activeTab.id}
+              connectionName={connectionName}
+              onSelect={handleSelectTab}
+              onAdd={handleAddTab}
+              onClose={(id) => closeTabs([id])}
+              onCloseOthers={(id) => closeTabs(tabs.filter(t => t.id !== id).map(t => t.id))}
+              onRename={(id, title) => updateTab(id, { title })}
+              onMove={(id, targetId) => updateTabs(prev => moveTab(prev, id, targetId))}
+              onPin={(id, pinned) => updateTabs(prev => setTabPinned(prev, id, pinned))}
+            />
+            {tabs.map(tab => (
+              <div key={tab.id} className="editor-panel" style={tab.id === activeTab.id ? undefined : { display: 'none' }}>
+                <QueryEditor
+                  connectionId={tab.connectionId || ''}
+                  connectionName={tab.connectionId ? connectionName(tab.connectionId) : undefined}
+                  database={tab.database}
+                  connections={sqlConnections}
+                  onBindingChange={(connectionId, database) => updateTab(tab.id, { connectionId, database })}
+                  sessionId={tab.id}
+                  query={tab.sql}
+                  onQueryChange={(sql) => updateTab(tab.id, { sql })}
+                  onResults={(results) => {
+                    setTabResults(prev => ({ ...prev, [tab.id]: results }));
+                    setResultView('query');
+                  }}
+                />
+              </div>
+            ))}
+          </div>
         </div>
       </div>
 
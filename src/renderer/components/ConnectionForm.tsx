@@ -10,8 +10,57 @@ interface ConnectionConfig {
   user: string;
   password: string;
   database: string;
+  filename?: string; // for SQLite
+  ssh?: SshSettings;
+  ssl?: SslSettings;
 }
 
+interface SshSettings {
+  enabled: boolean;
+  host: string;
+  port: number;
+  user: string;
+  authMethod: 'password' | 'privateKey';
+  password: string;
+  privateKeyPath: string;
+  passphrase: string;
+}
+
+interface SslSettings {
+  mode: 'disabled' | 'preferred' | 'required' | 'verify-ca' | 'verify-full';
+  caPath: string;
+  certPath: string;
+  keyPath: string;
+  serverName: string;
+}
+
+const DEFAULT_SSL: SslSettings = {
+  mode: 'disabled',
+  caPath: '',
+  certPath: '',
+  keyPath: '',
+  serverName: '',
+};
+
+const SSL_MODES = [
+  { value: 'disabled', label: '禁用' },
+  { value: 'preferred', label: '优先（服务器不支持时使用明文）' },
+  { value: 'required', label: '必须（不校验证书）' },
+  { value: 'verify-ca', label: '校验 CA' },
+  { value: 'verify-full', label: '校验 CA 和主机名' },
+];
+
+const DEFAULT_SSH: SshSettings = {
+  enabled: false,
+  host: '',
+  port: 22,
+  user: '',
+  authMethod: 'password',
+  password: '',
+  privateKeyPath: '',
+  passphrase: '',
+};
+
 interface ConnectionFormProps {
   onSuccess: (connection: { id: string; name: string; type: string; config: ConnectionConfig }) => void;
   onCancel: () => void;
@@ -27,11 +76,16 @@ const ConnectionForm: React.FC<ConnectionFormProps> = ({ onSuccess, onCancel, ed
     user: editConnection?.user || 'root',
     password: editConnection?.password || '',
     database: editConnection?.database || '',
+    filename: editConnection?.filename || '',
+    ssh: { ...DEFAULT_SSH, ...editConnection?.ssh },
+    ssl: { ...DEFAULT_SSL, ...editConnection?.ssl },
   });
   const [testing, setTesting] = useState(false);
   const [connecting, setConnecting] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [electronAPIAvailable, setElectronAPIAvailable] = useState(false);
+  // 系统是否支持加密保存密码，不支持时密码不会随连接配置保存
+  const [canEncrypt, setCanEncrypt] = useState(true);
 
   // 当 editConnection 变化时更新表单数据
   useEffect(() => {
@@ -44,6 +98,9 @@ const ConnectionForm: React.FC<ConnectionFormProps> = ({ onSuccess, onCancel, ed
         user: editConnection.user || 'root',
         password: editConnection.password || '',
         database: editConnection.database || '',
+        filename: editConnection.filename || '',
+        ssh: { ...DEFAULT_SSH, ...editConnection.ssh },
+        ssl: { ...DEFAULT_SSL, ...editConnection.ssl },
       });
     }
   }, [editConnection]);
@@ -65,6 +122,15 @@ const ConnectionForm: React.FC<ConnectionFormProps> = ({ onSuccess, onCancel, ed
     return () => clearInterval(interval);
   }, []);
 
+  useEffect(() => {
+    if (!electronAPIAvailable) return;
+    window.electronAPI.canEncryptProfiles()
+      .then((result: any) => {
+        if (result.success) setCanEncrypt(result.data);
+      })
+      .catch(() => undefined);
+  }, [electronAPIAvailable]);
+
   const getDefaultPort = (type: string) => {
     switch (type) {
       case 'mysql': return 3306;
@@ -91,7 +157,102 @@ const ConnectionForm: React.FC<ConnectionFormProps> = ({ onSuccess, onCancel, ed
     }
   };
 
+  const getFileName = (filePath: string) => filePath.split(/[\\/]/).pop() || filePath;
+
+  const handleSelectFile = async (mode: 'open' | 'create') => {
+    try {
+      const result = await window.electronAPI.selectSqliteFile(mode);
+      if (result.success && result.data) {
+        setFormData((prev) => ({ ...prev, filename: result.data }));
+      } else if (!result.success) {
+        setError(result.error);
+      }
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const ssh = formData.ssh || DEFAULT_SSH;
+
+  const handleSshChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const { name, value, type } = e.target;
+    const checked = (e.target as HTMLInputElement).checked;
+    setFormData((prev) => ({
+      ...prev,
+      ssh: {
+        ...DEFAULT_SSH,
+        ...prev.ssh,
+        [name]: type === 'checkbox' ? checked : name === 'port' ? parseInt(value) || 22 : value,
+      },
+    }));
+  };
+
+  const handleSelectKeyFile = async () => {
+    try {
+      const result = await window.electronAPI.selectFile('选择 SSH 私钥');
+      if (result.success && result.data) {
+        setFormData((prev) => ({ ...prev, ssh: { ...DEFAULT_SSH, ...prev.ssh, privateKeyPath: result.data } }));
+      } else if (!result.success) {
+        setError(result.error);
+      }
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const ssl = formData.ssl || DEFAULT_SSL;
+
+  const handleSslChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const { name, value } = e.target;
+    setFormData((prev) => ({ ...prev, ssl: { ...DEFAULT_SSL, ...prev.ssl, [name]: value } }));
+  };
+
+  const handleSelectCertFile = async (field: 'caPath' | 'certPath' | 'keyPath', title: string) => {
+    try {
+      const result = await window.electronAPI.selectFile(title);
+      if (result.success && result.data) {
+        setFormData((prev) => ({ ...prev, ssl: { ...DEFAULT_SSL, ...prev.ssl, [field]: result.data } }));
+      } else if (!result.success) {
+        setError(result.error);
+      }
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const validate = (): string | null => {
+    if (formData.type === 'sqlite' && !formData.filename) {
+      return '请选择数据库文件';
+    }
+    if (formData.type !== 'sqlite' && ssh.enabled) {
+      if (!ssh.host || !ssh.user) return '请填写 SSH 主机和用户名';
+      if (ssh.authMethod === 'privateKey' && !ssh.privateKeyPath) return '请选择 SSH 私钥文件';
+    }
+    if (formData.type !== 'sqlite' && !!ssl.certPath !== !!ssl.keyPath) {
+      return '客户端证书和私钥需要同时提供';
+    }
+    return null;
+  };
+
+  const buildConfig = () => ({
+    type: formData.type,
+    host: formData.host,
+    port: formData.port,
+    user: formData.user,
+    password: formData.password,
+    database: formData.database,
+    filename: formData.filename,
+    name: formData.name,
+    ssh: formData.type !== 'sqlite' && ssh.enabled ? ssh : undefined,
+    ssl: formData.type !== 'sqlite' && ssl.mode !== 'disabled' ? ssl : undefined,
+  });
+
   const handleTest = async () => {
+    const validationError = validate();
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
     setTesting(true);
     setError(null);
     try {
@@ -102,15 +263,7 @@ const ConnectionForm: React.FC<ConnectionFormProps> = ({ onSuccess, onCancel, ed
         return;
       }
 
-      const config = {
-        type: formData.type,
-        host: formData.host,
-        port: formData.port,
-        user: formData.user,
-        password: formData.password,
-        database: formData.database,
-        name: formData.name,
-      };
+      const config = buildConfig();
       const result = formData.type === 'redis' 
         ? await window.electronAPI.redisTestConnection(config)
         : await window.electronAPI.testConnection(config);
@@ -128,6 +281,11 @@ const ConnectionForm: React.FC<ConnectionFormProps> = ({ onSuccess, onCancel, ed
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+    const validationError = validate();
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
     setError(null);
     setConnecting(true);
     try {
@@ -137,22 +295,16 @@ const ConnectionForm: React.FC<ConnectionFormProps> = ({ onSuccess, onCancel, ed
         return;
       }
 
-      const config = {
-        type: formData.type,
-        host: formData.host,
-        port: formData.port,
-        user: formData.user,
-        password: formData.password,
-        database: formData.database,
-        name: formData.name,
-      };
+      const config = buildConfig();
       const result = formData.type === 'redis'
         ? await window.electronAPI.redisConnect(config)
         : await window.electronAPI.connect(config);
       if (result.success) {
         onSuccess({
           id: editConnection?.id || result.connectionId,
-          name: formData.name || `${formData.type}@${formData.host}`,
+          name: formData.name || (formData.type === 'sqlite'
+            ? getFileName(formData.filename || '')
+            : `${formData.type}@${formData.host}`),
           type: formData.type,
           config: { ...formData, id: editConnection?.id || result.connectionId },
         });
@@ -213,7 +365,7 @@ const ConnectionForm: React.FC<ConnectionFormProps> = ({ onSuccess, onCancel, ed
               name="port"
               value={formData.port}
               onChange={handleChange}
-              placeholder={formData.type === 'redis' ? '6379' : '3306'}
+              placeholder={String(getDefaultPort(formData.type))}
             />
           </div>
 
@@ -243,7 +395,28 @@ const ConnectionForm: React.FC<ConnectionFormProps> = ({ onSuccess, onCancel, ed
         </>
       )}
 
-      {formData.type !== 'redis' && (
+      {formData.type === 'sqlite' && (
+        <div className="form-group">
+          <label>数据库文件</label>
+          <div className="file-input-row">
+            <input
+              type="text"
+              name="filename"
+              value={formData.filename}
+              onChange={handleChange}
+              placeholder="选择或输入 .db 文件路径"
+            />
+            <button type="button" className="btn-secondary" onClick={() => handleSelectFile('open')}>
+              打开
+            </button>
+            <button type="button" className="btn-secondary" onClick={() => handleSelectFile('create')}>
+              新建
+            </button>
+          </div>
+        </div>
+      )}
+
+      {formData.type !== 'redis' && formData.type !== 'sqlite' && (
       <div className="form-group">
         <label>数据库名</label>
         <input
@@ -271,6 +444,111 @@ const ConnectionForm: React.FC<ConnectionFormProps> = ({ onSuccess, onCancel, ed
         </div>
       )}
 
+      {formData.type !== 'sqlite' && (
+        <div className="form-group">
+          <label>SSL/TLS</label>
+          <select name="mode" value={ssl.mode} onChange={handleSslChange}>
+            {SSL_MODES.map(m => <option key={m.value} value={m.value}>{m.label}</option>)}
+          </select>
+          {ssl.mode !== 'disabled' && (
+            <div className="sub-fields">
+              <div className="form-group">
+                <label>CA 证书</label>
+                <div className="file-input-row">
+                  <input type="text" name="caPath" value={ssl.caPath} onChange={handleSslChange} placeholder="可选" />
+                  <button type="button" className="btn-secondary" onClick={() => handleSelectCertFile('caPath', '选择 CA 证书')}>
+                    浏览
+                  </button>
+                </div>
+              </div>
+              <div className="form-group">
+                <label>客户端证书</label>
+                <div className="file-input-row">
+                  <input type="text" name="certPath" value={ssl.certPath} onChange={handleSslChange} placeholder="可选" />
+                  <button type="button" className="btn-secondary" onClick={() => handleSelectCertFile('certPath', '选择客户端证书')}>
+                    浏览
+                  </button>
+                </div>
+              </div>
+              <div className="form-group">
+                <label>客户端私钥</label>
+                <div className="file-input-row">
+                  <input type="text" name="keyPath" value={ssl.keyPath} onChange={handleSslChange} placeholder="可选" />
+                  <button type="button" className="btn-secondary" onClick={() => handleSelectCertFile('keyPath', '选择客户端私钥')}>
+                    浏览
+                  </button>
+                </div>
+              </div>
+              <div className="form-group">
+                <label>服务器名称（SNI）</label>
+                <input type="text" name="serverName" value={ssl.serverName} onChange={handleSslChange} placeholder={formData.host || '默认为主机地址'} />
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+
+      {formData.type !== 'sqlite' && (
+        <div className="form-group">
+          <label className="checkbox-label">
+            <input
+              type="checkbox"
+              name="enabled"
+              checked={ssh.enabled}
+              onChange={handleSshChange}
+            />
+            使用 SSH 隧道
+          </label>
+          {ssh.enabled && (
+            <div className="sub-fields">
+              <div className="form-row">
+                <div className="form-group">
+                  <label>SSH 主机</label>
+                  <input type="text" name="host" value={ssh.host} onChange={handleSshChange} placeholder="bastion.example.com" />
+                </div>
+                <div className="form-group port-field">
+                  <label>端口</label>
+                  <input type="number" name="port" value={ssh.port} onChange={handleSshChange} placeholder="22" />
+                </div>
+              </div>
+              <div className="form-group">
+                <label>SSH 用户名</label>
+                <input type="text" name="user" value={ssh.user} onChange={handleSshChange} placeholder="用户名" />
+              </div>
+              <div className="form-group">
+                <label>认证方式</label>
+                <select name="authMethod" value={ssh.authMethod} onChange={handleSshChange}>
+                  <option value="password">密码</option>
+                  <option value="privateKey">私钥</option>
+                </select>
+              </div>
+              {ssh.authMethod === 'password' ? (
+                <div className="form-group">
+                  <label>SSH 密码</label>
+                  <input type="password" name="password" value={ssh.password} onChange={handleSshChange} placeholder="密码" />
+                </div>
+              ) : (
+                <>
+                  <div className="form-group">
+                    <label>私钥文件</label>
+                    <div className="file-input-row">
+                      <input type="text" name="privateKeyPath" value={ssh.privateKeyPath} onChange={handleSshChange} placeholder="~/.ssh/id_rsa" />
+                      <button type="button" className="btn-secondary" onClick={handleSelectKeyFile}>
+                        浏览
+                      </button>
+                    </div>
+                  </div>
+                  <div className="form-group">
+                    <label>私钥密码</label>
+                    <input type="password" name="passphrase" value={ssh.passphrase} onChange={handleSshChange} placeholder="私钥密码（可选）" />
+                  </div>
+                </>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
       {!electronAPIAvailable && (
         <div className="error-message" style={{ backgroundColor: '#5a4d1d', color: '#ffd700' }}>
           ⚠️ Electron API 未加载。请确保：
@@ -279,6 +557,12 @@ const ConnectionForm: React.FC<ConnectionFormProps> = ({ onSuccess, onCancel, ed
         </div>
       )}
 
+      {!canEncrypt && (formData.password || ssh.password || ssh.passphrase) && (
+        <div className="warning-message">
+          ⚠️ 系统不支持加密存储，密码不会随连接配置保存，下次连接时需要重新输入
+        </div>
+      )}
+
       {error && <div className="error-message">{error}</div>}
 
       <div className="form-actions">
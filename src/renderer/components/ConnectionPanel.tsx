@@ -11,6 +11,7 @@ interface ConnectionConfig {
   user: string;
   password: string;
   database: string;
+  filename?: string;
 }
 
 interface Connection {
@@ -20,8 +21,18 @@ interface Connection {
   config?: ConnectionConfig;
 }
 
+export type ConnectionState = 'connected' | 'reconnecting' | 'offline';
+
+const STATE_LABELS: Record<ConnectionState, string> = {
+  connected: '已连接',
+  reconnecting: '重连中',
+  offline: '离线',
+};
+
 interface ConnectionPanelProps {
   connections: Connection[];
+  // 已建立连接的状态，未连接的配置没有状态
+  connectionStates: Record<string, ConnectionState>;
   currentConnection: string | null;
   onConnectionCreated: (connection: Connection) => void;
   onConnectionSelected: (connectionId: string) => Promise<void> | void;
@@ -31,6 +42,7 @@ interface ConnectionPanelProps {
 
 const ConnectionPanel: React.FC<ConnectionPanelProps> = ({
   connections,
+  connectionStates,
   currentConnection,
   onConnectionCreated,
   onConnectionSelected,
@@ -90,7 +102,14 @@ const ConnectionPanel: React.FC<ConnectionPanelProps> = ({
             </div>
             <div className="connection-info">
               <div className="connection-name">{conn.name}</div>
-              <div className="connection-type">{conn.type.toUpperCase()}</div>
+              <div className="connection-type">
+                {conn.type.toUpperCase()}
+                {connectionStates[conn.id] && (
+                  <span className={`connection-state ${connectionStates[conn.id]}`}>
+                    {STATE_LABELS[connectionStates[conn.id]]}
+                  </span>
+                )}
+              </div>
             </div>
             <button
               className="btn-edit"
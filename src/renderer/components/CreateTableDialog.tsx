@@ -1,4 +1,5 @@
 import React, { useState } from 'react';
+import { useDialect, getTypeInfo, getDefaultValueOptions, getFirstTypeOf, INDEX_TYPE_LABELS } from '../utils/dialect';
 import './CreateTableDialog.css';
 
 interface Column {
@@ -39,99 +40,6 @@ interface CreateTableDialogProps {
 
 const FK_ACTIONS = ['RESTRICT', 'CASCADE', 'SET NULL', 'NO ACTION', 'SET DEFAULT'];
 
-// 基础类型（不带长度）
-const BASE_TYPES = [
-  { value: 'INT', label: 'INT', hasLength: false, hasDecimals: false },
-  { value: 'BIGINT', label: 'BIGINT', hasLength: false, hasDecimals: false },
-  { value: 'SMALLINT', label: 'SMALLINT', hasLength: false, hasDecimals: false },
-  { value: 'TINYINT', label: 'TINYINT', hasLength: false, hasDecimals: false },
-  { value: 'VARCHAR', label: 'VARCHAR', hasLength: true, defaultLength: '255', hasDecimals: false },
-  { value: 'CHAR', label: 'CHAR', hasLength: true, defaultLength: '50', hasDecimals: false },
-  { value: 'TEXT', label: 'TEXT', hasLength: false, hasDecimals: false },
-  { value: 'LONGTEXT', label: 'LONGTEXT', hasLength: false, hasDecimals: false },
-  { value: 'MEDIUMTEXT', label: 'MEDIUMTEXT', hasLength: false, hasDecimals: false },
-  { value: 'DECIMAL', label: 'DECIMAL', hasLength: true, defaultLength: '10,2', hasDecimals: true },
-  { value: 'FLOAT', label: 'FLOAT', hasLength: false, hasDecimals: false },
-  { value: 'DOUBLE', label: 'DOUBLE', hasLength: false, hasDecimals: false },
-  { value: 'DATE', label: 'DATE', hasLength: false, hasDecimals: false },
-  { value: 'DATETIME', label: 'DATETIME', hasLength: false, hasDecimals: false },
-  { value: 'TIMESTAMP', label: 'TIMESTAMP', hasLength: false, hasDecimals: false },
-  { value: 'TIME', label: 'TIME', hasLength: false, hasDecimals: false },
-  { value: 'YEAR', label: 'YEAR', hasLength: false, hasDecimals: false },
-  { value: 'BOOLEAN', label: 'BOOLEAN', hasLength: false, hasDecimals: false },
-  { value: 'ENUM', label: 'ENUM', hasLength: true, defaultLength: "'value1','value2'", hasDecimals: false },
-  { value: 'SET', label: 'SET', hasLength: true, defaultLength: "'value1','value2'", hasDecimals: false },
-  { value: 'JSON', label: 'JSON', hasLength: false, hasDecimals: false },
-  { value: 'BLOB', label: 'BLOB', hasLength: false, hasDecimals: false },
-  { value: 'BINARY', label: 'BINARY', hasLength: true, defaultLength: '255', hasDecimals: false },
-  { value: 'VARBINARY', label: 'VARBINARY', hasLength: true, defaultLength: '255', hasDecimals: false },
-];
-
-// 默认值选项
-const getDefaultValueOptions = (type: string) => {
-  const baseType = type.toUpperCase();
-  if (baseType.includes('DATETIME') || baseType.includes('TIMESTAMP')) {
-    return [
-      { value: '', label: '无' },
-      { value: 'CURRENT_TIMESTAMP', label: '当前时间 (CURRENT_TIMESTAMP)' },
-      { value: 'CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP', label: '当前时间并自动更新' },
-      { value: 'NULL', label: 'NULL' },
-      { value: '__custom__', label: '自定义...' },
-    ];
-  }
-  if (baseType.includes('DATE')) {
-    return [
-      { value: '', label: '无' },
-      { value: 'CURRENT_DATE', label: '当前日期 (CURRENT_DATE)' },
-      { value: 'NULL', label: 'NULL' },
-      { value: '__custom__', label: '自定义...' },
-    ];
-  }
-  if (baseType.includes('TIME') && !baseType.includes('TIMESTAMP')) {
-    return [
-      { value: '', label: '无' },
-      { value: 'CURRENT_TIME', label: '当前时间 (CURRENT_TIME)' },
-      { value: 'NULL', label: 'NULL' },
-      { value: '__custom__', label: '自定义...' },
-    ];
-  }
-  if (baseType.includes('INT') || baseType.includes('DECIMAL') || baseType.includes('FLOAT') || baseType.includes('DOUBLE')) {
-    return [
-      { value: '', label: '无' },
-      { value: '0', label: '0' },
-      { value: '1', label: '1' },
-      { value: 'NULL', label: 'NULL' },
-      { value: '__custom__', label: '自定义...' },
-    ];
-  }
-  if (baseType === 'BOOLEAN' || baseType === 'TINYINT') {
-    return [
-      { value: '', label: '无' },
-      { value: '0', label: 'FALSE (0)' },
-      { value: '1', label: 'TRUE (1)' },
-      { value: 'NULL', label: 'NULL' },
-    ];
-  }
-  if (baseType.includes('CHAR') || baseType.includes('TEXT')) {
-    return [
-      { value: '', label: '无' },
-      { value: "''", label: "空字符串 ('')" },
-      { value: 'NULL', label: 'NULL' },
-      { value: '__custom__', label: '自定义...' },
-    ];
-  }
-  return [
-    { value: '', label: '无' },
-    { value: 'NULL', label: 'NULL' },
-    { value: '__custom__', label: '自定义...' },
-  ];
-};
-
-// 获取类型是否需要长度
-const getTypeInfo = (type: string) => {
-  return BASE_TYPES.find(t => t.value === type) || { hasLength: false, defaultLength: '' };
-};
-
 const CreateTableDialog: React.FC<CreateTableDialogProps> = ({ connectionId, database, onClose, onSubmit }) => {
   const [tableName, setTableName] = useState('');
   const [columns, setColumns] = useState<Column[]>([
@@ -143,6 +51,19 @@ const CreateTableDialog: React.FC<CreateTableDialogProps> = ({ connectionId, dat
   const [customDefaults, setCustomDefaults] = useState<Record<number, boolean>>({});
   const [allTables, setAllTables] = useState<string[]>([]);
   const [refTableColumns, setRefTableColumns] = useState<Record<string, string[]>>({});
+  const dialect = useDialect(connectionId);
+  const capabilities = dialect?.capabilities;
+  const fkActions = capabilities?.foreignKeyActions || FK_ACTIONS;
+
+  // 方言加载后，把类型列表中不存在的初始类型换成该数据库的整数类型（如 PostgreSQL 没有 INT）
+  React.useEffect(() => {
+    if (!dialect) return;
+    const intType = getFirstTypeOf(dialect, 'integer');
+    if (!intType) return;
+    setColumns(cols => cols.map(col =>
+      dialect.dataTypes.some(t => t.value === col.type) ? col : { ...col, type: intType.value }
+    ));
+  }, [dialect]);
 
   // 加载表列表（用于外键）
   React.useEffect(() => {
@@ -204,7 +125,7 @@ const CreateTableDialog: React.FC<CreateTableDialogProps> = ({ connectionId, dat
     }
     // 切换类型时设置默认长度
     if (field === 'type') {
-      const typeInfo = getTypeInfo(value);
+      const typeInfo = getTypeInfo(dialect, value);
       if (typeInfo.hasLength && typeInfo.defaultLength) {
         updated[index].length = typeInfo.defaultLength;
       } else {
@@ -229,7 +150,7 @@ const CreateTableDialog: React.FC<CreateTableDialogProps> = ({ connectionId, dat
 
   // 获取完整的类型字符串
   const getFullType = (col: Column) => {
-    const typeInfo = getTypeInfo(col.type);
+    const typeInfo = getTypeInfo(dialect, col.type);
     if (typeInfo.hasLength && col.length) {
       return `${col.type}(${col.length})`;
     }
@@ -366,18 +287,18 @@ const CreateTableDialog: React.FC<CreateTableDialogProps> = ({ connectionId, dat
                       <th>长度</th>
                       <th>主键</th>
                       <th>自增</th>
-                      <th>无符号</th>
+                      {capabilities?.unsigned && <th>无符号</th>}
                       <th>可空</th>
                       <th>唯一</th>
                       <th>默认值</th>
-                      <th>注释</th>
+                      {capabilities?.columnComments && <th>注释</th>}
                       <th></th>
                     </tr>
                   </thead>
                   <tbody>
                     {columns.map((col, idx) => {
-                      const typeInfo = getTypeInfo(col.type);
-                      const defaultOptions = getDefaultValueOptions(col.type);
+                      const typeInfo = getTypeInfo(dialect, col.type);
+                      const defaultOptions = getDefaultValueOptions(dialect, col.type);
                       const isCustomDefault = customDefaults[idx];
                       return (
                       <tr key={idx}>
@@ -394,7 +315,8 @@ const CreateTableDialog: React.FC<CreateTableDialogProps> = ({ connectionId, dat
                             value={col.type}
                             onChange={(e) => updateColumn(idx, 'type', e.target.value)}
                           >
-                            {BASE_TYPES.map(t => <option key={t.value} value={t.value}>{t.label}</option>)}
+                            {(dialect?.dataTypes || []).map(t => <option key={t.value} value={t.value}>{t.value}</option>)}
+                            {!dialect?.dataTypes.some(t => t.value === col.type) && <option value={col.type}>{col.type}</option>}
                           </select>
                         </td>
                         <td>
@@ -419,17 +341,19 @@ const CreateTableDialog: React.FC<CreateTableDialogProps> = ({ connectionId, dat
                             type="checkbox"
                             checked={col.autoIncrement}
                             onChange={(e) => updateColumn(idx, 'autoIncrement', e.target.checked)}
-                            disabled={col.type !== 'INT' && col.type !== 'BIGINT' && col.type !== 'SMALLINT' && col.type !== 'TINYINT'}
-                          />
-                        </td>
-                        <td className="center">
-                          <input
-                            type="checkbox"
-                            checked={col.unsigned}
-                            onChange={(e) => updateColumn(idx, 'unsigned', e.target.checked)}
-                            disabled={!['INT', 'BIGINT', 'SMALLINT', 'TINYINT', 'DECIMAL', 'FLOAT', 'DOUBLE'].includes(col.type)}
+                            disabled={!capabilities?.autoIncrement || typeInfo.category !== 'integer'}
                           />
                         </td>
+                        {capabilities?.unsigned && (
+                          <td className="center">
+                            <input
+                              type="checkbox"
+                              checked={col.unsigned}
+                              onChange={(e) => updateColumn(idx, 'unsigned', e.target.checked)}
+                              disabled={typeInfo.category !== 'integer' && typeInfo.category !== 'decimal'}
+                            />
+                          </td>
+                        )}
                         <td className="center">
                           <input
                             type="checkbox"
@@ -471,14 +395,16 @@ const CreateTableDialog: React.FC<CreateTableDialogProps> = ({ connectionId, dat
                             </select>
                           )}
                         </td>
-                        <td>
-                          <input
-                            type="text"
-                            value={col.comment}
-                            onChange={(e) => updateColumn(idx, 'comment', e.target.value)}
-                            placeholder="注释"
-                          />
-                        </td>
+                        {capabilities?.columnComments && (
+                          <td>
+                            <input
+                              type="text"
+                              value={col.comment}
+                              onChange={(e) => updateColumn(idx, 'comment', e.target.value)}
+                              placeholder="注释"
+                            />
+                          </td>
+                        )}
                         <td>
                           <button 
                             className="btn-remove-column" 
@@ -523,9 +449,9 @@ const CreateTableDialog: React.FC<CreateTableDialogProps> = ({ connectionId, dat
                           onChange={(e) => updateIndex(i, 'type', e.target.value as any)}
                           className="index-type"
                         >
-                          <option value="INDEX">普通索引</option>
-                          <option value="UNIQUE">唯一索引</option>
-                          <option value="FULLTEXT">全文索引</option>
+                          {(capabilities?.indexTypes || ['INDEX', 'UNIQUE']).map(t => (
+                            <option key={t} value={t}>{INDEX_TYPE_LABELS[t]}</option>
+                          ))}
                         </select>
                         <button className="btn-remove-column" onClick={() => removeIndex(i)}>🗑️</button>
                       </div>
@@ -599,13 +525,13 @@ const CreateTableDialog: React.FC<CreateTableDialogProps> = ({ connectionId, dat
                           <div className="fk-field">
                             <label>ON DELETE</label>
                             <select value={fk.onDelete} onChange={(e) => updateForeignKey(i, 'onDelete', e.target.value)}>
-                              {FK_ACTIONS.map(a => <option key={a} value={a}>{a}</option>)}
+                              {fkActions.map(a => <option key={a} value={a}>{a}</option>)}
                             </select>
                           </div>
                           <div className="fk-field">
                             <label>ON UPDATE</label>
                             <select value={fk.onUpdate} onChange={(e) => updateForeignKey(i, 'onUpdate', e.target.value)}>
-                              {FK_ACTIONS.map(a => <option key={a} value={a}>{a}</option>)}
+                              {fkActions.map(a => <option key={a} value={a}>{a}</option>)}
                             </select>
                           </div>
                         </div>
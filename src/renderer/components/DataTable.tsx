@@ -1,4 +1,7 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { useDialect, getInputType } from '../utils/dialect';
+import { RowKeyInfo } from '../utils/rowKey';
+import { measureColumnWidths, useVirtualGrid } from '../utils/virtualGrid';
 import './DataTable.css';
 
 interface ColumnInfo {
@@ -10,139 +13,378 @@ interface ColumnInfo {
   Extra: string;
 }
 
+export type FilterOperator = '=' | '!=' | '>' | '>=' | '<' | '<=' | 'LIKE' | 'NOT LIKE' | 'IN' | 'IS NULL' | 'IS NOT NULL';
+
+export interface TableFilter {
+  column: string;
+  operator: FilterOperator;
+  value?: any;
+}
+
+export interface TableDataOptions {
+  offset?: number;
+  limit?: number;
+  orderBy?: { column: string; direction: 'ASC' | 'DESC' };
+  filters?: TableFilter[];
+}
+
+export interface RowKey {
+  values: Record<string, any>;
+  limitOne?: boolean;
+}
+
+export type RowChange =
+  | { type: 'insert'; data: Record<string, any> }
+  | { type: 'update'; key: RowKey; updates: Record<string, any> }
+  | { type: 'delete'; key: RowKey };
+
+// 暂存修改对应的表格行：已有行为 rows 下标，新增行为 pendingInserts 下标
+interface ChangeTarget {
+  kind: 'row' | 'insert';
+  index: number;
+}
+
+export const DEFAULT_PAGE_SIZE = 100;
+
+// 虚拟滚动要求固定行高，与 DataTable.css 中 .data-table tbody tr 的高度一致
+const ROW_HEIGHT = 33;
+const SELECT_COL_WIDTH = 40;
+const ACTION_COL_WIDTH = 50;
+
+// 筛选栏中的操作符，包含/不包含 转换为 LIKE '%值%'
+const FILTER_OPTIONS: { value: string; label: string }[] = [
+  { value: '=', label: '=' },
+  { value: '!=', label: '!=' },
+  { value: '>', label: '>' },
+  { value: '>=', label: '>=' },
+  { value: '<', label: '<' },
+  { value: '<=', label: '<=' },
+  { value: 'CONTAINS', label: '包含' },
+  { value: 'NOT CONTAINS', label: '不包含' },
+  { value: 'LIKE', label: 'LIKE' },
+  { value: 'IN', label: 'IN' },
+  { value: 'IS NULL', label: '为空' },
+  { value: 'IS NOT NULL', label: '不为空' },
+];
+
+interface FilterDraft {
+  column: string;
+  operator: string;
+  value: string;
+}
+
+const toTableFilter = (draft: FilterDraft): TableFilter | null => {
+  if (!draft.column) return null;
+  switch (draft.operator) {
+    case 'IS NULL':
+    case 'IS NOT NULL':
+      return { column: draft.column, operator: draft.operator };
+    case 'CONTAINS':
+      return { column: draft.column, operator: 'LIKE', value: `%${draft.value}%` };
+    case 'NOT CONTAINS':
+      return { column: draft.column, operator: 'NOT LIKE', value: `%${draft.value}%` };
+    case 'IN':
+      return {
+        column: draft.column,
+        operator: 'IN',
+        value: draft.value.split(',').map(v => v.trim()).filter(v => v !== ''),
+      };
+    default:
+      return { column: draft.column, operator: draft.operator as FilterOperator, value: draft.value };
+  }
+};
+
 interface DataTableProps {
   columns: string[];
   rows: any[];
   totalCount?: number;
+  // totalCount 为统计信息估算值
+  totalCountEstimated?: boolean;
   executionTime?: number;
   editable?: boolean;
   connectionId?: string;
   database?: string;
   table?: string;
-  primaryKeyColumn?: string;
+  // 定位行的列，editable 时必须提供
+  rowKey?: RowKeyInfo;
   columnInfo?: ColumnInfo[];
   onDataChanged?: () => void;
+  // 提供时由服务端分页、排序和筛选，rows 只包含当前页
+  onOptionsChange?: (options: TableDataOptions) => void;
 }
 
 const DataTable: React.FC<DataTableProps> = ({
   columns,
   rows,
   totalCount,
+  totalCountEstimated = false,
   executionTime,
   editable = false,
   connectionId,
   database,
   table,
-  primaryKeyColumn,
+  rowKey,
   columnInfo = [],
   onDataChanged,
+  onOptionsChange,
 }) => {
   const [currentPage, setCurrentPage] = useState(1);
-  const [pageSize, setPageSize] = useState(100);
-  const [editingCell, setEditingCell] = useState<{rowIdx: number, col: string} | null>(null);
+  const dialect = useDialect(connectionId);
+  const [pageSize, setPageSize] = useState(DEFAULT_PAGE_SIZE);
+  const [editingCell, setEditingCell] = useState<{rowIdx: number, col: string, inserted?: boolean} | null>(null);
   const [editValue, setEditValue] = useState('');
   const [showAddRow, setShowAddRow] = useState(false);
   const [newRowData, setNewRowData] = useState<Record<string, string>>({});
   const [selectedRows, setSelectedRows] = useState<Set<number>>(new Set());
+  // 暂存的修改，点击“应用”后在一个事务中提交
+  const [pendingUpdates, setPendingUpdates] = useState<Map<number, Record<string, any>>>(new Map());
+  const [pendingDeletes, setPendingDeletes] = useState<Set<number>>(new Set());
+  const [pendingInserts, setPendingInserts] = useState<Record<string, any>[]>([]);
+  const [failedChange, setFailedChange] = useState<ChangeTarget | null>(null);
+  const [applying, setApplying] = useState(false);
+  const [orderBy, setOrderBy] = useState<TableDataOptions['orderBy']>();
+  const [filterDrafts, setFilterDrafts] = useState<FilterDraft[]>([]);
+  const [appliedFilters, setAppliedFilters] = useState<TableFilter[]>([]);
+  const serverMode = !!onOptionsChange;
+  const skipOptionsEffect = useRef(true);
+
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const total = serverMode ? (totalCount ?? rows.length) : (totalCount || rows.length);
+  // 客户端分页时 pageSize 为 0 表示不分页，一次显示全部结果
+  const effectivePageSize = pageSize || Math.max(rows.length, 1);
+  const totalPages = Math.ceil(total / effectivePageSize);
+
+  // 服务端模式下 rows 只是当前页，行号从 0 开始
+  const pageOffset = serverMode ? 0 : (currentPage - 1) * effectivePageSize;
+
+  // 分页、排序或筛选变化时向上层请求对应的数据
+  useEffect(() => {
+    if (skipOptionsEffect.current) {
+      skipOptionsEffect.current = false;
+      return;
+    }
+    onOptionsChange?.({
+      offset: (currentPage - 1) * pageSize,
+      limit: pageSize,
+      orderBy,
+      filters: appliedFilters,
+    });
+  }, [currentPage, pageSize, orderBy, appliedFilters]);
+
+  // 数据刷新后行号对应的行已变化，清除选中和暂存的修改
+  useEffect(() => {
+    setSelectedRows(new Set());
+    clearPendingChanges();
+  }, [rows]);
+
+  const clearPendingChanges = () => {
+    setPendingUpdates(new Map());
+    setPendingDeletes(new Set());
+    setPendingInserts([]);
+    setFailedChange(null);
+  };
+
+  // 按 更新 → 删除 → 新增 的顺序整理暂存的修改
+  const collectChanges = (): { changes: RowChange[]; targets: ChangeTarget[] } => {
+    const changes: RowChange[] = [];
+    const targets: ChangeTarget[] = [];
+    if (rowKey) {
+      // 按原始值定位行，已暂存的修改不影响定位
+      const keyOf = (idx: number): RowKey => ({
+        values: Object.fromEntries(rowKey.columns.map(col => [col, rows[idx][col]])),
+        limitOne: rowKey.source === 'all',
+      });
+      pendingUpdates.forEach((updates, idx) => {
+        if (pendingDeletes.has(idx)) return;
+        changes.push({ type: 'update', key: keyOf(idx), updates });
+        targets.push({ kind: 'row', index: idx });
+      });
+      pendingDeletes.forEach(idx => {
+        changes.push({ type: 'delete', key: keyOf(idx) });
+        targets.push({ kind: 'row', index: idx });
+      });
+    }
+    pendingInserts.forEach((data, index) => {
+      changes.push({ type: 'insert', data });
+      targets.push({ kind: 'insert', index });
+    });
+    return { changes, targets };
+  };
 
-  const total = totalCount || rows.length;
-  const totalPages = Math.ceil(total / pageSize);
+  const pendingCount = collectChanges().changes.length;
+
+  // 切换页面、排序或筛选会重新加载数据，先确认放弃未提交的修改
+  const confirmDiscardChanges = () =>
+    pendingCount === 0 || confirm(`有 ${pendingCount} 项修改尚未应用，继续将放弃这些修改，确定吗？`);
 
   const handlePageChange = (page: number) => {
+    if (page === currentPage || !confirmDiscardChanges()) return;
     setCurrentPage(page);
   };
 
   const handlePageSizeChange = (newSize: number) => {
+    if (!confirmDiscardChanges()) return;
     setPageSize(newSize);
     setCurrentPage(1);
   };
 
   // 前端分页
-  const displayRows = rows.slice((currentPage - 1) * pageSize, currentPage * pageSize);
+  const displayRows = serverMode ? rows : rows.slice(pageOffset, pageOffset + effectivePageSize);
+
+  // 只渲染视口内的行和列
+  const columnWidths = useMemo(() => measureColumnWidths(columns, rows), [columns, rows]);
+  const fixedWidth = editable ? SELECT_COL_WIDTH + ACTION_COL_WIDTH : 0;
+  const { rowRange, columnRange, totalWidth } = useVirtualGrid(containerRef, {
+    rowCount: pendingInserts.length + displayRows.length,
+    rowHeight: ROW_HEIGHT,
+    columnWidths,
+    fixedWidth,
+  });
+  const visibleColumns = columns.slice(columnRange.start, columnRange.end);
+  const renderedColumnCount = (editable ? 2 : 0)
+    + visibleColumns.length
+    + (columnRange.before > 0 ? 1 : 0)
+    + (columnRange.after > 0 ? 1 : 0);
+
+  // 翻页后回到顶部
+  useEffect(() => {
+    containerRef.current?.scrollTo({ top: 0 });
+  }, [currentPage, pageSize]);
+
+  // 点击列头依次切换 升序 → 降序 → 不排序
+  const handleSort = (col: string) => {
+    if (!serverMode || !confirmDiscardChanges()) return;
+    if (orderBy?.column !== col) {
+      setOrderBy({ column: col, direction: 'ASC' });
+    } else if (orderBy.direction === 'ASC') {
+      setOrderBy({ column: col, direction: 'DESC' });
+    } else {
+      setOrderBy(undefined);
+    }
+    setCurrentPage(1);
+  };
+
+  const updateFilterDraft = (index: number, patch: Partial<FilterDraft>) => {
+    setFilterDrafts(filterDrafts.map((draft, i) => i === index ? { ...draft, ...patch } : draft));
+  };
 
-  const handleCellDoubleClick = (rowIdx: number, col: string, value: any) => {
+  const handleApplyFilters = () => {
+    if (!confirmDiscardChanges()) return;
+    const filters = filterDrafts
+      .map(toTableFilter)
+      .filter((filter): filter is TableFilter => filter !== null);
+    setAppliedFilters(filters);
+    setCurrentPage(1);
+  };
+
+  const handleClearFilters = () => {
+    if (appliedFilters.length > 0 && !confirmDiscardChanges()) return;
+    setFilterDrafts([]);
+    if (appliedFilters.length > 0) {
+      setAppliedFilters([]);
+      setCurrentPage(1);
+    }
+  };
+
+  const handleCellDoubleClick = (rowIdx: number, col: string, value: any, inserted = false) => {
     if (!editable) return;
-    setEditingCell({ rowIdx, col });
-    setEditValue(value === null ? '' : String(value));
+    setEditingCell({ rowIdx, col, inserted });
+    setEditValue(value === null || value === undefined ? '' : String(value));
   };
 
-  const handleCellSave = async () => {
-    if (!editingCell || !connectionId || !database || !table || !primaryKeyColumn) return;
-    
-    const actualRowIdx = (currentPage - 1) * pageSize + editingCell.rowIdx;
-    const row = rows[actualRowIdx];
-    const pkValue = row[primaryKeyColumn];
-    
-    try {
-      const result = await window.electronAPI.updateRow(
-        connectionId,
-        database,
-        table,
-        { column: primaryKeyColumn, value: pkValue },
-        { [editingCell.col]: editValue || null }
-      );
-      if (result.success) {
-        onDataChanged?.();
+  // 单元格修改只记录到暂存区，改回原值时撤销该列的修改
+  const handleCellSave = () => {
+    if (!editingCell) return;
+    const { rowIdx, col, inserted } = editingCell;
+    const value = editValue || null;
+
+    if (inserted) {
+      setPendingInserts(pendingInserts.map((row, i) => i === rowIdx ? { ...row, [col]: value } : row));
+    } else {
+      const actualRowIdx = pageOffset + rowIdx;
+      const original = rows[actualRowIdx][col];
+      const updates = { ...pendingUpdates.get(actualRowIdx) };
+      if (value === (original === null || original === undefined ? null : String(original))) {
+        delete updates[col];
       } else {
-        alert('更新失败: ' + result.error);
+        updates[col] = value;
       }
-    } catch (err: any) {
-      alert('更新失败: ' + err.message);
+      const next = new Map(pendingUpdates);
+      if (Object.keys(updates).length > 0) {
+        next.set(actualRowIdx, updates);
+      } else {
+        next.delete(actualRowIdx);
+      }
+      setPendingUpdates(next);
     }
     setEditingCell(null);
   };
 
-  const handleDeleteRow = async (rowIdx: number) => {
-    if (!connectionId || !database || !table || !primaryKeyColumn) return;
-    if (!confirm('确定要删除这行数据吗？')) return;
-    
-    const actualRowIdx = (currentPage - 1) * pageSize + rowIdx;
-    const row = rows[actualRowIdx];
-    const pkValue = row[primaryKeyColumn];
-    
-    try {
-      const result = await window.electronAPI.deleteRow(
-        connectionId,
-        database,
-        table,
-        { column: primaryKeyColumn, value: pkValue }
-      );
-      if (result.success) {
-        onDataChanged?.();
-      } else {
-        alert('删除失败: ' + result.error);
-      }
-    } catch (err: any) {
-      alert('删除失败: ' + err.message);
+  // 标记或取消标记删除
+  const handleDeleteRow = (rowIdx: number) => {
+    const actualRowIdx = pageOffset + rowIdx;
+    const next = new Set(pendingDeletes);
+    if (next.has(actualRowIdx)) {
+      next.delete(actualRowIdx);
+    } else {
+      next.add(actualRowIdx);
     }
+    setPendingDeletes(next);
   };
 
-  const handleAddRow = async () => {
-    if (!connectionId || !database || !table) return;
-    
+  const handleRemoveInsert = (index: number) => {
+    setPendingInserts(pendingInserts.filter((_, i) => i !== index));
+    if (failedChange?.kind === 'insert') setFailedChange(null);
+  };
+
+  const handleAddRow = () => {
     const data: Record<string, any> = {};
     for (const col of columns) {
       if (newRowData[col] !== undefined && newRowData[col] !== '') {
         data[col] = newRowData[col];
       }
     }
-    
+    setPendingInserts([...pendingInserts, data]);
+    setShowAddRow(false);
+    setNewRowData({});
+    containerRef.current?.scrollTo({ top: 0 });
+  };
+
+  const describeTarget = (target: ChangeTarget) =>
+    target.kind === 'insert' ? `新增行 ${target.index + 1}` : `第 ${target.index - pageOffset + 1} 行`;
+
+  const handleApplyChanges = async () => {
+    if (!connectionId || !database || !table) return;
+    const { changes, targets } = collectChanges();
+    if (changes.length === 0) return;
+
+    setApplying(true);
+    setFailedChange(null);
     try {
-      const result = await window.electronAPI.insertRow(connectionId, database, table, data);
+      const result = await window.electronAPI.applyChanges(connectionId, database, table, changes);
       if (result.success) {
-        setShowAddRow(false);
-        setNewRowData({});
+        clearPendingChanges();
         onDataChanged?.();
       } else {
-        alert('插入失败: ' + result.error);
+        const target = typeof result.failedIndex === 'number' ? targets[result.failedIndex] : undefined;
+        setFailedChange(target || null);
+        alert(`应用修改失败${target ? `（${describeTarget(target)}）` : ''}，所有修改已回滚: ${result.error}`);
       }
     } catch (err: any) {
-      alert('插入失败: ' + err.message);
+      alert('应用修改失败: ' + err.message);
+    } finally {
+      setApplying(false);
     }
   };
 
+  const handleDiscardChanges = () => {
+    if (!confirm(`确定要放弃 ${pendingCount} 项未应用的修改吗？`)) return;
+    clearPendingChanges();
+  };
+
   const handleSelectRow = (rowIdx: number, checked: boolean) => {
-    const actualIdx = (currentPage - 1) * pageSize + rowIdx;
+    const actualIdx = pageOffset + rowIdx;
     const newSelected = new Set(selectedRows);
     if (checked) {
       newSelected.add(actualIdx);
@@ -155,8 +397,8 @@ const DataTable: React.FC<DataTableProps> = ({
   const handleSelectAll = (checked: boolean) => {
     if (checked) {
       const newSelected = new Set<number>();
-      const start = (currentPage - 1) * pageSize;
-      const end = Math.min(start + pageSize, rows.length);
+      const start = pageOffset;
+      const end = Math.min(start + effectivePageSize, rows.length);
       for (let i = start; i < end; i++) {
         newSelected.add(i);
       }
@@ -166,26 +408,11 @@ const DataTable: React.FC<DataTableProps> = ({
     }
   };
 
-  const handleDeleteSelected = async () => {
-    if (!connectionId || !database || !table || !primaryKeyColumn) return;
+  // 选中的行标记为待删除
+  const handleDeleteSelected = () => {
     if (selectedRows.size === 0) return;
-    if (!confirm(`确定要删除选中的 ${selectedRows.size} 行数据吗？`)) return;
-    
-    const values = Array.from(selectedRows).map(idx => rows[idx][primaryKeyColumn]);
-    try {
-      const result = await window.electronAPI.deleteRows(connectionId, database, table, {
-        column: primaryKeyColumn,
-        values
-      });
-      if (result.success) {
-        setSelectedRows(new Set());
-        onDataChanged?.();
-      } else {
-        alert('批量删除失败: ' + result.error);
-      }
-    } catch (err: any) {
-      alert('批量删除失败: ' + err.message);
-    }
+    setPendingDeletes(new Set([...pendingDeletes, ...selectedRows]));
+    setSelectedRows(new Set());
   };
 
   const handleTruncate = async () => {
@@ -207,8 +434,8 @@ const DataTable: React.FC<DataTableProps> = ({
 
   // 计算当前页选中状态
   const isAllSelected = () => {
-    const start = (currentPage - 1) * pageSize;
-    const end = Math.min(start + pageSize, rows.length);
+    const start = pageOffset;
+    const end = Math.min(start + effectivePageSize, rows.length);
     if (end <= start) return false;
     for (let i = start; i < end; i++) {
       if (!selectedRows.has(i)) return false;
@@ -220,13 +447,7 @@ const DataTable: React.FC<DataTableProps> = ({
   const getColumnType = (colName: string): string => {
     const info = columnInfo.find(c => c.Field === colName);
     if (!info) return 'text';
-    const type = info.Type.toLowerCase();
-    if (type.includes('datetime') || type.includes('timestamp')) return 'datetime-local';
-    if (type.includes('date')) return 'date';
-    if (type.includes('time')) return 'time';
-    if (type.includes('int') || type.includes('decimal') || type.includes('float') || type.includes('double')) return 'number';
-    if (type.includes('bool') || type.includes('tinyint(1)')) return 'checkbox';
-    return 'text';
+    return getInputType(dialect, info.Type);
   };
 
   // 判断列是否为自增
@@ -290,12 +511,91 @@ const DataTable: React.FC<DataTableProps> = ({
     );
   };
 
+  // 新增的行显示在最前面，其后是当前页的数据
+  const renderRow = (gridIdx: number) => {
+    const inserted = gridIdx < pendingInserts.length;
+    const idx = inserted ? gridIdx : gridIdx - pendingInserts.length;
+    const actualIdx = pageOffset + idx;
+    const row = inserted ? pendingInserts[idx] : displayRows[idx];
+    const updates = inserted ? undefined : pendingUpdates.get(actualIdx);
+    const deleted = !inserted && pendingDeletes.has(actualIdx);
+    const failed = failedChange !== null
+      && failedChange.kind === (inserted ? 'insert' : 'row')
+      && failedChange.index === (inserted ? idx : actualIdx);
+    const rowClass = [
+      !inserted && selectedRows.has(actualIdx) ? 'selected' : '',
+      inserted ? 'pending-insert' : '',
+      deleted ? 'pending-delete' : '',
+      failed ? 'pending-failed' : '',
+    ].filter(Boolean).join(' ');
+
+    return (
+      <tr key={inserted ? `new-${idx}` : idx} className={rowClass}>
+        {editable && (
+          <td className="select-col">
+            {!inserted && (
+              <input 
+                type="checkbox" 
+                checked={selectedRows.has(actualIdx)}
+                onChange={(e) => handleSelectRow(idx, e.target.checked)}
+              />
+            )}
+          </td>
+        )}
+        {editable && (
+          <td className="action-col">
+            <button 
+              className="btn-row-delete" 
+              onClick={() => inserted ? handleRemoveInsert(idx) : handleDeleteRow(idx)}
+              title={deleted ? '撤销删除' : '删除行'}
+            >
+              {deleted ? '↩️' : '🗑️'}
+            </button>
+          </td>
+        )}
+        {columnRange.before > 0 && <td className="virtual-spacer" />}
+        {visibleColumns.map((col) => {
+          const edited = updates !== undefined && col in updates;
+          const value = edited ? updates[col] : row[col];
+          const isEditing = editingCell?.rowIdx === idx
+            && editingCell.col === col
+            && !!editingCell.inserted === inserted;
+          return (
+            <td 
+              key={col}
+              onDoubleClick={() => !deleted && handleCellDoubleClick(idx, col, value, inserted)}
+              className={`${editable ? 'editable' : ''} ${edited ? 'pending-update' : ''}`}
+            >
+              {isEditing ? (
+                <input
+                  type="text"
+                  value={editValue}
+                  onChange={(e) => setEditValue(e.target.value)}
+                  onBlur={handleCellSave}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') handleCellSave();
+                    if (e.key === 'Escape') setEditingCell(null);
+                  }}
+                  autoFocus
+                  className="cell-input"
+                />
+              ) : value !== null && value !== undefined
+                ? String(value)
+                : <span className="null-value">NULL</span>}
+            </td>
+          );
+        })}
+        {columnRange.after > 0 && <td className="virtual-spacer" />}
+      </tr>
+    );
+  };
+
   return (
     <div className="data-table-wrapper">
       <div className="data-table-header">
         <h3>查询结果</h3>
         <div className="data-table-info">
-          <span>{total} 行</span>
+          <span>{totalCountEstimated ? `约 ${total}` : total} 行</span>
           {executionTime !== undefined && <span> | {executionTime}ms</span>}
           {editable && (
             <>
@@ -307,6 +607,17 @@ const DataTable: React.FC<DataTableProps> = ({
                   🗑️ 删除选中 ({selectedRows.size})
                 </button>
               )}
+              {pendingCount > 0 && (
+                <>
+                  <span className="pending-info">{pendingCount} 项待提交修改</span>
+                  <button className="btn-apply-changes" onClick={handleApplyChanges} disabled={applying}>
+                    {applying ? '提交中...' : '应用'}
+                  </button>
+                  <button className="btn-discard-changes" onClick={handleDiscardChanges} disabled={applying}>
+                    放弃
+                  </button>
+                </>
+              )}
               <button className="btn-truncate" onClick={handleTruncate}>
                 ⚠️ 清空表
               </button>
@@ -315,8 +626,59 @@ const DataTable: React.FC<DataTableProps> = ({
         </div>
       </div>
 
-      <div className="data-table-container">
-        <table className="data-table">
+      {editable && rowKey?.source === 'all' && (
+        <div className="data-table-warning">
+          ⚠️ 该表没有主键或非空唯一索引，修改和删除将按所有列的原值匹配，每次只影响第一条匹配的行
+        </div>
+      )}
+
+      {serverMode && (
+        <div className="data-table-filters">
+          {filterDrafts.map((draft, index) => (
+            <div key={index} className="filter-row">
+              <select value={draft.column} onChange={(e) => updateFilterDraft(index, { column: e.target.value })}>
+                {columns.map(col => <option key={col} value={col}>{col}</option>)}
+              </select>
+              <select value={draft.operator} onChange={(e) => updateFilterDraft(index, { operator: e.target.value })}>
+                {FILTER_OPTIONS.map(op => <option key={op.value} value={op.value}>{op.label}</option>)}
+              </select>
+              {draft.operator !== 'IS NULL' && draft.operator !== 'IS NOT NULL' && (
+                <input
+                  type="text"
+                  value={draft.value}
+                  onChange={(e) => updateFilterDraft(index, { value: e.target.value })}
+                  onKeyDown={(e) => { if (e.key === 'Enter') handleApplyFilters(); }}
+                  placeholder={draft.operator === 'IN' ? '多个值用逗号分隔' : '值'}
+                />
+              )}
+              <button
+                className="btn-filter-remove"
+                onClick={() => setFilterDrafts(filterDrafts.filter((_, i) => i !== index))}
+                title="移除条件"
+              >
+                ×
+              </button>
+            </div>
+          ))}
+          <div className="filter-actions">
+            <button onClick={() => setFilterDrafts([...filterDrafts, { column: columns[0] || '', operator: '=', value: '' }])}>
+              ➕ 添加条件
+            </button>
+            {filterDrafts.length > 0 && <button onClick={handleApplyFilters}>应用</button>}
+            {(filterDrafts.length > 0 || appliedFilters.length > 0) && <button onClick={handleClearFilters}>清除</button>}
+          </div>
+        </div>
+      )}
+
+      <div className="data-table-container" ref={containerRef}>
+        <table className="data-table" style={{ width: fixedWidth + totalWidth }}>
+          <colgroup>
+            {editable && <col style={{ width: SELECT_COL_WIDTH }} />}
+            {editable && <col style={{ width: ACTION_COL_WIDTH }} />}
+            {columnRange.before > 0 && <col style={{ width: columnRange.before }} />}
+            {visibleColumns.map(col => <col key={col} style={{ width: columnWidths[columns.indexOf(col)] }} />)}
+            {columnRange.after > 0 && <col style={{ width: columnRange.after }} />}
+          </colgroup>
           <thead>
             <tr>
               {editable && (
@@ -330,63 +692,35 @@ const DataTable: React.FC<DataTableProps> = ({
                 </th>
               )}
               {editable && <th className="action-col">操作</th>}
-              {columns.map((col) => (
-                <th key={col}>{col}</th>
+              {columnRange.before > 0 && <th className="virtual-spacer" />}
+              {visibleColumns.map((col) => (
+                <th
+                  key={col}
+                  className={serverMode ? 'sortable' : ''}
+                  onClick={() => handleSort(col)}
+                  title={serverMode ? '点击排序' : col}
+                >
+                  {col}
+                  {orderBy?.column === col && (
+                    <span className="sort-indicator">{orderBy.direction === 'ASC' ? ' ▲' : ' ▼'}</span>
+                  )}
+                </th>
               ))}
+              {columnRange.after > 0 && <th className="virtual-spacer" />}
             </tr>
           </thead>
           <tbody>
-            {displayRows.map((row, idx) => {
-              const actualIdx = (currentPage - 1) * pageSize + idx;
-              return (
-              <tr key={idx} className={selectedRows.has(actualIdx) ? 'selected' : ''}>
-                {editable && (
-                  <td className="select-col">
-                    <input 
-                      type="checkbox" 
-                      checked={selectedRows.has(actualIdx)}
-                      onChange={(e) => handleSelectRow(idx, e.target.checked)}
-                    />
-                  </td>
-                )}
-                {editable && (
-                  <td className="action-col">
-                    <button 
-                      className="btn-row-delete" 
-                      onClick={() => handleDeleteRow(idx)}
-                      title="删除行"
-                    >
-                      🗑️
-                    </button>
-                  </td>
-                )}
-                {columns.map((col) => (
-                  <td 
-                    key={col}
-                    onDoubleClick={() => handleCellDoubleClick(idx, col, row[col])}
-                    className={editable ? 'editable' : ''}
-                  >
-                    {editingCell?.rowIdx === idx && editingCell?.col === col ? (
-                      <input
-                        type="text"
-                        value={editValue}
-                        onChange={(e) => setEditValue(e.target.value)}
-                        onBlur={handleCellSave}
-                        onKeyDown={(e) => {
-                          if (e.key === 'Enter') handleCellSave();
-                          if (e.key === 'Escape') setEditingCell(null);
-                        }}
-                        autoFocus
-                        className="cell-input"
-                      />
-                    ) : row[col] !== null && row[col] !== undefined
-                      ? String(row[col])
-                      : <span className="null-value">NULL</span>}
-                  </td>
-                ))}
+            {rowRange.before > 0 && (
+              <tr className="virtual-spacer" style={{ height: rowRange.before }}>
+                <td colSpan={renderedColumnCount} />
+              </tr>
+            )}
+            {Array.from({ length: rowRange.end - rowRange.start }, (_, offset) => renderRow(rowRange.start + offset))}
+            {rowRange.after > 0 && (
+              <tr className="virtual-spacer" style={{ height: rowRange.after }}>
+                <td colSpan={renderedColumnCount} />
               </tr>
-            );
-            })}
+            )}
           </tbody>
         </table>
       </div>
@@ -435,6 +769,7 @@ const DataTable: React.FC<DataTableProps> = ({
             <option value={200}>200</option>
             <option value={500}>500</option>
             <option value={1000}>1000</option>
+            {!serverMode && <option value={0}>全部</option>}
           </select>
           <span>条</span>
         </div>
@@ -1,4 +1,5 @@
 import React, { useState, useEffect } from 'react';
+import { DEFAULT_PAGE_SIZE } from './DataTable';
 import './DatabaseExplorer.css';
 
 interface DatabaseExplorerProps {
@@ -51,6 +52,10 @@ const DatabaseExplorer: React.FC<DatabaseExplorerProps> = ({
       const result = await window.electronAPI.getDatabases(connectionId);
       if (result.success) {
         setDatabases(result.data);
+        // 只有一个数据库时（如 SQLite 文件）直接选中
+        if (result.data.length === 1 && !currentDatabase) {
+          onDatabaseSelected(result.data[0]);
+        }
       } else {
         setError(result.error);
       }
@@ -150,7 +155,10 @@ const DatabaseExplorer: React.FC<DatabaseExplorerProps> = ({
                         setLoadingTable(true);
                         onLoadingChange?.(true);
                         try {
-                          const result = await window.electronAPI.getTableData(connectionId, currentDatabase, table);
+                          const result = await window.electronAPI.getTableData(connectionId, currentDatabase, table, {
+                            offset: 0,
+                            limit: DEFAULT_PAGE_SIZE,
+                          });
                           if (result.success) {
                             onTableSelected(table, result.data);
                           }
@@ -0,0 +1,102 @@
+import React, { useMemo, useState } from 'react';
+import { collectWarnings, ExplainResult, parsePlan, PlanNode } from '../utils/explainPlan';
+import './ExplainPlanView.css';
+
+interface ExplainPlanViewProps {
+  explain: ExplainResult;
+}
+
+interface PlanTreeNodeProps {
+  node: PlanNode;
+  selected: PlanNode | null;
+  onSelect: (node: PlanNode) => void;
+}
+
+const formatNumber = (value: number) => value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+
+const PlanTreeNode: React.FC<PlanTreeNodeProps> = ({ node, selected, onSelect }) => {
+  const [expanded, setExpanded] = useState(true);
+
+  return (
+    <li className="plan-node">
+      <div
+        className={`plan-node-row${node === selected ? ' selected' : ''}${node.warnings.length > 0 ? ' warning' : ''}`}
+        onClick={() => onSelect(node)}
+      >
+        <span
+          className="plan-node-toggle"
+          onClick={(e) => {
+            e.stopPropagation();
+            setExpanded(!expanded);
+          }}
+        >
+          {node.children.length > 0 ? (expanded ? '▼' : '▶') : ''}
+        </span>
+        <span className="plan-node-title">{node.title}</span>
+        {node.accessType && <span className="plan-chip">访问类型 {node.accessType}</span>}
+        {node.rows !== undefined && <span className="plan-chip">行数 {formatNumber(node.rows)}</span>}
+        {node.cost !== undefined && <span className="plan-chip">代价 {formatNumber(node.cost)}</span>}
+        {node.index && <span className="plan-chip index">索引 {node.index}</span>}
+        {node.warnings.map(warning => (
+          <span key={warning} className="plan-badge">{warning}</span>
+        ))}
+      </div>
+      {expanded && node.children.length > 0 && (
+        <ul className="plan-children">
+          {node.children.map((child, index) => (
+            <PlanTreeNode key={index} node={child} selected={selected} onSelect={onSelect} />
+          ))}
+        </ul>
+      )}
+    </li>
+  );
+};
+
+// 执行计划树：每个节点显示访问类型、行数、代价、索引，全表扫描、文件排序、临时表标红
+const ExplainPlanView: React.FC<ExplainPlanViewProps> = ({ explain }) => {
+  const [showRaw, setShowRaw] = useState(false);
+  const [selected, setSelected] = useState<PlanNode | null>(null);
+  const nodes = useMemo(() => parsePlan(explain), [explain]);
+  const warnings = useMemo(() => collectWarnings(nodes), [nodes]);
+
+  return (
+    <div className="explain-plan">
+      <div className="explain-toolbar">
+        <span className={warnings.length > 0 ? 'explain-summary warning' : 'explain-summary'}>
+          {warnings.length > 0 ? `发现 ${warnings.length} 个问题` : '未发现全表扫描、文件排序或临时表'}
+        </span>
+        <button className="btn-secondary" onClick={() => setShowRaw(!showRaw)}>
+          {showRaw ? '计划树' : '原始 JSON'}
+        </button>
+      </div>
+      {showRaw ? (
+        <pre className="explain-raw">{JSON.stringify(explain.plan, null, 2)}</pre>
+      ) : (
+        <div className="explain-body">
+          <ul className="plan-tree">
+            {nodes.map((node, index) => (
+              <PlanTreeNode key={index} node={node} selected={selected} onSelect={setSelected} />
+            ))}
+          </ul>
+          {selected && selected.details.length > 0 && (
+            <div className="plan-details">
+              <div className="plan-details-title">{selected.title}</div>
+              <table>
+                <tbody>
+                  {selected.details.map(([key, value]) => (
+                    <tr key={key}>
+                      <td className="plan-details-key">{key}</td>
+                      <td>{value}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExplainPlanView;
@@ -0,0 +1,69 @@
+import React from 'react';
+import { ParameterType, ParameterValue, SqlParameter } from '../utils/sqlParameters';
+
+interface ParameterPanelProps {
+  parameters: SqlParameter[];
+  values: Record<string, ParameterValue>;
+  onChange: (name: string, value: ParameterValue) => void;
+  disabled?: boolean;
+  // 运行片段或历史查询时作为提示：填写后提交执行，取消则只保留载入的查询
+  onSubmit?: () => void;
+  onCancel?: () => void;
+}
+
+const TYPE_LABELS: Record<ParameterType, string> = {
+  string: '字符串',
+  number: '数字',
+  null: 'NULL',
+  date: '日期',
+};
+
+export const DEFAULT_PARAMETER_VALUE: ParameterValue = { type: 'string', value: '' };
+
+// 编辑器中检测到参数时显示，逐个填写参数值和类型
+const ParameterPanel: React.FC<ParameterPanelProps> = ({ parameters, values, onChange, disabled, onSubmit, onCancel }) => (
+  <form
+    className={`parameter-panel${onSubmit ? ' prompting' : ''}`}
+    onSubmit={(e) => {
+      e.preventDefault();
+      onSubmit?.();
+    }}
+  >
+    <div className="parameter-panel-title">{onSubmit ? '填写参数后执行' : '参数'}</div>
+    <div className="parameter-list">
+      {parameters.map((parameter, index) => {
+        const current = values[parameter.name] || DEFAULT_PARAMETER_VALUE;
+        return (
+          <div key={parameter.name} className="parameter-item">
+            <label className="parameter-name">{parameter.label}</label>
+            <select
+              value={current.type}
+              onChange={(e) => onChange(parameter.name, { ...current, type: e.target.value as ParameterType })}
+              disabled={disabled}
+            >
+              {Object.entries(TYPE_LABELS).map(([type, label]) => (
+                <option key={type} value={type}>{label}</option>
+              ))}
+            </select>
+            <input
+              type={current.type === 'number' ? 'number' : 'text'}
+              value={current.type === 'null' ? '' : current.value}
+              placeholder={current.type === 'date' ? 'YYYY-MM-DD HH:MM:SS' : current.type === 'null' ? 'NULL' : ''}
+              onChange={(e) => onChange(parameter.name, { ...current, value: e.target.value })}
+              disabled={disabled || current.type === 'null'}
+              autoFocus={!!onSubmit && index === 0}
+            />
+          </div>
+        );
+      })}
+    </div>
+    {onSubmit && (
+      <div className="parameter-actions">
+        <button type="button" className="btn-secondary" onClick={onCancel} disabled={disabled}>取消</button>
+        <button type="submit" className="btn-primary" disabled={disabled}>执行</button>
+      </div>
+    )}
+  </form>
+);
+
+export default ParameterPanel;
@@ -1,45 +1,365 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { useDialect } from '../utils/dialect';
+import { loadParameterValues, saveParameterValues } from '../utils/parameterMemory';
+import { createSqlCompletion } from '../utils/sqlCompletion';
+import { errorCodeLabel, errorHint, errorRange, QueryErrorInfo } from '../utils/queryErrors';
+import { formatSql, KeywordCase, loadFormatOptions, minifySql, saveFormatOptions, SqlFormatOptions } from '../utils/sqlFormatter';
+import { bindParameters, ParameterValue, uniqueParameters } from '../utils/sqlParameters';
+import { splitSqlStatements, statementAt } from '../utils/sqlSplitter';
+import ParameterPanel, { DEFAULT_PARAMETER_VALUE } from './ParameterPanel';
+import QueryHistoryDialog, { HistoryEntry } from './QueryHistoryDialog';
+import type { Snippet } from './SnippetDialog';
+import SnippetPanel from './SnippetPanel';
+import SqlEditor, { ExecuteMode, SqlEditorHandle } from './SqlEditor';
+import type { StatementResult } from './QueryResultTabs';
 import './QueryEditor.css';
 
+// 会话中进行中的手动事务（主进程 TransactionInfo）
+interface TransactionInfo {
+  sessionId: string;
+  database: string;
+  startedAt: number;
+  statements: number;
+  // 连接断开，事务已被回滚
+  lost?: boolean;
+}
+
 interface QueryEditorProps {
   connectionId: string;
+  // 标题中显示的连接名称
+  connectionName?: string;
   database: string | null;
-  onResults?: (results: any) => void;
+  // 可绑定的连接（本次运行中已建立的 SQL 连接）
+  connections: { id: string; name: string }[];
+  // 通过标题中的选择器切换标签页绑定的连接和数据库
+  onBindingChange: (connectionId: string, database: string | null) => void;
+  // 编辑器独占的数据库会话，会话变量和事务在多次执行间保持
+  sessionId: string;
+  query: string;
+  onQueryChange: (query: string) => void;
+  // 脚本中每条语句的执行结果，执行过程中逐条回调
+  onResults?: (results: StatementResult[]) => void;
 }
 
-const QueryEditor: React.FC<QueryEditorProps> = ({ connectionId, database, onResults }) => {
-  const [query, setQuery] = useState('SELECT * FROM users LIMIT 10;');
+const QueryEditor: React.FC<QueryEditorProps> = ({
+  connectionId,
+  connectionName,
+  database,
+  connections,
+  onBindingChange,
+  sessionId,
+  query,
+  onQueryChange,
+  onResults,
+}) => {
   const [results, setResults] = useState<any>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // 执行失败时的错误码和提示，只在显示的仍是该错误时显示
+  const [errorInfo, setErrorInfo] = useState<{ error: string; info: QueryErrorInfo } | null>(null);
   const [executionTime, setExecutionTime] = useState<number | null>(null);
+  const [cancelling, setCancelling] = useState(false);
+  const [cancelled, setCancelled] = useState(false);
+  const cancelRequested = useRef(false);
+  const editorRef = useRef<SqlEditorHandle>(null);
+  const [continueOnError, setContinueOnError] = useState(false);
+  const dialect = useDialect(connectionId);
+  // 关闭自动提交后，首次执行时开启事务，直到手动提交或回滚
+  const [autoCommit, setAutoCommit] = useState(true);
+  const [transaction, setTransaction] = useState<TransactionInfo | null>(null);
+  const [ending, setEnding] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showSnippets, setShowSnippets] = useState(false);
+  const [formatOptions, setFormatOptions] = useState<SqlFormatOptions>(loadFormatOptions);
+  const [showFormatOptions, setShowFormatOptions] = useState(false);
+  // 编辑器中 ?、:name、${name} 参数的值，按参数名保存
+  const [parameterValues, setParameterValues] = useState<Record<string, ParameterValue>>({});
+  const parameters = useMemo(() => uniqueParameters(query, dialect?.name), [query, dialect]);
+  // 绑定连接的数据库列表，供标题中的数据库选择器使用
+  const [databases, setDatabases] = useState<string[]>([]);
+  // 运行含参数的片段或历史查询时等待在参数面板中填写，记录执行的数据库
+  const [pendingRun, setPendingRun] = useState<{ database: string | null } | null>(null);
+  // 按当前连接和数据库的表、列自动补全
+  const completion = useMemo(
+    () => (database && dialect ? createSqlCompletion({ connectionId, database, dialect: dialect.name }) : undefined),
+    [connectionId, database, dialect]
+  );
 
-  const handleExecute = async () => {
-    if (!database) {
+  useEffect(() => {
+    setDatabases([]);
+    if (!connectionId) return;
+    let cancelled = false;
+    window.electronAPI.getDatabases(connectionId)
+      .then((result: any) => {
+        if (!cancelled && result.success) setDatabases(result.data);
+      })
+      .catch(() => undefined);
+    return () => {
+      cancelled = true;
+    };
+  }, [connectionId]);
+
+  // 切换连接或关闭编辑器时关闭会话，未提交的事务随之回滚
+  useEffect(() => {
+    setTransaction(null);
+    return () => {
+      window.electronAPI.closeSession(connectionId, sessionId).catch(() => undefined);
+    };
+  }, [connectionId, sessionId]);
+
+  // 执行后事务可能已结束（语句中的 COMMIT/ROLLBACK、连接断开），以主进程记录为准
+  const refreshTransaction = async () => {
+    const result = await window.electronAPI.getTransaction(connectionId, sessionId);
+    if (result.success) {
+      setTransaction(result.data);
+    }
+  };
+
+  const endTransaction = async (action: 'commit' | 'rollback') => {
+    setEnding(true);
+    try {
+      const result = action === 'commit'
+        ? await window.electronAPI.commitTransaction(connectionId, sessionId)
+        : await window.electronAPI.rollbackTransaction(connectionId, sessionId);
+      setError(result.success ? null : result.error);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setEnding(false);
+      await refreshTransaction().catch(() => undefined);
+    }
+  };
+
+  // 载入查询（历史、片段）时恢复该查询上次使用的参数值
+  const loadQuery = (sql: string) => {
+    onQueryChange(sql);
+    setParameterValues(prev => ({ ...prev, ...loadParameterValues(sql) }));
+  };
+
+  // 默认执行编辑器内容；从历史重新执行时传入历史中的语句和数据库。
+  // 指定 range 时只执行脚本中该范围内的语句（选中部分、光标所在语句）。
+  // 含参数的语句通过参数绑定执行，值取自参数面板
+  const handleExecute = async (
+    sql: string = query,
+    targetDatabase: string | null = database,
+    range: { start: number; end: number } = { start: 0, end: sql.length }
+  ) => {
+    if (!targetDatabase) {
       setError('请先选择一个数据库');
       return;
     }
 
-    if (!query.trim()) {
+    // 位置换算回整个脚本，参数编号按整个脚本计算
+    const statements = splitSqlStatements(sql.slice(range.start, range.end), dialect?.name).map(s => ({
+      ...s,
+      start: s.start + range.start,
+      end: s.end + range.start,
+    }));
+    if (statements.length === 0) {
       setError('请输入 SQL 查询');
       return;
     }
 
+    // 未填写的参数按空字符串处理，并记住本次使用的参数值
+    const used = uniqueParameters(sql, dialect?.name);
+    const bindValues = Object.fromEntries(used.map(p => [p.name, parameterValues[p.name] || DEFAULT_PARAMETER_VALUE]));
+    if (used.length > 0) {
+      saveParameterValues(sql, bindValues);
+    }
+
     setLoading(true);
     setError(null);
     setResults(null);
+    setCancelled(false);
+    editorRef.current?.clearError();
+    cancelRequested.current = false;
+
+    // 按顺序逐条执行，每条语句一个结果
+    const statementResults: StatementResult[] = [];
+    const record = (result: StatementResult) => {
+      statementResults.push(result);
+      onResults?.([...statementResults]);
+    };
+    let failed = 0;
+    // 第一条失败语句的错误，继续执行时在汇总信息中显示
+    let firstFailure: { error: string; info?: QueryErrorInfo } | null = null;
+    const startTime = Date.now();
+
+    try {
+      if (!autoCommit && !transaction) {
+        const begin = await window.electronAPI.beginTransaction(connectionId, targetDatabase, sessionId);
+        if (!begin.success) {
+          setError(begin.error);
+          return;
+        }
+        setTransaction(begin.data);
+      }
+
+      for (const [index, statement] of statements.entries()) {
+        const bound = bindParameters(sql, bindValues, dialect?.name, statement);
+        const result = bound.params.length > 0
+          ? await window.electronAPI.executeParameterized(connectionId, targetDatabase, bound.sql, bound.params, sessionId)
+          : await window.electronAPI.executeQuery(connectionId, targetDatabase, statement.text, sessionId);
+
+        if (result.success) {
+          record({ sql: statement.text, data: result.data });
+          if (result.data.columns?.length > 0) {
+            setResults(result.data);
+          }
+        } else if (cancelRequested.current) {
+          record({ sql: statement.text, cancelled: true });
+        } else {
+          const details: QueryErrorInfo | undefined = result.details;
+          record({ sql: statement.text, error: result.error, errorInfo: details });
+          failed++;
+          const message = statements.length > 1 ? `第 ${index + 1} 条语句执行失败: ${result.error}` : result.error;
+          // 标出第一条失败语句的出错位置，偏移和行号换算为在整个脚本中的位置
+          if (failed === 1) {
+            const range = details ? errorRange(details, statement, bound.params.length === 0) : null;
+            if (range) editorRef.current?.markError(range.from, range.to);
+            const info = details && range
+              ? { ...details, position: range.from, line: sql.slice(0, range.from).split('\n').length }
+              : details;
+            firstFailure = { error: message, info };
+          }
+          if (!continueOnError) {
+            setError(message);
+            if (firstFailure?.info) setErrorInfo({ error: message, info: firstFailure.info });
+            break;
+          }
+        }
+
+        // 取消后不再执行剩余语句
+        if (cancelRequested.current && (!result.success || index < statements.length - 1)) {
+          setCancelled(true);
+          break;
+        }
+      }
+      setExecutionTime(Date.now() - startTime);
+      if (continueOnError && firstFailure) {
+        const message = `${failed} 条语句执行失败，${firstFailure.error}`;
+        setError(message);
+        if (firstFailure.info) setErrorInfo({ error: message, info: firstFailure.info });
+      }
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setLoading(false);
+      setCancelling(false);
+      if (!autoCommit || transaction) {
+        await refreshTransaction().catch(() => undefined);
+      }
+    }
+  };
 
+  const handleCancel = async () => {
+    cancelRequested.current = true;
+    setCancelling(true);
     try {
-      const startTime = Date.now();
-      const result = await window.electronAPI.executeQuery(connectionId, database, query);
-      const endTime = Date.now();
+      const result = await window.electronAPI.cancelQuery(connectionId, sessionId);
+      // 取消失败时按正常执行处理；没有正在执行的语句时（语句之间）由执行循环停止后续语句
+      if (!result.success) {
+        setError(result.error);
+        cancelRequested.current = false;
+        setCancelling(false);
+      }
+    } catch (err: any) {
+      cancelRequested.current = false;
+      setCancelling(false);
+      setError(err.message);
+    }
+  };
+
+  const handleLoadHistory = (entry: HistoryEntry) => {
+    loadQuery(entry.sql);
+    setShowHistory(false);
+  };
 
+  // 含参数的查询载入后由参数面板提示填写，提交后执行
+  const runLoaded = (sql: string, targetDatabase: string | null) => {
+    loadQuery(sql);
+    if (loading) return;
+    if (uniqueParameters(sql, dialect?.name).length > 0) {
+      setError(null);
+      setPendingRun({ database: targetDatabase });
+    } else {
+      setPendingRun(null);
+      handleExecute(sql, targetDatabase);
+    }
+  };
+
+  const handleSubmitParameters = () => {
+    if (!pendingRun) return;
+    setPendingRun(null);
+    handleExecute(query, pendingRun.database);
+  };
+
+  const handleRunHistory = (entry: HistoryEntry) => {
+    setShowHistory(false);
+    runLoaded(entry.sql, entry.database);
+  };
+
+  const handleLoadSnippet = (snippet: Snippet) => {
+    loadQuery(snippet.sql);
+  };
+
+  const handleRunSnippet = (snippet: Snippet) => {
+    runLoaded(snippet.sql, database);
+  };
+
+  // default：有选中内容时执行选中部分，否则执行全部；statement：执行光标所在语句
+  const handleEditorExecute = (mode: ExecuteMode) => {
+    if (loading) return;
+    if (mode === 'statement') {
+      const statement = statementAt(query, editorRef.current?.getCursor() ?? 0, dialect?.name);
+      if (!statement) {
+        setError('请输入 SQL 查询');
+        return;
+      }
+      handleExecute(query, database, statement);
+      return;
+    }
+    const selection = editorRef.current?.getSelection();
+    handleExecute(query, database, selection ? { start: selection.from, end: selection.to } : undefined);
+  };
+
+  const handleExecuteSelection = () => {
+    const selection = editorRef.current?.getSelection();
+    if (!selection) {
+      setError('请先选中要执行的 SQL');
+      return;
+    }
+    handleExecute(query, database, { start: selection.from, end: selection.to });
+  };
+
+  // 查看执行计划：有选中内容时取选中部分的第一条语句，否则取光标所在语句
+  const handleExplain = async () => {
+    if (!database) {
+      setError('请先选择一个数据库');
+      return;
+    }
+    const selection = editorRef.current?.getSelection();
+    const statement = selection
+      ? splitSqlStatements(query.slice(selection.from, selection.to), dialect?.name)
+        .map(s => ({ ...s, start: s.start + selection.from, end: s.end + selection.from }))[0]
+      : statementAt(query, editorRef.current?.getCursor() ?? 0, dialect?.name);
+    if (!statement) {
+      setError('请输入 SQL 查询');
+      return;
+    }
+
+    const used = uniqueParameters(query, dialect?.name);
+    const bindValues = Object.fromEntries(used.map(p => [p.name, parameterValues[p.name] || DEFAULT_PARAMETER_VALUE]));
+    const bound = bindParameters(query, bindValues, dialect?.name, statement);
+
+    setLoading(true);
+    setError(null);
+    try {
+      const result = await window.electronAPI.explainQuery(connectionId, database, bound.sql, bound.params, sessionId);
       if (result.success) {
-        setResults(result.data);
-        setExecutionTime(result.data.executionTime || endTime - startTime);
-        onResults?.(result.data);
+        onResults?.([{ sql: statement.text, explain: result.data }]);
       } else {
-        setError(result.error);
+        setError(`获取执行计划失败: ${result.error}`);
       }
     } catch (err: any) {
       setError(err.message);
@@ -48,11 +368,28 @@ const QueryEditor: React.FC<QueryEditorProps> = ({ connectionId, database, onRes
     }
   };
 
-  const handleKeyDown = (e: React.KeyboardEvent) => {
-    if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
-      e.preventDefault();
-      handleExecute();
+  // 有选中内容时只处理选中部分，否则处理全部
+  const transformQuery = (transform: (sql: string) => string, action: string) => {
+    const selection = editorRef.current?.getSelection();
+    const from = selection?.from ?? 0;
+    const to = selection?.to ?? query.length;
+    try {
+      const text = transform(query.slice(from, to));
+      editorRef.current?.replaceRange(from, to, text, !!selection);
+      setError(null);
+    } catch (err: any) {
+      setError(`${action}失败: ${err.message}`);
     }
+    editorRef.current?.focus();
+  };
+
+  const handleFormat = () => transformQuery(sql => formatSql(sql, dialect?.name, formatOptions), '格式化');
+  const handleMinify = () => transformQuery(sql => minifySql(sql, dialect?.name), '压缩');
+
+  const updateFormatOptions = (change: Partial<SqlFormatOptions>) => {
+    const options = { ...formatOptions, ...change };
+    setFormatOptions(options);
+    saveFormatOptions(options);
   };
 
   const exportToCSV = () => {
@@ -76,37 +413,239 @@ const QueryEditor: React.FC<QueryEditorProps> = ({ connectionId, database, onRes
     URL.revokeObjectURL(url);
   };
 
+  // 有进行中的事务或正在执行时不能切换绑定
+  const bindingLocked = loading || !!transaction;
+
   return (
     <div className="query-editor">
       <div className="editor-header">
-        <h3>SQL 查询</h3>
+        <h3>
+          SQL 查询
+          <span className="editor-binding" title={bindingLocked ? '事务进行中或查询执行中，不能切换连接和数据库' : undefined}>
+            <select
+              value={connectionId}
+              onChange={(e) => onBindingChange(e.target.value, null)}
+              disabled={bindingLocked}
+            >
+              {!connectionId && <option value="">未连接</option>}
+              {connectionId && !connections.some(c => c.id === connectionId) && (
+                <option value={connectionId}>{connectionName || '未连接'}</option>
+              )}
+              {connections.map(c => (
+                <option key={c.id} value={c.id}>{c.name}</option>
+              ))}
+            </select>
+            /
+            <select
+              value={database || ''}
+              onChange={(e) => onBindingChange(connectionId, e.target.value || null)}
+              disabled={bindingLocked || !connectionId}
+            >
+              <option value="">未选择数据库</option>
+              {database && !databases.includes(database) && <option value={database}>{database}</option>}
+              {databases.map(name => (
+                <option key={name} value={name}>{name}</option>
+              ))}
+            </select>
+          </span>
+        </h3>
         <div className="editor-actions">
+          <label className="editor-option" title="关闭后执行的语句在事务中进行，需手动提交或回滚">
+            <input
+              type="checkbox"
+              checked={autoCommit}
+              onChange={(e) => setAutoCommit(e.target.checked)}
+              disabled={loading || !!transaction}
+            />
+            自动提交
+          </label>
+          <label className="editor-option" title="脚本中某条语句失败后是否继续执行后续语句">
+            <input
+              type="checkbox"
+              checked={continueOnError}
+              onChange={(e) => setContinueOnError(e.target.checked)}
+              disabled={loading}
+            />
+            出错时继续执行
+          </label>
+          <button className="btn-secondary" onClick={handleFormat} title="Shift+Alt+F，有选中内容时只格式化选中部分">
+            格式化
+          </button>
+          <button className="btn-secondary" onClick={() => setShowFormatOptions(!showFormatOptions)} title="格式化设置">
+            ⚙
+          </button>
+          <button className="btn-secondary" onClick={handleMinify} title="去掉注释和换行，压缩为一行">
+            压缩
+          </button>
+          <button className="btn-secondary" onClick={() => setShowSnippets(!showSnippets)}>
+            {showSnippets ? '隐藏片段' : '片段'}
+          </button>
+          <button className="btn-secondary" onClick={() => setShowHistory(true)}>
+            历史
+          </button>
           {results && (
             <button className="btn-secondary" onClick={exportToCSV}>
               导出 CSV
             </button>
           )}
+          <button
+            className="btn-secondary"
+            onClick={handleExecuteSelection}
+            disabled={loading || !database}
+          >
+            执行选中
+          </button>
+          <button
+            className="btn-secondary"
+            onClick={() => handleEditorExecute('statement')}
+            disabled={loading || !database}
+            title="Shift+⌘+Enter"
+          >
+            执行当前语句
+          </button>
+          <button
+            className="btn-secondary"
+            onClick={handleExplain}
+            disabled={loading || !database}
+            title="查看选中语句或光标所在语句的执行计划"
+          >
+            执行计划
+          </button>
           <button
             className="btn-primary"
-            onClick={handleExecute}
+            onClick={() => handleEditorExecute('default')}
             disabled={loading || !database}
           >
             {loading ? '执行中...' : '执行 (⌘+Enter)'}
           </button>
+          {loading && (
+            <button className="btn-secondary" onClick={handleCancel} disabled={cancelling}>
+              {cancelling ? '取消中...' : '取消'}
+            </button>
+          )}
         </div>
       </div>
 
-      <div className="editor-content">
-        <textarea
-          className="query-input"
-          value={query}
-          onChange={(e) => setQuery(e.target.value)}
-          onKeyDown={handleKeyDown}
-          placeholder="输入 SQL 查询语句..."
-        />
+      {showFormatOptions && (
+        <div className="format-options">
+          <label>
+            关键字
+            <select
+              value={formatOptions.keywordCase}
+              onChange={(e) => updateFormatOptions({ keywordCase: e.target.value as KeywordCase })}
+            >
+              <option value="upper">大写</option>
+              <option value="lower">小写</option>
+              <option value="preserve">保持不变</option>
+            </select>
+          </label>
+          <label>
+            缩进
+            <select
+              value={formatOptions.indent}
+              onChange={(e) => updateFormatOptions({ indent: Number(e.target.value) })}
+            >
+              <option value={2}>2 个空格</option>
+              <option value={4}>4 个空格</option>
+            </select>
+          </label>
+          <label>
+            逗号
+            <select
+              value={formatOptions.commaPosition}
+              onChange={(e) => updateFormatOptions({ commaPosition: e.target.value as SqlFormatOptions['commaPosition'] })}
+            >
+              <option value="after">行尾</option>
+              <option value="before">行首</option>
+            </select>
+          </label>
+          <label title="括号中的内容不超过该宽度时保持在一行">
+            行宽
+            <input
+              type="number"
+              min={10}
+              max={200}
+              value={formatOptions.lineWidth}
+              onChange={(e) => updateFormatOptions({ lineWidth: Number(e.target.value) || formatOptions.lineWidth })}
+            />
+          </label>
+        </div>
+      )}
+
+      {transaction && (
+        <div className="transaction-bar">
+          <span className="transaction-status">
+            {transaction.lost
+              ? '连接已断开，事务中的修改已被回滚，点击回滚后继续'
+              : `事务进行中（${transaction.statements} 条语句，开始于 ${new Date(transaction.startedAt).toLocaleTimeString()}）`}
+          </span>
+          <button className="btn-primary" onClick={() => endTransaction('commit')} disabled={loading || ending || transaction.lost}>
+            提交
+          </button>
+          <button className="btn-secondary" onClick={() => endTransaction('rollback')} disabled={loading || ending}>
+            回滚
+          </button>
+        </div>
+      )}
+
+      <div className="editor-body">
+        {showSnippets && (
+          <SnippetPanel
+            connectionId={connectionId}
+            currentSql={query}
+            onLoad={handleLoadSnippet}
+            onRun={handleRunSnippet}
+          />
+        )}
+        <div className="editor-content">
+          <SqlEditor
+            ref={editorRef}
+            value={query}
+            onChange={onQueryChange}
+            dialect={dialect?.name}
+            onExecute={handleEditorExecute}
+            onFormat={handleFormat}
+            completion={completion}
+            placeholder="输入 SQL 查询语句..."
+          />
+        </div>
+        {parameters.length > 0 && (
+          <ParameterPanel
+            // 进入提示状态时重新挂载，使第一个参数获得焦点
+            key={pendingRun ? 'prompt' : 'panel'}
+            parameters={parameters}
+            values={parameterValues}
+            onChange={(name, value) => setParameterValues(prev => ({ ...prev, [name]: value }))}
+            disabled={loading}
+            onSubmit={pendingRun ? handleSubmitParameters : undefined}
+            onCancel={() => setPendingRun(null)}
+          />
+        )}
       </div>
 
-      {error && <div className="error-message">{error}</div>}
+      {error && (
+        <div className="error-message">
+          {error}
+          {errorInfo?.error === error && errorCodeLabel(errorInfo.info) && (
+            <div className="error-code">{errorCodeLabel(errorInfo.info)}</div>
+          )}
+          {errorInfo?.error === error && errorHint(errorInfo.info) && (
+            <div className="error-hint">{errorHint(errorInfo.info)}</div>
+          )}
+        </div>
+      )}
+      {cancelled && executionTime !== null && (
+        <div className="execution-info">查询已取消（已运行 {executionTime} ms）</div>
+      )}
+
+      {showHistory && (
+        <QueryHistoryDialog
+          connectionId={connectionId}
+          onLoad={handleLoadHistory}
+          onRun={handleRunHistory}
+          onClose={() => setShowHistory(false)}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,144 @@
+import React, { useEffect, useState } from 'react';
+import './QueryHistoryDialog.css';
+
+// 主进程 HistoryEntry
+export interface HistoryEntry {
+  id: string;
+  connectionId: string;
+  connectionName: string;
+  database: string;
+  sql: string;
+  executedAt: number;
+  duration: number;
+  rowCount?: number;
+  success: boolean;
+  error?: string;
+}
+
+interface QueryHistoryDialogProps {
+  // 当前编辑器的连接，默认只显示该连接的历史
+  connectionId: string;
+  onLoad: (entry: HistoryEntry) => void;
+  onRun: (entry: HistoryEntry) => void;
+  onClose: () => void;
+}
+
+// 日期输入框的值（YYYY-MM-DD）转为当天起止时间戳
+const dayStart = (value: string) => (value ? new Date(`${value}T00:00:00`).getTime() : undefined);
+const dayEnd = (value: string) => (value ? new Date(`${value}T23:59:59.999`).getTime() : undefined);
+
+const QueryHistoryDialog: React.FC<QueryHistoryDialogProps> = ({ connectionId, onLoad, onRun, onClose }) => {
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [connections, setConnections] = useState<{ connectionId: string; connectionName: string }[]>([]);
+  const [search, setSearch] = useState('');
+  const [connectionFilter, setConnectionFilter] = useState(connectionId);
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    window.electronAPI.listHistoryConnections().then((result: any) => {
+      if (result.success) setConnections(result.data);
+    });
+  }, []);
+
+  // 输入搜索词时稍作延迟再查询
+  useEffect(() => {
+    const timer = setTimeout(async () => {
+      const result = await window.electronAPI.listHistory({
+        search: search || undefined,
+        connectionId: connectionFilter || undefined,
+        from: dayStart(from),
+        to: dayEnd(to),
+      });
+      if (result.success) {
+        setEntries(result.data);
+        setError(null);
+      } else {
+        setError(result.error);
+      }
+    }, 200);
+    return () => clearTimeout(timer);
+  }, [search, connectionFilter, from, to]);
+
+  const handleClear = async () => {
+    const scope = connectionFilter ? '当前筛选连接的' : '全部';
+    if (!confirm(`确定要清除${scope}查询历史吗？`)) return;
+    const result = await window.electronAPI.clearHistory(connectionFilter || undefined);
+    if (result.success) {
+      setEntries([]);
+    } else {
+      setError(result.error);
+    }
+  };
+
+  // 当前连接不在历史中（尚未执行过语句）时也要出现在筛选项里
+  const connectionOptions = connections.some(c => c.connectionId === connectionId)
+    ? connections
+    : [{ connectionId, connectionName: '当前连接' }, ...connections];
+
+  return (
+    <div className="modal-overlay">
+      <div className="modal query-history-modal">
+        <div className="modal-header">
+          <h3>查询历史</h3>
+          <button className="btn-close" onClick={onClose}>×</button>
+        </div>
+        <div className="history-filters">
+          <input
+            type="text"
+            className="history-search"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="搜索 SQL..."
+            autoFocus
+          />
+          <select value={connectionFilter} onChange={(e) => setConnectionFilter(e.target.value)}>
+            <option value="">全部连接</option>
+            {connectionOptions.map(c => (
+              <option key={c.connectionId} value={c.connectionId}>{c.connectionName}</option>
+            ))}
+          </select>
+          <input type="date" value={from} onChange={(e) => setFrom(e.target.value)} title="开始日期" />
+          <span className="history-date-separator">至</span>
+          <input type="date" value={to} onChange={(e) => setTo(e.target.value)} title="结束日期" />
+        </div>
+        <div className="modal-body history-list">
+          {error && <div className="error-message">{error}</div>}
+          {entries.length === 0 && !error && <div className="history-empty">没有匹配的历史记录</div>}
+          {entries.map(entry => (
+            <div key={entry.id} className={`history-entry ${entry.success ? '' : 'failed'}`}>
+              <div className="history-meta">
+                <span>{new Date(entry.executedAt).toLocaleString()}</span>
+                <span>{entry.connectionName}</span>
+                {entry.database && <span>{entry.database}</span>}
+                <span>{entry.duration} ms</span>
+                {entry.success
+                  ? entry.rowCount !== undefined && <span>{entry.rowCount} 行</span>
+                  : <span className="history-error" title={entry.error}>失败: {entry.error}</span>}
+                <span className="history-actions">
+                  <button className="btn-secondary" onClick={() => onLoad(entry)}>载入</button>
+                  <button
+                    className="btn-primary"
+                    onClick={() => onRun(entry)}
+                    disabled={entry.connectionId !== connectionId}
+                    title={entry.connectionId !== connectionId ? '只能重新执行当前连接的查询' : undefined}
+                  >
+                    执行
+                  </button>
+                </span>
+              </div>
+              <pre className="history-sql" onDoubleClick={() => onLoad(entry)}>{entry.sql}</pre>
+            </div>
+          ))}
+        </div>
+        <div className="modal-footer">
+          <button className="btn-secondary" onClick={handleClear}>清除历史</button>
+          <button className="btn-secondary" onClick={onClose}>关闭</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default QueryHistoryDialog;
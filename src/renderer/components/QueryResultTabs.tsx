@@ -0,0 +1,139 @@
+import React, { useEffect, useState } from 'react';
+import DataTable from './DataTable';
+import ExplainPlanView from './ExplainPlanView';
+import type { ExplainResult } from '../utils/explainPlan';
+import { errorCodeLabel, errorHint, QueryErrorInfo } from '../utils/queryErrors';
+import './QueryResultTabs.css';
+
+// MySQL SHOW WARNINGS 的一行
+export interface QueryWarning {
+  level: string;
+  code: number;
+  message: string;
+}
+
+export interface StatementResult {
+  sql: string;
+  data?: {
+    columns: string[];
+    rows: any[];
+    affectedRows?: number;
+    changedRows?: number;
+    insertId?: number | string;
+    warningCount?: number;
+    warnings?: QueryWarning[];
+    executionTime?: number;
+  };
+  error?: string;
+  // 错误码和出错位置
+  errorInfo?: QueryErrorInfo;
+  // 语句执行中被取消
+  cancelled?: boolean;
+  // 执行计划（执行计划按钮的结果）
+  explain?: ExplainResult;
+}
+
+interface QueryResultTabsProps {
+  results: StatementResult[];
+  connectionId?: string;
+}
+
+const QueryResultTabs: React.FC<QueryResultTabsProps> = ({ results, connectionId }) => {
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  // 脚本执行过程中结果逐条增加，始终显示最新一条；出错时停在出错的语句
+  useEffect(() => {
+    setActiveIndex(Math.max(results.length - 1, 0));
+  }, [results.length]);
+
+  const active = results[activeIndex];
+
+  const renderResult = (result: StatementResult) => {
+    if (result.cancelled) {
+      return <div className="statement-message">语句已取消</div>;
+    }
+    if (result.error) {
+      const info = result.errorInfo;
+      return (
+        <div className="error-message">
+          {result.error}
+          {info && errorCodeLabel(info) && <div className="error-code">{errorCodeLabel(info)}</div>}
+          {info && errorHint(info) && <div className="error-hint">{errorHint(info)}</div>}
+        </div>
+      );
+    }
+    if (result.explain) {
+      return <ExplainPlanView key={activeIndex} explain={result.explain} />;
+    }
+    if (result.data && result.data.columns.length > 0) {
+      return (
+        <DataTable
+          key={activeIndex}
+          columns={result.data.columns}
+          rows={result.data.rows}
+          executionTime={result.data.executionTime}
+          connectionId={connectionId}
+        />
+      );
+    }
+    const data = result.data;
+    return (
+      <div className="statement-message">
+        <div>执行成功（{data?.executionTime ?? 0} ms）</div>
+        <ul className="statement-summary">
+          <li>影响行数：{data?.affectedRows ?? 0}</li>
+          {data?.changedRows !== undefined && <li>变化行数：{data.changedRows}</li>}
+          {data?.insertId !== undefined && <li>自增 ID：{data.insertId}</li>}
+          {data?.warningCount !== undefined && <li>警告：{data.warningCount}</li>}
+        </ul>
+      </div>
+    );
+  };
+
+  // 结果下方的消息区，显示语句产生的警告
+  const renderWarnings = (result: StatementResult) => {
+    const warnings = result.data?.warnings;
+    if (!warnings || warnings.length === 0) return null;
+    return (
+      <div className="statement-warnings">
+        <div className="statement-warnings-title">消息（{warnings.length} 条警告）</div>
+        <table>
+          <tbody>
+            {warnings.map((warning, index) => (
+              <tr key={index}>
+                <td className={`warning-level ${warning.level.toLowerCase()}`}>{warning.level}</td>
+                <td className="warning-code">{warning.code}</td>
+                <td>{warning.message}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    );
+  };
+
+  return (
+    <div className="query-result-tabs">
+      {results.length > 1 && (
+        <div className="result-tab-bar">
+          {results.map((result, index) => (
+            <button
+              key={index}
+              className={`result-tab ${index === activeIndex ? 'active' : ''} ${result.error ? 'failed' : ''}`}
+              onClick={() => setActiveIndex(index)}
+              title={result.sql}
+            >
+              {result.error ? '✕ ' : result.data?.warningCount ? '⚠ ' : ''}结果 {index + 1}
+            </button>
+          ))}
+        </div>
+      )}
+      <div className="result-tab-content">
+        {active && renderResult(active)}
+      </div>
+      {active && renderWarnings(active)}
+    </div>
+  );
+};
+
+export default QueryResultTabs;
@@ -0,0 +1,137 @@
+import React, { useEffect, useState } from 'react';
+import type { QueryTab } from '../utils/queryTabs';
+import './QueryTabBar.css';
+
+interface QueryTabBarProps {
+  tabs: QueryTab[];
+  activeId: string;
+  // 标签页提示中显示的绑定连接名称
+  connectionName: (connectionId: string | null) => string;
+  onSelect: (id: string) => void;
+  onAdd: () => void;
+  onClose: (id: string) => void;
+  onCloseOthers: (id: string) => void;
+  onRename: (id: string, title: string) => void;
+  onMove: (id: string, targetId: string | null) => void;
+  onPin: (id: string, pinned: boolean) => void;
+}
+
+// 查询标签页栏：双击重命名，拖动排序，右键菜单固定、关闭
+const QueryTabBar: React.FC<QueryTabBarProps> = ({
+  tabs,
+  activeId,
+  connectionName,
+  onSelect,
+  onAdd,
+  onClose,
+  onCloseOthers,
+  onRename,
+  onMove,
+  onPin,
+}) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingTitle, setEditingTitle] = useState('');
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [contextMenu, setContextMenu] = useState<{ x: number; y: number; tab: QueryTab } | null>(null);
+
+  useEffect(() => {
+    const handleClick = () => setContextMenu(null);
+    document.addEventListener('click', handleClick);
+    return () => document.removeEventListener('click', handleClick);
+  }, []);
+
+  const startRename = (tab: QueryTab) => {
+    setEditingId(tab.id);
+    setEditingTitle(tab.title);
+  };
+
+  const finishRename = () => {
+    if (editingId && editingTitle.trim()) {
+      onRename(editingId, editingTitle.trim());
+    }
+    setEditingId(null);
+  };
+
+  const handleDrop = (e: React.DragEvent, targetId: string | null) => {
+    e.preventDefault();
+    e.stopPropagation();
+    if (draggingId) {
+      onMove(draggingId, targetId);
+    }
+    setDraggingId(null);
+  };
+
+  return (
+    <div className="query-tab-bar" onDragOver={(e) => e.preventDefault()} onDrop={(e) => handleDrop(e, null)}>
+      {tabs.map(tab => (
+        <div
+          key={tab.id}
+          className={`query-tab${tab.id === activeId ? ' active' : ''}${tab.pinned ? ' pinned' : ''}${tab.id === draggingId ? ' dragging' : ''}`}
+          title={`${tab.title}\n${connectionName(tab.connectionId)}${tab.database ? ` / ${tab.database}` : ''}`}
+          draggable={editingId !== tab.id}
+          onDragStart={() => setDraggingId(tab.id)}
+          onDragEnd={() => setDraggingId(null)}
+          onDragOver={(e) => e.preventDefault()}
+          onDrop={(e) => handleDrop(e, tab.id)}
+          onClick={() => onSelect(tab.id)}
+          onDoubleClick={() => startRename(tab)}
+          onContextMenu={(e) => {
+            e.preventDefault();
+            setContextMenu({ x: e.clientX, y: e.clientY, tab });
+          }}
+        >
+          {tab.pinned && <span className="query-tab-pin">📌</span>}
+          {editingId === tab.id ? (
+            <input
+              className="query-tab-input"
+              value={editingTitle}
+              autoFocus
+              onChange={(e) => setEditingTitle(e.target.value)}
+              onBlur={finishRename}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') finishRename();
+                if (e.key === 'Escape') setEditingId(null);
+              }}
+              onClick={(e) => e.stopPropagation()}
+            />
+          ) : (
+            <span className="query-tab-title">{tab.title}</span>
+          )}
+          {!tab.pinned && (
+            <button
+              className="query-tab-close"
+              onClick={(e) => {
+                e.stopPropagation();
+                onClose(tab.id);
+              }}
+            >
+              ×
+            </button>
+          )}
+        </div>
+      ))}
+      <button className="query-tab-add" onClick={onAdd} title="新建查询">+</button>
+
+      {contextMenu && (
+        <div className="context-menu" style={{ left: contextMenu.x, top: contextMenu.y }}>
+          <div className="context-menu-item" onClick={() => startRename(contextMenu.tab)}>
+            重命名
+          </div>
+          <div className="context-menu-item" onClick={() => onPin(contextMenu.tab.id, !contextMenu.tab.pinned)}>
+            {contextMenu.tab.pinned ? '取消固定' : '固定'}
+          </div>
+          {!contextMenu.tab.pinned && (
+            <div className="context-menu-item" onClick={() => onClose(contextMenu.tab.id)}>
+              关闭
+            </div>
+          )}
+          <div className="context-menu-item" onClick={() => onCloseOthers(contextMenu.tab.id)}>
+            关闭其他
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default QueryTabBar;
@@ -0,0 +1,101 @@
+import React, { useState } from 'react';
+
+// 主进程 Snippet
+export interface Snippet {
+  id: string;
+  name: string;
+  folder: string;
+  description: string;
+  sql: string;
+  connectionId?: string;
+  updatedAt: number;
+}
+
+export type SnippetInput = Omit<Snippet, 'id' | 'updatedAt'> & { id?: string };
+
+interface SnippetDialogProps {
+  // 编辑已有片段时传入，否则为新建
+  snippet?: Snippet;
+  // 新建时的初始 SQL（当前编辑器内容）
+  initialSql?: string;
+  connectionId: string;
+  folders: string[];
+  onSave: (snippet: SnippetInput) => Promise<void>;
+  onClose: () => void;
+}
+
+const SnippetDialog: React.FC<SnippetDialogProps> = ({ snippet, initialSql = '', connectionId, folders, onSave, onClose }) => {
+  const [name, setName] = useState(snippet?.name || '');
+  const [folder, setFolder] = useState(snippet?.folder || '');
+  const [description, setDescription] = useState(snippet?.description || '');
+  const [sql, setSql] = useState(snippet?.sql ?? initialSql);
+  // 绑定到其他连接的片段保持原绑定，可以取消绑定
+  const [boundConnection, setBoundConnection] = useState(snippet?.connectionId);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSave = async () => {
+    if (!name.trim()) {
+      setError('请输入名称');
+      return;
+    }
+    if (!sql.trim()) {
+      setError('请输入 SQL');
+      return;
+    }
+    setSaving(true);
+    try {
+      await onSave({ id: snippet?.id, name, folder, description, sql, connectionId: boundConnection });
+    } catch (err: any) {
+      setError(err.message);
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="modal-overlay">
+      <div className="modal snippet-modal">
+        <div className="modal-header">
+          <h3>{snippet ? '编辑查询片段' : '保存查询片段'}</h3>
+          <button className="btn-close" onClick={onClose}>×</button>
+        </div>
+        <div className="modal-body">
+          <div className="form-group">
+            <label>名称</label>
+            <input type="text" value={name} onChange={(e) => setName(e.target.value)} autoFocus />
+          </div>
+          <div className="form-group">
+            <label>文件夹（用 / 分隔多级，留空放在根目录）</label>
+            <input type="text" value={folder} onChange={(e) => setFolder(e.target.value)} list="snippet-folders" />
+            <datalist id="snippet-folders">
+              {folders.map(f => <option key={f} value={f} />)}
+            </datalist>
+          </div>
+          <div className="form-group">
+            <label>说明</label>
+            <input type="text" value={description} onChange={(e) => setDescription(e.target.value)} />
+          </div>
+          <div className="form-group">
+            <label>SQL（可使用 ?、:name 或 {'${name}'} 参数，执行时在参数面板中填写）</label>
+            <textarea className="snippet-sql-input" value={sql} onChange={(e) => setSql(e.target.value)} />
+          </div>
+          <label className="snippet-bind">
+            <input
+              type="checkbox"
+              checked={!!boundConnection}
+              onChange={(e) => setBoundConnection(e.target.checked ? (snippet?.connectionId || connectionId) : undefined)}
+            />
+            {boundConnection && boundConnection !== connectionId ? '仅用于原绑定的连接' : '仅用于当前连接'}
+          </label>
+          {error && <div className="error-message">{error}</div>}
+        </div>
+        <div className="modal-footer">
+          <button className="btn-secondary" onClick={onClose}>取消</button>
+          <button className="btn-primary" onClick={handleSave} disabled={saving}>保存</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SnippetDialog;
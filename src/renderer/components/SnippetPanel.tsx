@@ -0,0 +1,191 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import SnippetDialog, { Snippet, SnippetInput } from './SnippetDialog';
+import './SnippetPanel.css';
+
+interface SnippetPanelProps {
+  connectionId: string;
+  // 当前编辑器内容，“保存当前查询”时使用
+  currentSql: string;
+  onLoad: (snippet: Snippet) => void;
+  onRun: (snippet: Snippet) => void;
+}
+
+const SnippetPanel: React.FC<SnippetPanelProps> = ({ connectionId, currentSql, onLoad, onRun }) => {
+  const [snippets, setSnippets] = useState<Snippet[]>([]);
+  const [connectionNames, setConnectionNames] = useState<Record<string, string>>({});
+  const [search, setSearch] = useState('');
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  // null: 未打开对话框；{}: 新建；{ snippet }: 编辑
+  const [editing, setEditing] = useState<{ snippet?: Snippet } | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const loadSnippets = async () => {
+    const result = await window.electronAPI.listSnippets();
+    if (result.success) {
+      setSnippets(result.data);
+    } else {
+      setMessage(result.error);
+    }
+  };
+
+  useEffect(() => {
+    loadSnippets();
+    window.electronAPI.listProfiles().then((result: any) => {
+      if (result.success) {
+        setConnectionNames(Object.fromEntries(result.data.map((p: { id: string; name: string }) => [p.id, p.name])));
+      }
+    });
+  }, []);
+
+  const folders = useMemo(
+    () => Array.from(new Set(snippets.map(s => s.folder).filter(Boolean))).sort(),
+    [snippets]
+  );
+
+  // 按文件夹分组，根目录的片段排在最前
+  const groups = useMemo(() => {
+    const keyword = search.trim().toLowerCase();
+    const matched = keyword
+      ? snippets.filter(s =>
+          [s.name, s.folder, s.description, s.sql].some(text => text.toLowerCase().includes(keyword))
+        )
+      : snippets;
+    const map = new Map<string, Snippet[]>();
+    for (const snippet of matched) {
+      const list = map.get(snippet.folder) || [];
+      list.push(snippet);
+      map.set(snippet.folder, list);
+    }
+    return Array.from(map).sort(([a], [b]) => (a === '' ? -1 : b === '' ? 1 : a.localeCompare(b)));
+  }, [snippets, search]);
+
+  const toggleFolder = (folder: string) => {
+    setCollapsed(prev => {
+      const next = new Set(prev);
+      if (next.has(folder)) {
+        next.delete(folder);
+      } else {
+        next.add(folder);
+      }
+      return next;
+    });
+  };
+
+  const handleSave = async (input: SnippetInput) => {
+    const result = await window.electronAPI.saveSnippet(input);
+    if (!result.success) {
+      throw new Error(result.error);
+    }
+    setEditing(null);
+    await loadSnippets();
+  };
+
+  const handleDelete = async (snippet: Snippet) => {
+    if (!confirm(`确定要删除查询片段 "${snippet.name}" 吗？`)) return;
+    const result = await window.electronAPI.deleteSnippet(snippet.id);
+    if (result.success) {
+      await loadSnippets();
+    } else {
+      setMessage(result.error);
+    }
+  };
+
+  const handleExport = async () => {
+    const result = await window.electronAPI.exportSnippets();
+    if (!result.success) {
+      setMessage(result.error);
+    } else if (result.data !== null) {
+      setMessage(`已导出 ${result.data} 个查询片段`);
+    }
+  };
+
+  const handleImport = async () => {
+    const result = await window.electronAPI.importSnippets();
+    if (!result.success) {
+      setMessage(result.error);
+    } else if (result.data !== null) {
+      setMessage(`已导入 ${result.data} 个查询片段`);
+      await loadSnippets();
+    }
+  };
+
+  const renderSnippet = (snippet: Snippet) => {
+    const boundElsewhere = !!snippet.connectionId && snippet.connectionId !== connectionId;
+    const bindingName = snippet.connectionId && (connectionNames[snippet.connectionId] || '其他连接');
+    return (
+      <div
+        key={snippet.id}
+        className={`snippet-item ${boundElsewhere ? 'unavailable' : ''}`}
+        title={[snippet.description, snippet.sql].filter(Boolean).join('\n\n')}
+        onDoubleClick={() => onLoad(snippet)}
+      >
+        <div className="snippet-name">
+          {snippet.name}
+          {bindingName && <span className="snippet-binding">{bindingName}</span>}
+        </div>
+        {snippet.description && <div className="snippet-description">{snippet.description}</div>}
+        <div className="snippet-actions">
+          <button onClick={() => onLoad(snippet)}>载入</button>
+          <button
+            onClick={() => onRun(snippet)}
+            disabled={boundElsewhere}
+            title={boundElsewhere ? `该片段绑定到 ${bindingName}` : undefined}
+          >
+            执行
+          </button>
+          <button onClick={() => setEditing({ snippet })}>编辑</button>
+          <button onClick={() => handleDelete(snippet)}>删除</button>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="snippet-panel">
+      <div className="snippet-toolbar">
+        <input
+          type="text"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="搜索片段..."
+        />
+        <button onClick={() => setEditing({})} title="将编辑器中的查询保存为片段">保存当前</button>
+      </div>
+      <div className="snippet-toolbar">
+        <button onClick={handleImport}>导入</button>
+        <button onClick={handleExport} disabled={snippets.length === 0}>导出</button>
+      </div>
+      {message && (
+        <div className="snippet-message" onClick={() => setMessage(null)}>{message}</div>
+      )}
+      <div className="snippet-list">
+        {groups.length === 0 && <div className="snippet-empty">{search ? '没有匹配的片段' : '还没有保存的查询片段'}</div>}
+        {groups.map(([folder, items]) =>
+          folder === '' ? (
+            <React.Fragment key="">{items.map(renderSnippet)}</React.Fragment>
+          ) : (
+            <div key={folder} className="snippet-folder">
+              <div className="snippet-folder-name" onClick={() => toggleFolder(folder)}>
+                {collapsed.has(folder) ? '▸' : '▾'} {folder}
+              </div>
+              {!collapsed.has(folder) && items.map(renderSnippet)}
+            </div>
+          )
+        )}
+      </div>
+
+      {editing && (
+        <SnippetDialog
+          snippet={editing.snippet}
+          initialSql={currentSql}
+          connectionId={connectionId}
+          folders={folders}
+          onSave={handleSave}
+          onClose={() => setEditing(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default SnippetPanel;
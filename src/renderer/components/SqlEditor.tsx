@@ -0,0 +1,268 @@
+import { forwardRef, useEffect, useImperativeHandle, useRef } from 'react';
+import { autocompletion, closeBrackets, closeBracketsKeymap, CompletionSource, completionKeymap } from '@codemirror/autocomplete';
+import { defaultKeymap, history, historyKeymap, indentWithTab } from '@codemirror/commands';
+import { MySQL, PostgreSQL, SQLite, sql } from '@codemirror/lang-sql';
+import { bracketMatching, HighlightStyle, indentOnInput, syntaxHighlighting } from '@codemirror/language';
+import { highlightSelectionMatches, searchKeymap } from '@codemirror/search';
+import { Compartment, EditorState, Prec, StateEffect, StateField } from '@codemirror/state';
+import {
+  crosshairCursor,
+  Decoration,
+  DecorationSet,
+  drawSelection,
+  dropCursor,
+  EditorView,
+  highlightActiveLine,
+  highlightActiveLineGutter,
+  highlightSpecialChars,
+  keymap,
+  lineNumbers,
+  placeholder as placeholderText,
+  rectangularSelection,
+} from '@codemirror/view';
+import { tags } from '@lezer/highlight';
+import type { DialectName } from '../utils/sqlSplitter';
+
+// 执行方式：default 有选中内容时执行选中部分，否则执行全部；statement 执行光标所在语句
+export type ExecuteMode = 'default' | 'statement';
+
+export interface SqlEditorHandle {
+  // 选中的范围，没有选中内容时为 null；多个选区时取主选区
+  getSelection: () => { from: number; to: number } | null;
+  getCursor: () => number;
+  focus: () => void;
+  // 替换一段内容，可撤销；select 时选中替换后的文本
+  replaceRange: (from: number, to: number, text: string, select?: boolean) => void;
+  // 用波浪线标出出错的范围并把光标移到出错位置，修改内容后标记自动清除
+  markError: (from: number, to: number) => void;
+  clearError: () => void;
+}
+
+interface SqlEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+  dialect?: DialectName;
+  onExecute?: (mode: ExecuteMode) => void;
+  onFormat?: () => void;
+  placeholder?: string;
+  // 自动补全来源，未指定时只补全方言关键字
+  completion?: CompletionSource;
+}
+
+const DIALECTS = {
+  mysql: MySQL,
+  postgresql: PostgreSQL,
+  sqlite: SQLite,
+};
+
+const setErrorMark = StateEffect.define<{ from: number; to: number } | null>();
+const errorMark = Decoration.mark({ class: 'cm-error-mark' });
+
+const errorMarkField = StateField.define<DecorationSet>({
+  create: () => Decoration.none,
+  update(marks, tr) {
+    for (const effect of tr.effects) {
+      if (effect.is(setErrorMark)) {
+        const range = effect.value;
+        return range && range.to > range.from ? Decoration.set([errorMark.range(range.from, range.to)]) : Decoration.none;
+      }
+    }
+    return tr.docChanged ? Decoration.none : marks;
+  },
+  provide: field => EditorView.decorations.from(field),
+});
+
+// 与应用暗色主题一致的配色
+const darkTheme = EditorView.theme(
+  {
+    '&': {
+      height: '100%',
+      backgroundColor: '#1e1e1e',
+      color: '#e0e0e0',
+      fontSize: '13px',
+    },
+    '.cm-scroller': {
+      fontFamily: "'Courier New', monospace",
+      lineHeight: '1.6',
+    },
+    '.cm-content': { caretColor: '#ffffff' },
+    '.cm-cursor, .cm-dropCursor': { borderLeftColor: '#ffffff' },
+    '&.cm-focused .cm-selectionBackground, .cm-selectionBackground, .cm-content ::selection': {
+      backgroundColor: '#264f78',
+    },
+    '.cm-gutters': {
+      backgroundColor: '#1e1e1e',
+      color: '#666',
+      borderRight: '1px solid #3d3d3d',
+    },
+    '.cm-activeLine': { backgroundColor: '#2a2a2a' },
+    '.cm-activeLineGutter': { backgroundColor: '#2a2a2a', color: '#aaa' },
+    '.cm-selectionMatch': { backgroundColor: '#3a3d41' },
+    '&.cm-focused .cm-matchingBracket': { backgroundColor: '#3a4a5a', outline: '1px solid #5a7a9a' },
+    '&.cm-focused .cm-nonmatchingBracket': { backgroundColor: '#5a2a2a' },
+    '.cm-searchMatch': { backgroundColor: '#613214', outline: '1px solid #8a4a20' },
+    '.cm-searchMatch.cm-searchMatch-selected': { backgroundColor: '#8a4a20' },
+    '.cm-panels': { backgroundColor: '#2d2d2d', color: '#e0e0e0' },
+    '.cm-panels.cm-panels-top': { borderBottom: '1px solid #3d3d3d' },
+    '.cm-panels.cm-panels-bottom': { borderTop: '1px solid #3d3d3d' },
+    '.cm-textfield': { backgroundColor: '#1e1e1e', border: '1px solid #3d3d3d', color: '#e0e0e0' },
+    '.cm-button': { backgroundImage: 'none', backgroundColor: '#3d3d3d', border: 'none', color: '#e0e0e0' },
+    '.cm-tooltip': { backgroundColor: '#252525', border: '1px solid #3d3d3d', color: '#e0e0e0' },
+    '.cm-tooltip-autocomplete > ul > li[aria-selected]': { backgroundColor: '#094771', color: '#ffffff' },
+    '.cm-placeholder': { color: '#666' },
+    '.cm-error-mark': { textDecoration: 'underline wavy #ff6b6b', textUnderlineOffset: '3px' },
+  },
+  { dark: true }
+);
+
+const highlightStyle = HighlightStyle.define([
+  { tag: tags.keyword, color: '#569cd6' },
+  { tag: [tags.operatorKeyword, tags.modifier], color: '#569cd6' },
+  { tag: [tags.typeName, tags.standard(tags.name)], color: '#4ec9b0' },
+  { tag: [tags.string, tags.special(tags.string)], color: '#ce9178' },
+  { tag: [tags.number, tags.bool, tags.null], color: '#b5cea8' },
+  { tag: [tags.lineComment, tags.blockComment], color: '#6a9955', fontStyle: 'italic' },
+  { tag: [tags.special(tags.name), tags.variableName], color: '#9cdcfe' },
+  { tag: tags.operator, color: '#d4d4d4' },
+  { tag: [tags.punctuation, tags.bracket], color: '#d4d4d4' },
+]);
+
+/**
+ * SQL 代码编辑器（CodeMirror）：按方言高亮、行号、括号匹配、多光标（Alt 拖动或 Ctrl/⌘ 点击）、
+ * 查找替换（Ctrl/⌘+F）、注释切换（Ctrl/⌘+/）、Tab 缩进。
+ * Ctrl/⌘+Enter 执行（有选中内容时只执行选中部分），Shift+Ctrl/⌘+Enter 执行光标所在语句，
+ * Shift+Alt+F 格式化。
+ */
+const SqlEditor = forwardRef<SqlEditorHandle, SqlEditorProps>(
+  ({ value, onChange, dialect = 'mysql', onExecute, onFormat, placeholder = '', completion }, ref) => {
+    const containerRef = useRef<HTMLDivElement>(null);
+    const viewRef = useRef<EditorView | null>(null);
+    const language = useRef(new Compartment()).current;
+    const completions = useRef(new Compartment()).current;
+    // 扩展只创建一次，回调通过 ref 取最新值
+    const onChangeRef = useRef(onChange);
+    const onExecuteRef = useRef(onExecute);
+    const onFormatRef = useRef(onFormat);
+    onChangeRef.current = onChange;
+    onExecuteRef.current = onExecute;
+    onFormatRef.current = onFormat;
+
+    useEffect(() => {
+      const execute = (mode: ExecuteMode) => () => {
+        onExecuteRef.current?.(mode);
+        return true;
+      };
+
+      const view = new EditorView({
+        parent: containerRef.current!,
+        state: EditorState.create({
+          doc: value,
+          extensions: [
+            Prec.highest(keymap.of([
+              { key: 'Mod-Enter', run: execute('default') },
+              { key: 'Shift-Mod-Enter', run: execute('statement') },
+              {
+                key: 'Shift-Alt-f',
+                run: () => {
+                  onFormatRef.current?.();
+                  return true;
+                },
+              },
+            ])),
+            lineNumbers(),
+            highlightActiveLineGutter(),
+            highlightSpecialChars(),
+            history(),
+            drawSelection(),
+            dropCursor(),
+            EditorState.allowMultipleSelections.of(true),
+            indentOnInput(),
+            syntaxHighlighting(highlightStyle),
+            bracketMatching(),
+            closeBrackets(),
+            completions.of(autocompletion({ override: completion ? [completion] : undefined })),
+            rectangularSelection(),
+            crosshairCursor(),
+            highlightActiveLine(),
+            highlightSelectionMatches(),
+            keymap.of([
+              ...closeBracketsKeymap,
+              ...defaultKeymap,
+              ...searchKeymap,
+              ...historyKeymap,
+              ...completionKeymap,
+              indentWithTab,
+            ]),
+            language.of(sql({ dialect: DIALECTS[dialect] })),
+            placeholderText(placeholder),
+            errorMarkField,
+            darkTheme,
+            EditorView.updateListener.of(update => {
+              if (update.docChanged) {
+                onChangeRef.current(update.state.doc.toString());
+              }
+            }),
+          ],
+        }),
+      });
+      viewRef.current = view;
+      return () => {
+        view.destroy();
+        viewRef.current = null;
+      };
+    }, []);
+
+    // 外部修改内容（载入历史、片段）时同步到编辑器
+    useEffect(() => {
+      const view = viewRef.current;
+      if (view && view.state.doc.toString() !== value) {
+        view.dispatch({ changes: { from: 0, to: view.state.doc.length, insert: value } });
+      }
+    }, [value]);
+
+    useEffect(() => {
+      viewRef.current?.dispatch({ effects: language.reconfigure(sql({ dialect: DIALECTS[dialect] })) });
+    }, [dialect]);
+
+    useEffect(() => {
+      viewRef.current?.dispatch({
+        effects: completions.reconfigure(autocompletion({ override: completion ? [completion] : undefined })),
+      });
+    }, [completion]);
+
+    useImperativeHandle(ref, () => ({
+      getSelection: () => {
+        const range = viewRef.current?.state.selection.main;
+        return range && !range.empty ? { from: range.from, to: range.to } : null;
+      },
+      getCursor: () => viewRef.current?.state.selection.main.head ?? 0,
+      focus: () => viewRef.current?.focus(),
+      replaceRange: (from, to, text, select) => {
+        viewRef.current?.dispatch({
+          changes: { from, to, insert: text },
+          selection: select ? { anchor: from, head: from + text.length } : undefined,
+          scrollIntoView: true,
+        });
+      },
+      markError: (from, to) => {
+        const view = viewRef.current;
+        if (!view) return;
+        const length = view.state.doc.length;
+        const start = Math.min(from, length);
+        view.dispatch({
+          effects: setErrorMark.of({ from: start, to: Math.min(to, length) }),
+          selection: { anchor: start },
+          scrollIntoView: true,
+        });
+        view.focus();
+      },
+      clearError: () => {
+        viewRef.current?.dispatch({ effects: setErrorMark.of(null) });
+      },
+    }));
+
+    return <div className="sql-editor" ref={containerRef} />;
+  }
+);
+
+export default SqlEditor;
@@ -1,4 +1,5 @@
 import React, { useState, useEffect } from 'react';
+import { useDialect, parseType, getTypeInfo, getDefaultValueOptions, INDEX_TYPE_LABELS } from '../utils/dialect';
 import './TableStructureDialog.css';
 
 interface ColumnInfo {
@@ -54,112 +55,8 @@ interface TableStructureDialogProps {
   onChanged: () => void;
 }
 
-// 基础类型
-const BASE_TYPES = [
-  { value: 'INT', label: 'INT', hasLength: false },
-  { value: 'BIGINT', label: 'BIGINT', hasLength: false },
-  { value: 'SMALLINT', label: 'SMALLINT', hasLength: false },
-  { value: 'TINYINT', label: 'TINYINT', hasLength: false },
-  { value: 'VARCHAR', label: 'VARCHAR', hasLength: true, defaultLength: '255' },
-  { value: 'CHAR', label: 'CHAR', hasLength: true, defaultLength: '50' },
-  { value: 'TEXT', label: 'TEXT', hasLength: false },
-  { value: 'LONGTEXT', label: 'LONGTEXT', hasLength: false },
-  { value: 'MEDIUMTEXT', label: 'MEDIUMTEXT', hasLength: false },
-  { value: 'DECIMAL', label: 'DECIMAL', hasLength: true, defaultLength: '10,2' },
-  { value: 'FLOAT', label: 'FLOAT', hasLength: false },
-  { value: 'DOUBLE', label: 'DOUBLE', hasLength: false },
-  { value: 'DATE', label: 'DATE', hasLength: false },
-  { value: 'DATETIME', label: 'DATETIME', hasLength: false },
-  { value: 'TIMESTAMP', label: 'TIMESTAMP', hasLength: false },
-  { value: 'TIME', label: 'TIME', hasLength: false },
-  { value: 'YEAR', label: 'YEAR', hasLength: false },
-  { value: 'BOOLEAN', label: 'BOOLEAN', hasLength: false },
-  { value: 'ENUM', label: 'ENUM', hasLength: true, defaultLength: "'v1','v2'" },
-  { value: 'SET', label: 'SET', hasLength: true, defaultLength: "'v1','v2'" },
-  { value: 'JSON', label: 'JSON', hasLength: false },
-  { value: 'BLOB', label: 'BLOB', hasLength: false },
-  { value: 'BINARY', label: 'BINARY', hasLength: true, defaultLength: '255' },
-  { value: 'VARBINARY', label: 'VARBINARY', hasLength: true, defaultLength: '255' },
-];
-
 const FK_ACTIONS = ['RESTRICT', 'CASCADE', 'SET NULL', 'NO ACTION', 'SET DEFAULT'];
 
-// 默认值选项
-const getDefaultValueOptions = (type: string) => {
-  const baseType = type.toUpperCase();
-  if (baseType.includes('DATETIME') || baseType.includes('TIMESTAMP')) {
-    return [
-      { value: '', label: '无' },
-      { value: 'CURRENT_TIMESTAMP', label: '当前时间' },
-      { value: 'CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP', label: '当前时间并自动更新' },
-      { value: 'NULL', label: 'NULL' },
-      { value: '__custom__', label: '自定义...' },
-    ];
-  }
-  if (baseType.includes('DATE')) {
-    return [
-      { value: '', label: '无' },
-      { value: 'CURRENT_DATE', label: '当前日期' },
-      { value: 'NULL', label: 'NULL' },
-      { value: '__custom__', label: '自定义...' },
-    ];
-  }
-  if (baseType.includes('TIME') && !baseType.includes('TIMESTAMP')) {
-    return [
-      { value: '', label: '无' },
-      { value: 'CURRENT_TIME', label: '当前时间' },
-      { value: 'NULL', label: 'NULL' },
-      { value: '__custom__', label: '自定义...' },
-    ];
-  }
-  if (baseType.includes('INT') || baseType.includes('DECIMAL') || baseType.includes('FLOAT') || baseType.includes('DOUBLE')) {
-    return [
-      { value: '', label: '无' },
-      { value: '0', label: '0' },
-      { value: '1', label: '1' },
-      { value: 'NULL', label: 'NULL' },
-      { value: '__custom__', label: '自定义...' },
-    ];
-  }
-  if (baseType === 'BOOLEAN' || baseType === 'TINYINT') {
-    return [
-      { value: '', label: '无' },
-      { value: '0', label: 'FALSE (0)' },
-      { value: '1', label: 'TRUE (1)' },
-      { value: 'NULL', label: 'NULL' },
-    ];
-  }
-  if (baseType.includes('CHAR') || baseType.includes('TEXT')) {
-    return [
-      { value: '', label: '无' },
-      { value: "''", label: "空字符串" },
-      { value: 'NULL', label: 'NULL' },
-      { value: '__custom__', label: '自定义...' },
-    ];
-  }
-  return [
-    { value: '', label: '无' },
-    { value: 'NULL', label: 'NULL' },
-    { value: '__custom__', label: '自定义...' },
-  ];
-};
-
-// 解析类型字符串
-const parseType = (typeStr: string) => {
-  const isUnsigned = typeStr.toLowerCase().includes('unsigned');
-  const cleanType = typeStr.replace(/\s*unsigned\s*/i, '');
-  const match = cleanType.match(/^(\w+)(?:\((.+)\))?/i);
-  if (match) {
-    return { baseType: match[1].toUpperCase(), length: match[2] || '', unsigned: isUnsigned };
-  }
-  return { baseType: cleanType.toUpperCase(), length: '', unsigned: isUnsigned };
-};
-
-// 获取类型信息
-const getTypeInfo = (type: string) => {
-  return BASE_TYPES.find(t => t.value === type) || { hasLength: false, defaultLength: '' };
-};
-
 const TableStructureDialog: React.FC<TableStructureDialogProps> = ({
   connectionId,
   database,
@@ -177,12 +74,16 @@ const TableStructureDialog: React.FC<TableStructureDialogProps> = ({
   const [activeTab, setActiveTab] = useState<'columns' | 'indexes' | 'foreignKeys'>('columns');
   const [allTables, setAllTables] = useState<string[]>([]);
   const [refTableColumns, setRefTableColumns] = useState<Record<string, string[]>>({});
+  const dialect = useDialect(connectionId);
+  const capabilities = dialect?.capabilities;
+  const fkActions = capabilities?.foreignKeyActions || FK_ACTIONS;
 
-  // 初始化
+  // 初始化（类型解析依赖方言中的类型列表）
   useEffect(() => {
+    if (!dialect) return;
     // 初始化列数据
     const cols = initialColumns.map(col => {
-      const parsed = parseType(col.Type);
+      const parsed = parseType(dialect, col.Type);
       return {
         originalName: col.Field,
         name: col.Field,
@@ -207,7 +108,7 @@ const TableStructureDialog: React.FC<TableStructureDialogProps> = ({
     loadForeignKeys();
     // 加载所有表（用于外键引用）
     loadAllTables();
-  }, [initialColumns]);
+  }, [initialColumns, dialect]);
 
   const loadIndexes = async () => {
     try {
@@ -328,7 +229,7 @@ const TableStructureDialog: React.FC<TableStructureDialogProps> = ({
       updated[index].nullable = false;
     }
     if (field === 'baseType') {
-      const typeInfo = getTypeInfo(value);
+      const typeInfo = getTypeInfo(dialect, value);
       if (typeInfo.hasLength && typeInfo.defaultLength) {
         updated[index].length = typeInfo.defaultLength;
       } else {
@@ -424,7 +325,7 @@ const TableStructureDialog: React.FC<TableStructureDialogProps> = ({
   };
 
   const getFullType = (col: EditColumn) => {
-    const typeInfo = getTypeInfo(col.baseType);
+    const typeInfo = getTypeInfo(dialect, col.baseType);
     let type = col.baseType;
     if (typeInfo.hasLength && col.length) {
       type = `${col.baseType}(${col.length})`;
@@ -445,9 +346,7 @@ const TableStructureDialog: React.FC<TableStructureDialogProps> = ({
 
       // 1. 重命名表
       if (tableName !== table) {
-        const result = await window.electronAPI.executeQuery(
-          connectionId, database, `RENAME TABLE \`${table}\` TO \`${tableName}\``
-        );
+        const result = await window.electronAPI.renameTable(connectionId, database, table, tableName);
         if (!result.success) {
           alert('重命名表失败: ' + result.error);
           setLoading(false);
@@ -561,7 +460,7 @@ const TableStructureDialog: React.FC<TableStructureDialogProps> = ({
                       <th>长度</th>
                       <th>主键</th>
                       <th>自增</th>
-                      <th>无符号</th>
+                      {capabilities?.unsigned && <th>无符号</th>}
                       <th>可空</th>
                       <th>唯一</th>
                       <th>默认值</th>
@@ -571,11 +470,11 @@ const TableStructureDialog: React.FC<TableStructureDialogProps> = ({
                   <tbody>
                     {editColumns.map((col, idx) => {
                       if (col.deleted) return null;
-                      const typeInfo = getTypeInfo(col.baseType);
-                      const defaultOptions = getDefaultValueOptions(col.baseType);
+                      const typeInfo = getTypeInfo(dialect, col.baseType);
+                      const defaultOptions = getDefaultValueOptions(dialect, col.baseType);
                       const isCustomDefault = customDefaults[idx];
-                      const isIntType = ['INT', 'BIGINT', 'SMALLINT', 'TINYINT'].includes(col.baseType);
-                      const isNumericType = isIntType || ['DECIMAL', 'FLOAT', 'DOUBLE'].includes(col.baseType);
+                      const isIntType = typeInfo.category === 'integer';
+                      const isNumericType = isIntType || typeInfo.category === 'decimal';
                       
                       return (
                         <tr key={idx} className={col.isNew ? 'new-column' : ''}>
@@ -584,8 +483,8 @@ const TableStructureDialog: React.FC<TableStructureDialogProps> = ({
                           </td>
                           <td>
                             <select value={col.baseType} onChange={(e) => updateColumn(idx, 'baseType', e.target.value)}>
-                              {BASE_TYPES.map(t => <option key={t.value} value={t.value}>{t.label}</option>)}
-                              {!BASE_TYPES.find(t => t.value === col.baseType) && <option value={col.baseType}>{col.baseType}</option>}
+                              {(dialect?.dataTypes || []).map(t => <option key={t.value} value={t.value}>{t.value}</option>)}
+                              {!dialect?.dataTypes.find(t => t.value === col.baseType) && <option value={col.baseType}>{col.baseType}</option>}
                             </select>
                           </td>
                           <td>
@@ -597,11 +496,13 @@ const TableStructureDialog: React.FC<TableStructureDialogProps> = ({
                             <input type="checkbox" checked={col.isPrimaryKey} onChange={(e) => updateColumn(idx, 'isPrimaryKey', e.target.checked)} />
                           </td>
                           <td className="center">
-                            <input type="checkbox" checked={col.isAutoIncrement} onChange={(e) => updateColumn(idx, 'isAutoIncrement', e.target.checked)} disabled={!isIntType} />
-                          </td>
-                          <td className="center">
-                            <input type="checkbox" checked={col.unsigned} onChange={(e) => updateColumn(idx, 'unsigned', e.target.checked)} disabled={!isNumericType} />
+                            <input type="checkbox" checked={col.isAutoIncrement} onChange={(e) => updateColumn(idx, 'isAutoIncrement', e.target.checked)} disabled={!capabilities?.autoIncrement || !isIntType} />
                           </td>
+                          {capabilities?.unsigned && (
+                            <td className="center">
+                              <input type="checkbox" checked={col.unsigned} onChange={(e) => updateColumn(idx, 'unsigned', e.target.checked)} disabled={!isNumericType} />
+                            </td>
+                          )}
                           <td className="center">
                             <input type="checkbox" checked={col.nullable} onChange={(e) => updateColumn(idx, 'nullable', e.target.checked)} disabled={col.isPrimaryKey} />
                           </td>
@@ -668,9 +569,10 @@ const TableStructureDialog: React.FC<TableStructureDialogProps> = ({
                           <input type="text" value={idx.name} onChange={(e) => updateIndex(i, 'name', e.target.value)}
                             placeholder="索引名称" className="index-name" disabled={!idx.isNew} />
                           <select value={idx.type} onChange={(e) => updateIndex(i, 'type', e.target.value as any)} className="index-type" disabled={!idx.isNew}>
-                            <option value="INDEX">普通索引</option>
-                            <option value="UNIQUE">唯一索引</option>
-                            <option value="FULLTEXT">全文索引</option>
+                            {(capabilities?.indexTypes || ['INDEX', 'UNIQUE']).map(t => (
+                              <option key={t} value={t}>{INDEX_TYPE_LABELS[t]}</option>
+                            ))}
+                            {!capabilities?.indexTypes.includes(idx.type) && <option value={idx.type}>{INDEX_TYPE_LABELS[idx.type]}</option>}
                           </select>
                           <button className="btn-remove-column" onClick={() => removeIndex(i)}>🗑️</button>
                         </div>
@@ -739,13 +641,13 @@ const TableStructureDialog: React.FC<TableStructureDialogProps> = ({
                           <div className="fk-field">
                             <label>ON DELETE</label>
                             <select value={fk.onDelete} onChange={(e) => updateForeignKey(i, 'onDelete', e.target.value)} disabled={!fk.isNew}>
-                              {FK_ACTIONS.map(a => <option key={a} value={a}>{a}</option>)}
+                              {fkActions.map(a => <option key={a} value={a}>{a}</option>)}
                             </select>
                           </div>
                           <div className="fk-field">
                             <label>ON UPDATE</label>
                             <select value={fk.onUpdate} onChange={(e) => updateForeignKey(i, 'onUpdate', e.target.value)} disabled={!fk.isNew}>
-                              {FK_ACTIONS.map(a => <option key={a} value={a}>{a}</option>)}
+                              {fkActions.map(a => <option key={a} value={a}>{a}</option>)}
                             </select>
                           </div>
                         </div>
@@ -0,0 +1,180 @@
+import { useEffect, useState } from 'react';
+
+// 与主进程 drivers/types.ts 中的方言信息保持一致
+export type TypeCategory =
+  | 'integer'
+  | 'decimal'
+  | 'string'
+  | 'text'
+  | 'date'
+  | 'datetime'
+  | 'time'
+  | 'boolean'
+  | 'json'
+  | 'binary'
+  | 'enum'
+  | 'other';
+
+export interface DataTypeInfo {
+  value: string;
+  category: TypeCategory;
+  hasLength: boolean;
+  defaultLength?: string;
+}
+
+export interface DriverCapabilities {
+  schemas: boolean;
+  unsigned: boolean;
+  columnComments: boolean;
+  autoIncrement: boolean;
+  onUpdateTimestamp: boolean;
+  indexTypes: Array<'INDEX' | 'UNIQUE' | 'FULLTEXT'>;
+  foreignKeyActions: string[];
+}
+
+export interface DialectInfo {
+  name: 'mysql' | 'postgresql' | 'sqlite';
+  identifierQuote: string;
+  dataTypes: DataTypeInfo[];
+  capabilities: DriverCapabilities;
+}
+
+export const INDEX_TYPE_LABELS: Record<string, string> = {
+  INDEX: '普通索引',
+  UNIQUE: '唯一索引',
+  FULLTEXT: '全文索引',
+};
+
+// 加载连接对应的方言信息
+export const useDialect = (connectionId?: string | null): DialectInfo | null => {
+  const [dialect, setDialect] = useState<DialectInfo | null>(null);
+
+  useEffect(() => {
+    setDialect(null);
+    if (!connectionId) return;
+    let cancelled = false;
+    window.electronAPI.getDialect(connectionId).then((result: any) => {
+      if (!cancelled && result.success) {
+        setDialect(result.data);
+      }
+    }).catch((e: any) => {
+      console.error('加载数据库方言失败', e);
+    });
+    return () => { cancelled = true; };
+  }, [connectionId]);
+
+  return dialect;
+};
+
+// 解析类型字符串，如 varchar(255) / int unsigned / double precision
+export const parseType = (dialect: DialectInfo | null, typeStr: string) => {
+  const isUnsigned = /\bunsigned\b/i.test(typeStr);
+  const cleanType = typeStr.replace(/\s*\bunsigned\b\s*/i, '').trim();
+  const upper = cleanType.toUpperCase();
+  // 优先匹配类型列表中最长的类型名，以支持带空格的类型
+  const known = (dialect?.dataTypes || [])
+    .map(t => t.value)
+    .filter(v => upper === v || upper.startsWith(`${v}(`) || upper.startsWith(`${v} `))
+    .sort((a, b) => b.length - a.length)[0];
+  const baseType = known || (upper.match(/^(\w+)/)?.[1] ?? upper);
+  const rest = cleanType.slice(baseType.length);
+  const length = rest.match(/^\s*\((.+?)\)/)?.[1] || '';
+  return { baseType, length, unsigned: isUnsigned };
+};
+
+// 获取类型信息
+export const getTypeInfo = (dialect: DialectInfo | null, type: string): DataTypeInfo => {
+  const found = dialect?.dataTypes.find(t => t.value === type.toUpperCase());
+  return found || { value: type, category: 'other', hasLength: false };
+};
+
+// 根据列类型字符串得到分类，tinyint(1) 视为布尔
+export const getTypeCategory = (dialect: DialectInfo | null, typeStr: string): TypeCategory => {
+  if (/^tinyint\(1\)/i.test(typeStr)) return 'boolean';
+  return getTypeInfo(dialect, parseType(dialect, typeStr).baseType).category;
+};
+
+// 按分类取类型列表中的第一个类型，用于新建列时的默认类型
+export const getFirstTypeOf = (dialect: DialectInfo | null, category: TypeCategory): DataTypeInfo | undefined => {
+  return dialect?.dataTypes.find(t => t.category === category);
+};
+
+// 数据编辑时使用的输入控件类型
+export const getInputType = (dialect: DialectInfo | null, typeStr: string): string => {
+  switch (getTypeCategory(dialect, typeStr)) {
+    case 'datetime': return 'datetime-local';
+    case 'date': return 'date';
+    case 'time': return 'time';
+    case 'integer':
+    case 'decimal': return 'number';
+    case 'boolean': return 'checkbox';
+    default: return 'text';
+  }
+};
+
+// 默认值选项
+export const getDefaultValueOptions = (dialect: DialectInfo | null, type: string) => {
+  switch (getTypeInfo(dialect, type).category) {
+    case 'datetime':
+      return [
+        { value: '', label: '无' },
+        { value: 'CURRENT_TIMESTAMP', label: '当前时间 (CURRENT_TIMESTAMP)' },
+        ...(dialect?.capabilities.onUpdateTimestamp
+          ? [{ value: 'CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP', label: '当前时间并自动更新' }]
+          : []),
+        { value: 'NULL', label: 'NULL' },
+        { value: '__custom__', label: '自定义...' },
+      ];
+    case 'date':
+      return [
+        { value: '', label: '无' },
+        { value: 'CURRENT_DATE', label: '当前日期 (CURRENT_DATE)' },
+        { value: 'NULL', label: 'NULL' },
+        { value: '__custom__', label: '自定义...' },
+      ];
+    case 'time':
+      return [
+        { value: '', label: '无' },
+        { value: 'CURRENT_TIME', label: '当前时间 (CURRENT_TIME)' },
+        { value: 'NULL', label: 'NULL' },
+        { value: '__custom__', label: '自定义...' },
+      ];
+    case 'integer':
+    case 'decimal':
+      return [
+        { value: '', label: '无' },
+        { value: '0', label: '0' },
+        { value: '1', label: '1' },
+        { value: 'NULL', label: 'NULL' },
+        { value: '__custom__', label: '自定义...' },
+      ];
+    case 'boolean':
+      return dialect?.name === 'postgresql'
+        ? [
+          { value: '', label: '无' },
+          { value: 'FALSE', label: 'FALSE' },
+          { value: 'TRUE', label: 'TRUE' },
+          { value: 'NULL', label: 'NULL' },
+        ]
+        : [
+          { value: '', label: '无' },
+          { value: '0', label: 'FALSE (0)' },
+          { value: '1', label: 'TRUE (1)' },
+          { value: 'NULL', label: 'NULL' },
+        ];
+    case 'string':
+    case 'text':
+      return [
+        { value: '', label: '无' },
+        { value: "''", label: "空字符串 ('')" },
+        { value: 'NULL', label: 'NULL' },
+        { value: '__custom__', label: '自定义...' },
+      ];
+    default:
+      return [
+        { value: '', label: '无' },
+        { value: 'NULL', label: 'NULL' },
+        { value: '__custom__', label: '自定义...' },
+      ];
+  }
+};
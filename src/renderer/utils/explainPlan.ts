@@ -0,0 +1,168 @@
+import type { DialectName } from './sqlSplitter';
+
+// 主进程 ExplainResult
+export interface ExplainResult {
+  dialect: DialectName;
+  plan: any;
+}
+
+// 统一后的计划节点
+export interface PlanNode {
+  title: string;
+  // MySQL 的 access_type，PostgreSQL 的节点类型
+  accessType?: string;
+  // 预计扫描的行数
+  rows?: number;
+  cost?: number;
+  index?: string;
+  // 全表扫描、文件排序、临时表等需要注意的问题
+  warnings: string[];
+  // 其他原始属性
+  details: Array<[string, string]>;
+  children: PlanNode[];
+}
+
+const FULL_SCAN = '全表扫描';
+const FILESORT = '文件排序';
+const TEMPORARY = '临时表';
+
+const formatValue = (value: any): string =>
+  Array.isArray(value) ? value.join(', ') : typeof value === 'object' ? JSON.stringify(value) : String(value);
+
+const toNumber = (value: any): number | undefined => {
+  const n = typeof value === 'string' ? parseFloat(value) : value;
+  return typeof n === 'number' && Number.isFinite(n) ? n : undefined;
+};
+
+// ---- MySQL：EXPLAIN FORMAT=JSON ----
+
+const MYSQL_TITLES: Record<string, string> = {
+  query_block: '查询块',
+  table: '表',
+  nested_loop: '嵌套循环',
+  ordering_operation: '排序',
+  grouping_operation: '分组',
+  duplicates_removal: '去重',
+  windowing: '窗口函数',
+  union_result: 'UNION 结果',
+  materialized_from_subquery: '物化子查询',
+  buffer_result: '缓冲结果',
+};
+
+// 只在节点中显示为字段、不展开为子节点的对象属性
+const MYSQL_INLINE = new Set(['cost_info']);
+
+const mysqlTitle = (key: string, value: any): string => {
+  const base = MYSQL_TITLES[key] || key;
+  if (key === 'table' && value.table_name) return `${base} ${value.table_name}`;
+  if (key === 'query_block' && value.select_id !== undefined) return `${base} #${value.select_id}`;
+  return base;
+};
+
+const mysqlChildren = (value: any): PlanNode[] => {
+  const children: PlanNode[] = [];
+  for (const [key, child] of Object.entries(value)) {
+    if (MYSQL_INLINE.has(key)) continue;
+    if (Array.isArray(child)) {
+      // nested_loop、query_specifications、attached_subqueries 等数组中的元素是包含子节点的对象
+      for (const item of child) {
+        if (item && typeof item === 'object') children.push(...mysqlChildren(item));
+      }
+    } else if (child && typeof child === 'object') {
+      children.push(mysqlNode(key, child));
+    }
+  }
+  return children;
+};
+
+const mysqlNode = (key: string, value: any): PlanNode => {
+  const cost = value.cost_info || {};
+  const warnings: string[] = [];
+  if (value.access_type === 'ALL') warnings.push(FULL_SCAN);
+  if (value.using_filesort) warnings.push(FILESORT);
+  if (value.using_temporary_table) warnings.push(TEMPORARY);
+
+  const details: Array<[string, string]> = Object.entries(value)
+    .filter(([, v]) => v === null || typeof v !== 'object' || (Array.isArray(v) && v.every(item => typeof item !== 'object')))
+    .map(([k, v]) => [k, formatValue(v)]);
+  for (const [k, v] of Object.entries(cost)) {
+    details.push([`cost_info.${k}`, formatValue(v)]);
+  }
+
+  return {
+    title: mysqlTitle(key, value),
+    accessType: value.access_type,
+    rows: toNumber(value.rows_examined_per_scan),
+    cost: toNumber(cost.query_cost ?? cost.prefix_cost ?? cost.sort_cost),
+    index: value.key,
+    warnings,
+    details,
+    children: mysqlChildren(value),
+  };
+};
+
+// ---- PostgreSQL：EXPLAIN (FORMAT JSON) ----
+
+const PG_FULL_SCANS = new Set(['Seq Scan']);
+const PG_SORTS = new Set(['Sort', 'Incremental Sort']);
+const PG_TEMPORARY = new Set(['Materialize', 'CTE Scan']);
+
+const postgresNode = (plan: any): PlanNode => {
+  const nodeType: string = plan['Node Type'];
+  const relation = plan['Relation Name'] ? ` ${plan['Relation Name']}${plan.Alias && plan.Alias !== plan['Relation Name'] ? ` ${plan.Alias}` : ''}` : '';
+  const join = plan['Join Type'] ? ` (${plan['Join Type']})` : '';
+
+  const warnings: string[] = [];
+  if (PG_FULL_SCANS.has(nodeType)) warnings.push(FULL_SCAN);
+  if (PG_SORTS.has(nodeType)) warnings.push(plan['Sort Space Type'] === 'Disk' ? `${FILESORT}（磁盘）` : FILESORT);
+  if (PG_TEMPORARY.has(nodeType)) warnings.push(TEMPORARY);
+
+  return {
+    title: `${nodeType}${join}${relation}`,
+    accessType: nodeType,
+    rows: toNumber(plan['Plan Rows']),
+    cost: toNumber(plan['Total Cost']),
+    index: plan['Index Name'],
+    warnings,
+    details: Object.entries(plan)
+      .filter(([k]) => k !== 'Plans')
+      .map(([k, v]) => [k, formatValue(v)]),
+    children: (plan.Plans || []).map(postgresNode),
+  };
+};
+
+// ---- SQLite：EXPLAIN QUERY PLAN ----
+
+const sqliteNodes = (rows: any[], parent: number): PlanNode[] =>
+  rows.filter(row => row.parent === parent).map(row => {
+    const detail: string = row.detail;
+    const warnings: string[] = [];
+    // SCAN t 是全表扫描，SCAN t USING INDEX 是按索引顺序扫描
+    if (/^SCAN /.test(detail) && !/USING (COVERING )?INDEX|VIRTUAL TABLE/.test(detail)) warnings.push(FULL_SCAN);
+    if (/USE TEMP B-TREE FOR (ORDER BY|RIGHT PART OF ORDER BY)/.test(detail)) warnings.push(FILESORT);
+    if (/USE TEMP B-TREE FOR (GROUP BY|DISTINCT)|MATERIALIZE/.test(detail)) warnings.push(TEMPORARY);
+    return {
+      title: detail,
+      accessType: /^(SCAN|SEARCH)\b/.exec(detail)?.[1],
+      index: /USING (?:COVERING )?INDEX (\S+)/.exec(detail)?.[1] || (/USING INTEGER PRIMARY KEY/.test(detail) ? 'PRIMARY KEY' : undefined),
+      warnings,
+      details: [],
+      children: sqliteNodes(rows, row.id),
+    };
+  });
+
+// 把各数据库的原始计划转换为统一的节点树
+export const parsePlan = ({ dialect, plan }: ExplainResult): PlanNode[] => {
+  switch (dialect) {
+    case 'mysql':
+      return plan.query_block ? [mysqlNode('query_block', plan.query_block)] : mysqlChildren(plan);
+    case 'postgresql':
+      return (Array.isArray(plan) ? plan : [plan]).filter(p => p?.Plan).map(p => postgresNode(p.Plan));
+    default:
+      return sqliteNodes(plan, 0);
+  }
+};
+
+// 树中所有节点的问题，用于摘要
+export const collectWarnings = (nodes: PlanNode[]): string[] =>
+  nodes.flatMap(node => [...node.warnings.map(w => `${w}：${node.title}`), ...collectWarnings(node.children)]);
@@ -0,0 +1,35 @@
+import type { ParameterValue } from './sqlParameters';
+
+// 按查询记住上次使用的参数值，保存在 localStorage 中
+const STORAGE_KEY = 'query-parameter-values';
+// 最多记住的查询数，超出后丢弃最久未使用的
+const MAX_QUERIES = 200;
+
+type Memory = Array<[string, Record<string, ParameterValue>]>;
+
+// 忽略空白差异，格式调整后仍能找到原来的参数值
+const queryKey = (sql: string) => sql.replace(/\s+/g, ' ').trim();
+
+const read = (): Memory => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+};
+
+export const loadParameterValues = (sql: string): Record<string, ParameterValue> => {
+  const key = queryKey(sql);
+  return read().find(([k]) => k === key)?.[1] || {};
+};
+
+export const saveParameterValues = (sql: string, values: Record<string, ParameterValue>): void => {
+  const key = queryKey(sql);
+  const memory = [[key, values], ...read().filter(([k]) => k !== key)].slice(0, MAX_QUERIES);
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(memory));
+  } catch {
+    // 存储空间不足时不记住参数值
+  }
+};
@@ -0,0 +1,66 @@
+import type { SqlStatement } from './sqlSplitter';
+
+export type QueryErrorKind =
+  | 'syntax'
+  | 'unknown-column'
+  | 'unknown-table'
+  | 'ambiguous-column'
+  | 'duplicate-key'
+  | 'foreign-key'
+  | 'not-null'
+  | 'access-denied';
+
+// 查询失败的详细信息（主进程 QueryErrorInfo），position 为在执行的语句中的偏移
+export interface QueryErrorInfo {
+  message: string;
+  code?: string;
+  errno?: number;
+  sqlState?: string;
+  kind?: QueryErrorKind;
+  position?: number;
+  line?: number;
+  token?: string;
+  hint?: string;
+}
+
+const HINTS: Record<QueryErrorKind, string> = {
+  syntax: '语法错误：检查标出位置附近的关键字拼写、逗号和括号是否配对',
+  'unknown-column': '列不存在：检查列名拼写和表别名，输入“别名.”可查看该表的列',
+  'unknown-table': '表不存在：检查表名拼写和当前选择的数据库，新建的表可在左侧刷新后查看',
+  'ambiguous-column': '列名在多个表中都存在：在列名前加上表名或别名',
+  'duplicate-key': '违反唯一约束：已存在相同主键或唯一索引值的行',
+  'foreign-key': '违反外键约束：引用的行不存在，或该行仍被其他表引用',
+  'not-null': '列不允许为 NULL：为该列提供值或设置默认值',
+  'access-denied': '当前用户没有执行该操作的权限',
+};
+
+// 常见错误的提示，没有对应分类时使用服务器给出的提示
+export const errorHint = (info: QueryErrorInfo): string | undefined =>
+  (info.kind && HINTS[info.kind]) || info.hint;
+
+// 错误码摘要，如 ER_BAD_FIELD_ERROR (1054) · SQLSTATE 42S22 · 第 2 行
+export const errorCodeLabel = (info: QueryErrorInfo): string =>
+  [
+    info.code && (info.errno !== undefined && info.errno > 0 ? `${info.code} (${info.errno})` : info.code),
+    info.sqlState && info.sqlState !== info.code && `SQLSTATE ${info.sqlState}`,
+    info.line !== undefined && `第 ${info.line} 行`,
+  ].filter(Boolean).join(' · ');
+
+/**
+ * 出错位置在编辑器文档中的范围。exact 表示执行的就是语句原文，position 可直接换算；
+ * 参数绑定后的语句与原文位置不一致，改为在原文中查找出错的标识符。
+ */
+export const errorRange = (
+  info: QueryErrorInfo,
+  statement: SqlStatement,
+  exact: boolean
+): { from: number; to: number } | null => {
+  const length = info.token?.length ?? 0;
+  if (exact && info.position !== undefined) {
+    const from = statement.start + Math.min(info.position, statement.text.length);
+    return { from, to: from + length };
+  }
+  if (!info.token) return null;
+  const index = statement.text.toLowerCase().indexOf(info.token.toLowerCase());
+  return index === -1 ? null : { from: statement.start + index, to: statement.start + index + length };
+};
@@ -0,0 +1,96 @@
+// 查询标签页：各自的 SQL、绑定的连接和数据库。标签页保存在 localStorage 中，重启后恢复
+export interface QueryTab {
+  id: string;
+  title: string;
+  sql: string;
+  // 连接配置 ID，重新连接后随连接 ID 更新
+  connectionId: string | null;
+  database: string | null;
+  // 固定的标签页排在最前，不能关闭
+  pinned: boolean;
+}
+
+export interface QueryTabsState {
+  tabs: QueryTab[];
+  activeId: string;
+}
+
+const STORAGE_KEY = 'query-tabs';
+const DEFAULT_SQL = 'SELECT * FROM users LIMIT 10;';
+
+// 新标签页标题：查询 N，N 取未使用的最小编号
+const nextTitle = (tabs: QueryTab[]) => {
+  const used = new Set(tabs.map(t => t.title));
+  let n = 1;
+  while (used.has(`查询 ${n}`)) n++;
+  return `查询 ${n}`;
+};
+
+export const createTab = (
+  tabs: QueryTab[],
+  connectionId: string | null,
+  database: string | null,
+  sql = ''
+): QueryTab => ({
+  id: crypto.randomUUID(),
+  title: nextTitle(tabs),
+  sql,
+  connectionId,
+  database,
+  pinned: false,
+});
+
+const isTab = (tab: any): tab is QueryTab =>
+  tab && typeof tab.id === 'string' && typeof tab.title === 'string' && typeof tab.sql === 'string';
+
+export const loadTabs = (): QueryTabsState => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null');
+    const tabs: QueryTab[] = Array.isArray(saved?.tabs)
+      ? saved.tabs.filter(isTab).map((t: QueryTab) => ({
+        ...t,
+        connectionId: t.connectionId ?? null,
+        database: t.database ?? null,
+        pinned: !!t.pinned,
+      }))
+      : [];
+    if (tabs.length > 0) {
+      const activeId = tabs.some(t => t.id === saved.activeId) ? saved.activeId : tabs[0].id;
+      return { tabs, activeId };
+    }
+  } catch {
+    // 保存的内容损坏时重新开始
+  }
+  const tab = createTab([], null, null, DEFAULT_SQL);
+  return { tabs: [tab], activeId: tab.id };
+};
+
+export const saveTabs = (state: QueryTabsState): void => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(state));
+  } catch {
+    // 存储空间不足时不保存
+  }
+};
+
+// 移动标签页到 target 之前（target 为 null 时移到最后），固定和未固定的标签页各自排序
+export const moveTab = (tabs: QueryTab[], id: string, targetId: string | null): QueryTab[] => {
+  const tab = tabs.find(t => t.id === id);
+  if (!tab || id === targetId) return tabs;
+  const rest = tabs.filter(t => t.id !== id);
+  const target = rest.findIndex(t => t.id === targetId);
+  const index = target === -1 ? rest.length : target;
+  // 不能越过固定和未固定标签页的分界
+  const boundary = rest.filter(t => t.pinned).length;
+  const clamped = tab.pinned ? Math.min(index, boundary) : Math.max(index, boundary);
+  return [...rest.slice(0, clamped), tab, ...rest.slice(clamped)];
+};
+
+// 固定或取消固定，固定的标签页移到固定区的末尾
+export const setTabPinned = (tabs: QueryTab[], id: string, pinned: boolean): QueryTab[] => {
+  const tab = tabs.find(t => t.id === id);
+  if (!tab) return tabs;
+  const rest = tabs.filter(t => t.id !== id);
+  const boundary = rest.filter(t => t.pinned).length;
+  return [...rest.slice(0, boundary), { ...tab, pinned }, ...rest.slice(boundary)];
+};
@@ -0,0 +1,35 @@
+// 用于定位表中一行的列
+export interface RowKeyInfo {
+  columns: string[];
+  // primary: 主键；unique: 非空唯一索引；all: 两者都没有，按全部列的原值匹配
+  source: 'primary' | 'unique' | 'all';
+}
+
+/**
+ * 根据列信息（SHOW COLUMNS 结构）和索引（SHOW INDEX 结构）确定行定位方式：
+ * 优先使用主键（可能为多列），其次是所有列都不允许为空的唯一索引，否则使用全部列。
+ */
+export const resolveRowKey = (columnInfo: any[], indexes: any[] = []): RowKeyInfo => {
+  const primary = columnInfo.filter(c => c.Key === 'PRI').map(c => c.Field as string);
+  if (primary.length > 0) {
+    return { columns: primary, source: 'primary' };
+  }
+
+  // 可为空的列中 NULL 不参与唯一约束，不能用来定位行
+  const notNull = new Set(columnInfo.filter(c => c.Null === 'NO').map(c => c.Field));
+  const uniqueIndexes = new Map<string, { seq: number; column: string }[]>();
+  for (const row of indexes) {
+    if (Number(row.Non_unique) !== 0) continue;
+    const parts = uniqueIndexes.get(row.Key_name) || [];
+    parts.push({ seq: Number(row.Seq_in_index), column: row.Column_name });
+    uniqueIndexes.set(row.Key_name, parts);
+  }
+  for (const parts of uniqueIndexes.values()) {
+    const columns = parts.sort((a, b) => a.seq - b.seq).map(p => p.column);
+    if (columns.every(col => notNull.has(col))) {
+      return { columns, source: 'unique' };
+    }
+  }
+
+  return { columns: columnInfo.map(c => c.Field), source: 'all' };
+};
@@ -0,0 +1,274 @@
+import type { Completion, CompletionContext, CompletionResult, CompletionSource } from '@codemirror/autocomplete';
+import { keywordCompletionSource, MySQL, PostgreSQL, SQLite } from '@codemirror/lang-sql';
+import { DialectName, skipNonCode, statementAt } from './sqlSplitter';
+
+// 主进程 ColumnInfo
+interface ColumnInfo {
+  name: string;
+  type: string;
+}
+
+interface Token {
+  text: string;
+  // 引号中的标识符，不作为关键字
+  quoted: boolean;
+}
+
+// 语句中引用的表，如 FROM db.users AS u
+interface TableRef {
+  parts: string[];
+  alias?: string;
+}
+
+const DIALECTS = {
+  mysql: MySQL,
+  postgresql: PostgreSQL,
+  sqlite: SQLite,
+};
+
+const COMMON_FUNCTIONS = [
+  'COUNT', 'SUM', 'AVG', 'MIN', 'MAX', 'COALESCE', 'NULLIF', 'CAST', 'ABS', 'ROUND', 'FLOOR',
+  'LOWER', 'UPPER', 'TRIM', 'LTRIM', 'RTRIM', 'LENGTH', 'SUBSTR', 'REPLACE', 'ROW_NUMBER', 'RANK',
+  'DENSE_RANK', 'LAG', 'LEAD',
+];
+
+const FUNCTIONS: Record<DialectName, string[]> = {
+  mysql: [
+    ...COMMON_FUNCTIONS, 'CONCAT', 'CONCAT_WS', 'GROUP_CONCAT', 'IFNULL', 'IF', 'NOW', 'CURDATE', 'CURTIME',
+    'DATE_FORMAT', 'DATE_ADD', 'DATE_SUB', 'DATEDIFF', 'TIMESTAMPDIFF', 'UNIX_TIMESTAMP', 'FROM_UNIXTIME',
+    'SUBSTRING', 'CHAR_LENGTH', 'LOCATE', 'JSON_EXTRACT', 'JSON_OBJECT', 'JSON_ARRAY', 'LAST_INSERT_ID',
+    'UUID', 'CEIL', 'RAND',
+  ],
+  postgresql: [
+    ...COMMON_FUNCTIONS, 'CONCAT', 'STRING_AGG', 'ARRAY_AGG', 'NOW', 'DATE_TRUNC', 'DATE_PART', 'EXTRACT',
+    'AGE', 'TO_CHAR', 'TO_DATE', 'TO_TIMESTAMP', 'SUBSTRING', 'POSITION', 'JSONB_BUILD_OBJECT',
+    'JSON_AGG', 'JSONB_AGG', 'GENERATE_SERIES', 'GEN_RANDOM_UUID', 'UNNEST', 'GREATEST', 'LEAST', 'CEIL',
+    'RANDOM',
+  ],
+  sqlite: [
+    ...COMMON_FUNCTIONS, 'IFNULL', 'IIF', 'GROUP_CONCAT', 'DATE', 'TIME', 'DATETIME', 'JULIANDAY',
+    'STRFTIME', 'INSTR', 'PRINTF', 'JSON_EXTRACT', 'JSON_OBJECT', 'JSON_ARRAY', 'LAST_INSERT_ROWID',
+    'RANDOM', 'TYPEOF',
+  ],
+};
+
+// 后面跟表名的关键字
+const TABLE_KEYWORDS = new Set(['FROM', 'JOIN', 'UPDATE', 'INTO', 'TABLE']);
+// 表名后出现时不是别名的关键字
+const NOT_ALIAS = new Set([
+  'WHERE', 'ON', 'USING', 'JOIN', 'INNER', 'LEFT', 'RIGHT', 'FULL', 'OUTER', 'CROSS', 'NATURAL', 'STRAIGHT_JOIN',
+  'SET', 'VALUES', 'SELECT', 'ORDER', 'GROUP', 'HAVING', 'LIMIT', 'OFFSET', 'FETCH', 'WINDOW', 'UNION',
+  'EXCEPT', 'INTERSECT', 'RETURNING', 'FOR', 'LATERAL', 'DEFAULT',
+]);
+// 逗号所在的子句，FROM 子句中逗号后补全表名
+const CLAUSE_KEYWORDS = new Set(['SELECT', 'FROM', 'WHERE', 'SET', 'BY', 'HAVING', 'VALUES', 'ON', 'USING']);
+
+const IDENT_START = /[A-Za-z_\u0080-\uffff]/;
+const IDENT_CHAR = /[A-Za-z0-9_$\u0080-\uffff]/;
+const SIMPLE_IDENT = /^[A-Za-z_][A-Za-z0-9_]*$/;
+// 光标前的 “限定名.”，如 u. 或 `order`.
+const QUALIFIER = /(?:([A-Za-z0-9_$\u0080-\uffff]+)|`([^`]+)`|"([^"]+)"|\[([^\]]+)\])\.$/;
+
+const identifierQuotes = (dialect: DialectName): string => {
+  switch (dialect) {
+    case 'mysql': return '`';
+    case 'postgresql': return '"';
+    default: return '`"[';
+  }
+};
+
+// 把 SQL 拆成标识符、关键字和标点，跳过字符串和注释
+const tokenize = (sql: string, dialect: DialectName): Token[] => {
+  const tokens: Token[] = [];
+  const quotes = identifierQuotes(dialect);
+  let i = 0;
+  while (i < sql.length) {
+    const ch = sql[i];
+    const skipped = skipNonCode(sql, i, dialect);
+    if (skipped) {
+      if (skipped.literal && quotes.includes(ch)) {
+        const close = ch === '[' ? ']' : ch;
+        tokens.push({ text: sql.slice(i + 1, skipped.end - 1).split(close + close).join(close), quoted: true });
+      }
+      i = skipped.end;
+      continue;
+    }
+    if (IDENT_START.test(ch)) {
+      let end = i + 1;
+      while (end < sql.length && IDENT_CHAR.test(sql[end])) end++;
+      tokens.push({ text: sql.slice(i, end), quoted: false });
+      i = end;
+      continue;
+    }
+    if (!/\s/.test(ch)) {
+      tokens.push({ text: ch, quoted: false });
+    }
+    i++;
+  }
+  return tokens;
+};
+
+const isIdentifier = (token?: Token) => !!token && (token.quoted || IDENT_START.test(token.text[0]));
+const keywordOf = (token?: Token) => (token && !token.quoted ? token.text.toUpperCase() : '');
+
+// 找出语句中 FROM / JOIN / UPDATE / INTO 后引用的表及其别名
+const findTableRefs = (tokens: Token[]): TableRef[] => {
+  const refs: TableRef[] = [];
+  for (let i = 0; i < tokens.length; i++) {
+    const keyword = keywordOf(tokens[i]);
+    if (!TABLE_KEYWORDS.has(keyword)) continue;
+
+    let j = i + 1;
+    while (isIdentifier(tokens[j])) {
+      const parts = [tokens[j++].text];
+      while (tokens[j]?.text === '.' && isIdentifier(tokens[j + 1])) {
+        parts.push(tokens[j + 1].text);
+        j += 2;
+      }
+      if (keywordOf(tokens[j]) === 'AS') j++;
+      let alias: string | undefined;
+      if (isIdentifier(tokens[j]) && !NOT_ALIAS.has(keywordOf(tokens[j]))) {
+        alias = tokens[j++].text;
+      }
+      refs.push({ parts, alias });
+      // FROM a, b 中的多个表
+      if (keyword !== 'FROM' || tokens[j]?.text !== ',') break;
+      j++;
+    }
+    i = j - 1;
+  }
+  return refs;
+};
+
+// 光标处是否应补全表名：表名关键字之后，或 FROM 子句中的逗号之后
+const expectsTable = (tokens: Token[]): boolean => {
+  const last = tokens[tokens.length - 1];
+  if (TABLE_KEYWORDS.has(keywordOf(last))) return true;
+  if (last?.text !== ',') return false;
+  for (let i = tokens.length - 2; i >= 0; i--) {
+    const keyword = keywordOf(tokens[i]);
+    if (keyword === 'FROM') return true;
+    if (CLAUSE_KEYWORDS.has(keyword)) return false;
+  }
+  return false;
+};
+
+export interface CompletionTarget {
+  connectionId: string;
+  database: string;
+  dialect: DialectName;
+}
+
+/**
+ * 按数据库结构的 SQL 自动补全：FROM / JOIN 等之后补全表名，“别名.” 之后补全该表的列，
+ * 其他位置补全关键字、方言函数、表名和语句中已引用表的列。表和列由主进程缓存。
+ */
+export const createSqlCompletion = ({ connectionId, database, dialect }: CompletionTarget): CompletionSource => {
+  const keywords = keywordCompletionSource(DIALECTS[dialect], true);
+  const functions: Completion[] = FUNCTIONS[dialect].map(name => ({ label: name, type: 'function', apply: `${name}(` }));
+
+  const quote = (name: string) => {
+    if (SIMPLE_IDENT.test(name)) return name;
+    const q = dialect === 'mysql' ? '`' : '"';
+    return q + name.split(q).join(q + q) + q;
+  };
+
+  const fetchList = async <T>(request: Promise<any>): Promise<T[]> => {
+    try {
+      const result = await request;
+      return result.success ? result.data : [];
+    } catch {
+      return [];
+    }
+  };
+  const getDatabases = () => fetchList<string>(window.electronAPI.getCompletionDatabases(connectionId));
+  const getTables = (db = database) => fetchList<string>(window.electronAPI.getCompletionTables(connectionId, db));
+  const getColumns = (ref: TableRef) => {
+    // MySQL 的 db.table 是其他数据库的表；PostgreSQL 的 schema.table 整体作为表名
+    const { parts } = ref;
+    if (dialect === 'mysql' && parts.length > 1) {
+      return fetchList<ColumnInfo>(window.electronAPI.getCompletionColumns(connectionId, parts[0], parts[1]));
+    }
+    const qualified = dialect === 'postgresql' && parts.length > 1 && parts[parts.length - 2] !== 'public';
+    const table = qualified ? parts.slice(-2).join('.') : parts[parts.length - 1];
+    return fetchList<ColumnInfo>(window.electronAPI.getCompletionColumns(connectionId, database, table));
+  };
+
+  const tableOptions = (tables: string[], boost = 0): Completion[] =>
+    tables.map(name => ({
+      label: name,
+      type: 'class',
+      apply: dialect === 'postgresql' ? name.split('.').map(quote).join('.') : quote(name),
+      boost,
+    }));
+  const columnOptions = (columns: ColumnInfo[], boost = 0): Completion[] =>
+    columns.map(column => ({ label: column.name, type: 'property', detail: column.type, apply: quote(column.name), boost }));
+
+  // “限定名.” 之后：别名或表名的列、MySQL 数据库中的表、PostgreSQL schema 中的表
+  const qualifiedOptions = async (qualifier: string, refs: TableRef[]): Promise<Completion[]> => {
+    const lower = qualifier.toLowerCase();
+    const ref = refs.find(r => r.alias?.toLowerCase() === lower)
+      || refs.find(r => !r.alias && r.parts[r.parts.length - 1].toLowerCase() === lower);
+    if (ref) {
+      return columnOptions(await getColumns(ref));
+    }
+    if (dialect === 'mysql' && (await getDatabases()).some(db => db.toLowerCase() === lower)) {
+      return tableOptions(await getTables(qualifier));
+    }
+    const tables = await getTables();
+    if (dialect === 'postgresql') {
+      const inSchema = tables
+        .filter(t => t.toLowerCase().startsWith(`${lower}.`))
+        .map(t => t.slice(qualifier.length + 1));
+      if (inSchema.length > 0) return tableOptions(inSchema);
+    }
+    // 尚未写 FROM 时直接按表名补全列
+    const table = tables.find(t => t.toLowerCase() === lower);
+    return table ? columnOptions(await getColumns({ parts: [table] })) : [];
+  };
+
+  return async (context: CompletionContext): Promise<CompletionResult | null> => {
+    const word = context.matchBefore(/[A-Za-z0-9_$\u0080-\uffff]*/);
+    if (!word) return null;
+    const doc = context.state.doc.toString();
+    const qualifier = QUALIFIER.exec(doc.slice(Math.max(0, word.from - 130), word.from));
+    if (word.from === word.to && !context.explicit && !qualifier) return null;
+    // 字符串和注释中不补全
+    if (context.tokenBefore(['String', 'LineComment', 'BlockComment'])) return null;
+
+    const statement = statementAt(doc, context.pos, dialect);
+    const start = statement && statement.start <= word.from ? statement.start : word.from;
+    const end = Math.max(statement?.end ?? 0, context.pos);
+    // 正在输入的名称不算作已引用的表
+    const typing = word.from - (qualifier ? qualifier[0].length : 0);
+    const refs = findTableRefs(tokenize(doc.slice(start, typing) + ' ' + doc.slice(word.to, end), dialect));
+    const result = (options: Completion[]): CompletionResult => ({ from: word.from, options, validFor: /^[A-Za-z0-9_$\u0080-\uffff]*$/ });
+
+    if (qualifier) {
+      const name = qualifier[1] || qualifier[2] || qualifier[3] || qualifier[4];
+      return result(await qualifiedOptions(name, refs));
+    }
+
+    if (expectsTable(tokenize(doc.slice(start, word.from), dialect))) {
+      const [tables, databases] = await Promise.all([getTables(), dialect === 'mysql' ? getDatabases() : Promise.resolve([])]);
+      return result([
+        ...tableOptions(tables, 1),
+        ...databases.map(db => ({ label: db, type: 'namespace', apply: quote(db) })),
+      ]);
+    }
+
+    const [keywordResult, tables, columns] = await Promise.all([
+      keywords(context),
+      getTables(),
+      Promise.all(refs.map(getColumns)),
+    ]);
+    // 多个表的同名列只列出一次
+    const referenced = new Map(columns.flat().map(c => [c.name, c]));
+    return result([
+      ...columnOptions([...referenced.values()], 2),
+      ...tableOptions(tables, 1),
+      ...functions,
+      ...(keywordResult?.options || []),
+    ]);
+  };
+};
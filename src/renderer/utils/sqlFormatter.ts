@@ -0,0 +1,190 @@
+import { format } from 'sql-formatter';
+import type { ParamTypes } from 'sql-formatter';
+import { DELIMITER_COMMAND, DialectName, skipNonCode, splitSqlStatements } from './sqlSplitter';
+
+export type KeywordCase = 'upper' | 'lower' | 'preserve';
+// 逗号放在行尾还是下一行行首
+export type CommaPosition = 'after' | 'before';
+
+export interface SqlFormatOptions {
+  keywordCase: KeywordCase;
+  // 缩进空格数
+  indent: number;
+  // 括号中的表达式不超过该宽度时保持在一行
+  lineWidth: number;
+  commaPosition: CommaPosition;
+}
+
+export const DEFAULT_FORMAT_OPTIONS: SqlFormatOptions = {
+  keywordCase: 'upper',
+  indent: 2,
+  lineWidth: 50,
+  commaPosition: 'after',
+};
+
+const STORAGE_KEY = 'sql-format-options';
+
+// 编辑器支持的参数占位符（见 sqlParameters），格式化时保持原样
+const TEMPLATE_PARAMETER = { regex: String.raw`\$\{[A-Za-z_][A-Za-z0-9_]*\}` };
+const PARAM_TYPES: Record<DialectName, ParamTypes> = {
+  mysql: { positional: true, named: [':'], custom: [TEMPLATE_PARAMETER] },
+  postgresql: { numbered: ['$'], named: [':'], custom: [TEMPLATE_PARAMETER] },
+  sqlite: { positional: true, named: [':'], custom: [TEMPLATE_PARAMETER] },
+};
+
+export const loadFormatOptions = (): SqlFormatOptions => {
+  try {
+    return { ...DEFAULT_FORMAT_OPTIONS, ...JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}') };
+  } catch {
+    return DEFAULT_FORMAT_OPTIONS;
+  }
+};
+
+export const saveFormatOptions = (options: SqlFormatOptions): void => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(options));
+};
+
+// 把行尾的逗号移到下一行行首，字符串和注释中的逗号不处理
+const moveCommasToLineStart = (sql: string, dialect: DialectName): string => {
+  let result = '';
+  let i = 0;
+  while (i < sql.length) {
+    const skipped = skipNonCode(sql, i, dialect);
+    if (skipped) {
+      result += sql.slice(i, skipped.end);
+      i = skipped.end;
+      continue;
+    }
+    const trailing = sql[i] === ',' && /^[ \t]*\n([ \t]*)/.exec(sql.slice(i + 1));
+    if (trailing) {
+      result += `\n${trailing[1]}, `;
+      i += 1 + trailing[0].length;
+      continue;
+    }
+    result += sql[i++];
+  }
+  return result;
+};
+
+// 语句是否以单行注释结尾，此时分隔符需要另起一行
+const endsWithLineComment = (sql: string, dialect: DialectName): boolean => {
+  let i = 0;
+  while (i < sql.length) {
+    const skipped = skipNonCode(sql, i, dialect);
+    if (skipped?.end === sql.length && !skipped.literal && !sql.startsWith('/*', i)) return true;
+    i = skipped ? skipped.end : i + 1;
+  }
+  return false;
+};
+
+const formatStatement = (sql: string, dialect: DialectName, options: SqlFormatOptions): string => {
+  const formatted = format(sql, {
+    language: dialect,
+    keywordCase: options.keywordCase,
+    dataTypeCase: options.keywordCase,
+    functionCase: options.keywordCase,
+    tabWidth: options.indent,
+    expressionWidth: options.lineWidth,
+    paramTypes: PARAM_TYPES[dialect],
+  });
+  const result = options.commaPosition === 'before' ? moveCommasToLineStart(formatted, dialect) : formatted;
+  return endsWithLineComment(result, dialect) ? `${result}\n` : result;
+};
+
+/**
+ * 格式化 SQL 脚本：逐条格式化语句（子查询、CASE 缩进，关键字大小写，逗号位置），
+ * 语句之间的分隔符、注释和 DELIMITER 命令保持不变。
+ */
+export const formatSql = (sql: string, dialect: DialectName = 'mysql', options: SqlFormatOptions = DEFAULT_FORMAT_OPTIONS): string => {
+  const statements = splitSqlStatements(sql, dialect);
+  if (statements.length === 0) return sql;
+
+  let result = sql.slice(0, statements[0].start);
+  statements.forEach((statement, index) => {
+    try {
+      result += formatStatement(statement.text, dialect, options);
+    } catch (e: any) {
+      throw new Error(statements.length > 1 ? `Statement ${index + 1}: ${e.message}` : e.message);
+    }
+    // 分隔符紧跟语句，语句之间空一行
+    const gap = sql.slice(statement.end, statements[index + 1]?.start ?? sql.length).trimStart();
+    result += index < statements.length - 1 ? gap.replace(/\s*$/, '\n\n') : gap.trimEnd();
+  });
+  return result;
+};
+
+// 去掉注释、合并空白后的单条语句；保留 MySQL 的 /*! */ 条件注释和 /*+ */ 优化器提示
+const minifyStatement = (sql: string, dialect: DialectName): string => {
+  let result = '';
+  let space = false;
+  const append = (text: string) => {
+    if (space && result && !/[,(]$/.test(result) && !/^[,);]/.test(text)) {
+      result += ' ';
+    }
+    result += text;
+    space = false;
+  };
+
+  let i = 0;
+  while (i < sql.length) {
+    const skipped = skipNonCode(sql, i, dialect);
+    if (skipped) {
+      const text = sql.slice(i, skipped.end);
+      if (skipped.literal || /^\/\*[!+]/.test(text)) {
+        append(text);
+      } else {
+        space = true;
+      }
+      i = skipped.end;
+      continue;
+    }
+    if (/\s/.test(sql[i])) {
+      space = true;
+    } else {
+      append(sql[i]);
+    }
+    i++;
+  }
+  return result;
+};
+
+/**
+ * 压缩为一行，便于复制到代码中。
+ * MySQL 的 DELIMITER 命令必须单独成行，保留为单独的行，语句以当时的分隔符结尾。
+ */
+export const minifySql = (sql: string, dialect: DialectName = 'mysql'): string => {
+  const statements = splitSqlStatements(sql, dialect);
+  let delimiter = ';';
+  let result = '';
+
+  // 语句之间只有分隔符、空白、注释和 DELIMITER 命令
+  const keepCommands = (gap: string) => {
+    if (dialect !== 'mysql') return;
+    let i = 0;
+    while (i < gap.length) {
+      const skipped = skipNonCode(gap, i, dialect);
+      if (skipped) {
+        i = skipped.end;
+        continue;
+      }
+      const match = DELIMITER_COMMAND.exec(gap.slice(i));
+      if (match) {
+        delimiter = match[1];
+        result = `${result.trimEnd()}${result ? '\n' : ''}DELIMITER ${delimiter}\n`;
+        i += match[0].length;
+        continue;
+      }
+      i++;
+    }
+  };
+
+  keepCommands(sql.slice(0, statements[0]?.start ?? sql.length));
+  statements.forEach((statement, index) => {
+    const gap = sql.slice(statement.end, statements[index + 1]?.start ?? sql.length);
+    if (result && !result.endsWith('\n')) result += ' ';
+    result += minifyStatement(statement.text, dialect);
+    if (gap.trimStart().startsWith(delimiter)) result += delimiter;
+    keepCommands(gap);
+  });
+  return result.trimEnd();
+};
@@ -0,0 +1,116 @@
+import { DialectName, skipNonCode } from './sqlSplitter';
+
+// SQL 中的一个参数占位符。? 按出现顺序编号，PostgreSQL 的 $n 按编号，
+// :name 和 ${name} 按名称，同名（同编号）参数共用一个值
+export interface SqlParameter {
+  // 参数名，位置参数为其序号（从 1 开始）
+  name: string;
+  // 界面上的显示名，如 ?1、$1、:id、${id}
+  label: string;
+  start: number;
+  end: number;
+}
+
+export type ParameterType = 'string' | 'number' | 'null' | 'date';
+
+// 参数值及其类型，由主进程按类型转换后绑定
+export interface ParameterValue {
+  type: ParameterType;
+  value: string;
+}
+
+const NAME_START = /[A-Za-z_]/;
+const NAME_CHAR = /[A-Za-z0-9_]/;
+const TEMPLATE = /^\$\{([A-Za-z_][A-Za-z0-9_]*)\}/;
+const NUMBERED = /^\$(\d+)(?![A-Za-z0-9_$])/;
+
+/**
+ * 查找 SQL 中的参数占位符，跳过字符串、注释和引用标识符。
+ * PostgreSQL 的类型转换 ::type、MySQL 的赋值 := 不视为参数；
+ * PostgreSQL 中 ? 是 jsonb 运算符，不作为参数，使用其原生的 $n。
+ */
+export const findParameters = (sql: string, dialect: DialectName = 'mysql'): SqlParameter[] => {
+  const parameters: SqlParameter[] = [];
+  let positional = 0;
+  let i = 0;
+  while (i < sql.length) {
+    const ch = sql[i];
+    if (ch === '$') {
+      const match = TEMPLATE.exec(sql.slice(i, i + 130)) || (dialect === 'postgresql' ? NUMBERED.exec(sql.slice(i, i + 12)) : null);
+      if (match) {
+        parameters.push({ name: match[1], label: match[0], start: i, end: i + match[0].length });
+        i += match[0].length;
+        continue;
+      }
+    }
+
+    const skipped = skipNonCode(sql, i, dialect);
+    if (skipped) {
+      i = skipped.end;
+      continue;
+    }
+
+    if (ch === '?' && dialect !== 'postgresql') {
+      positional++;
+      parameters.push({ name: String(positional), label: `?${positional}`, start: i, end: i + 1 });
+    } else if (ch === ':' && sql[i - 1] !== ':' && NAME_START.test(sql[i + 1] || '') && !NAME_CHAR.test(sql[i - 1] || '')) {
+      let end = i + 2;
+      while (end < sql.length && NAME_CHAR.test(sql[end])) end++;
+      parameters.push({ name: sql.slice(i + 1, end), label: sql.slice(i, end), start: i, end });
+      i = end;
+      continue;
+    }
+    i++;
+  }
+  return parameters;
+};
+
+// 去重后的参数，按首次出现的顺序
+export const uniqueParameters = (sql: string, dialect: DialectName = 'mysql'): SqlParameter[] => {
+  const seen = new Set<string>();
+  return findParameters(sql, dialect).filter(p => {
+    if (seen.has(p.name)) return false;
+    seen.add(p.name);
+    return true;
+  });
+};
+
+/**
+ * 把参数占位符替换为驱动的位置占位符（MySQL / SQLite 为 ?，PostgreSQL 为 $n），
+ * 返回替换后的 SQL 和按位置排列的参数值。PostgreSQL 中同名参数共用一个位置。
+ * 指定 range 时只处理脚本中该范围内的语句，? 的编号仍按整个脚本计算。
+ */
+export const bindParameters = <T>(
+  sql: string,
+  values: Record<string, T>,
+  dialect: DialectName = 'mysql',
+  range: { start: number; end: number } = { start: 0, end: sql.length }
+): { sql: string; params: T[] } => {
+  const parameters = findParameters(sql, dialect).filter(p => p.start >= range.start && p.end <= range.end);
+
+  const params: T[] = [];
+  const positions = new Map<string, number>();
+  let text = '';
+  let last = range.start;
+  for (const { name, label, start, end } of parameters) {
+    if (!(name in values)) {
+      throw new Error(`Missing value for parameter ${label}`);
+    }
+    let placeholder: string;
+    if (dialect === 'postgresql') {
+      let position = positions.get(name);
+      if (position === undefined) {
+        params.push(values[name]);
+        position = params.length;
+        positions.set(name, position);
+      }
+      placeholder = `$${position}`;
+    } else {
+      params.push(values[name]);
+      placeholder = '?';
+    }
+    text += sql.slice(last, start) + placeholder;
+    last = end;
+  }
+  return { sql: text + sql.slice(last, range.end), params };
+};
@@ -0,0 +1,138 @@
+export interface SqlStatement {
+  // 去掉首尾空白和分隔符后的语句
+  text: string;
+  // 语句在原始脚本中的起止位置
+  start: number;
+  end: number;
+}
+
+export type DialectName = 'mysql' | 'postgresql' | 'sqlite';
+
+export const DELIMITER_COMMAND = /^DELIMITER[ \t]+(\S+)[^\n]*/i;
+
+// 匹配 PostgreSQL 的 dollar 引用标记，如 $$ 或 $body$
+const matchDollarTag = (sql: string, i: number): string | null => {
+  const match = /^\$([A-Za-z_][A-Za-z0-9_]*)?\$/.exec(sql.slice(i, i + 64));
+  return match ? match[0] : null;
+};
+
+/**
+ * 如果 i 处是注释、字符串、引用标识符或 PostgreSQL dollar 引用，返回其结束位置；
+ * literal 表示跳过的是字符串或标识符（属于语句内容）而不是注释。
+ */
+export const skipNonCode = (sql: string, i: number, dialect: DialectName): { end: number; literal: boolean } | null => {
+  const ch = sql[i];
+  const next = sql[i + 1];
+
+  // 单行注释，MySQL 的 -- 后必须跟空白
+  const isDashComment = ch === '-' && next === '-' && (dialect !== 'mysql' || !sql[i + 2] || /\s/.test(sql[i + 2]));
+  if (isDashComment || (ch === '#' && dialect === 'mysql')) {
+    const end = sql.indexOf('\n', i);
+    return { end: end === -1 ? sql.length : end + 1, literal: false };
+  }
+
+  // 块注释
+  if (ch === '/' && next === '*') {
+    const end = sql.indexOf('*/', i + 2);
+    return { end: end === -1 ? sql.length : end + 2, literal: false };
+  }
+
+  // 字符串和引用标识符，引号重复表示转义；MySQL 字符串中反斜杠也可转义
+  if (ch === "'" || ch === '"' || (ch === '`' && dialect === 'mysql')) {
+    let j = i + 1;
+    while (j < sql.length) {
+      if (sql[j] === '\\' && dialect === 'mysql' && ch !== '`') {
+        j += 2;
+      } else if (sql[j] === ch) {
+        if (sql[j + 1] === ch) {
+          j += 2;
+        } else {
+          j++;
+          break;
+        }
+      } else {
+        j++;
+      }
+    }
+    return { end: Math.min(j, sql.length), literal: true };
+  }
+
+  if (ch === '$' && dialect === 'postgresql') {
+    const tag = matchDollarTag(sql, i);
+    if (tag) {
+      const end = sql.indexOf(tag, i + tag.length);
+      return { end: end === -1 ? sql.length : end + tag.length, literal: true };
+    }
+  }
+
+  return null;
+};
+
+/**
+ * 将 SQL 脚本按分隔符拆分为多条语句。
+ * 跳过字符串、引用标识符和注释中的分隔符，支持 MySQL 客户端的 DELIMITER 命令
+ * 和 PostgreSQL 的 dollar 引用（$$ ... $$）。只含注释的片段会被忽略。
+ */
+export const splitSqlStatements = (sql: string, dialect: DialectName = 'mysql'): SqlStatement[] => {
+  const statements: SqlStatement[] = [];
+  let delimiter = ';';
+  let start = 0;
+  // 当前语句中是否出现过注释以外的内容
+  let hasCode = false;
+  let i = 0;
+
+  const pushStatement = (end: number) => {
+    if (hasCode) {
+      const raw = sql.slice(start, end);
+      const leading = raw.length - raw.trimStart().length;
+      const text = raw.trim();
+      statements.push({ text, start: start + leading, end: start + leading + text.length });
+    }
+    hasCode = false;
+  };
+
+  while (i < sql.length) {
+    const ch = sql[i];
+
+    // DELIMITER 命令只能出现在语句开头，本身不发送给服务器
+    if (!hasCode && dialect === 'mysql' && (ch === 'D' || ch === 'd')) {
+      const lineEnd = sql.indexOf('\n', i);
+      const match = DELIMITER_COMMAND.exec(sql.slice(i, lineEnd === -1 ? sql.length : lineEnd));
+      if (match) {
+        delimiter = match[1];
+        i += match[0].length;
+        start = i;
+        continue;
+      }
+    }
+
+    // 注释、字符串和 dollar 引用中的分隔符不拆分
+    const skipped = skipNonCode(sql, i, dialect);
+    if (skipped) {
+      if (skipped.literal) hasCode = true;
+      i = skipped.end;
+      continue;
+    }
+
+    if (sql.startsWith(delimiter, i)) {
+      pushStatement(i);
+      i += delimiter.length;
+      start = i;
+      continue;
+    }
+
+    if (!/\s/.test(ch)) {
+      hasCode = true;
+    }
+    i++;
+  }
+
+  pushStatement(sql.length);
+  return statements;
+};
+
+// 光标所在的语句；光标在两条语句之间时取前一条，在第一条之前时取第一条
+export const statementAt = (sql: string, position: number, dialect: DialectName = 'mysql'): SqlStatement | null => {
+  const statements = splitSqlStatements(sql, dialect);
+  return statements.filter(s => s.start <= position).pop() || statements[0] || null;
+};
@@ -0,0 +1,143 @@
+import { RefObject, useEffect, useMemo, useState } from 'react';
+
+export interface VirtualRange {
+  // 渲染区间 [start, end)
+  start: number;
+  end: number;
+  // 区间前后未渲染部分的像素尺寸，用占位元素撑开
+  before: number;
+  after: number;
+}
+
+interface VirtualGridOptions {
+  rowCount: number;
+  rowHeight: number;
+  columnWidths: number[];
+  // 左侧不参与横向虚拟化的固定列总宽度（选择框、操作列）
+  fixedWidth?: number;
+  overscanRows?: number;
+  overscanColumns?: number;
+}
+
+const MIN_COLUMN_WIDTH = 80;
+const MAX_COLUMN_WIDTH = 320;
+const CHAR_WIDTH = 8;
+const CELL_PADDING = 24;
+const SAMPLE_ROWS = 200;
+
+// 按列名和前若干行内容估算列宽，列宽固定后滚动时不会跳动
+export const measureColumnWidths = (columns: string[], rows: any[]): number[] => {
+  const sample = rows.slice(0, SAMPLE_ROWS);
+  return columns.map(col => {
+    let chars = col.length + 2;
+    for (const row of sample) {
+      const value = row[col];
+      const length = value === null || value === undefined ? 4 : String(value).length;
+      if (length > chars) chars = length;
+    }
+    return Math.min(Math.max(chars * CHAR_WIDTH + CELL_PADDING, MIN_COLUMN_WIDTH), MAX_COLUMN_WIDTH);
+  });
+};
+
+// 在累计偏移数组中查找包含 position 的下标
+const findIndex = (offsets: number[], position: number): number => {
+  let low = 0;
+  let high = offsets.length - 2;
+  while (low < high) {
+    const mid = (low + high + 1) >> 1;
+    if (offsets[mid] <= position) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return Math.max(low, 0);
+};
+
+/**
+ * 表格行列虚拟化：监听容器滚动和尺寸变化，只返回视口内（含预渲染余量）的行和列区间。
+ * 行高固定，列宽由调用方给出。
+ */
+export const useVirtualGrid = (
+  containerRef: RefObject<HTMLElement>,
+  {
+    rowCount,
+    rowHeight,
+    columnWidths,
+    fixedWidth = 0,
+    overscanRows = 10,
+    overscanColumns = 2,
+  }: VirtualGridOptions
+) => {
+  const [viewport, setViewport] = useState({ top: 0, left: 0, width: 0, height: 0 });
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    let frame = 0;
+    const update = () => {
+      frame = 0;
+      setViewport({
+        top: container.scrollTop,
+        left: container.scrollLeft,
+        width: container.clientWidth,
+        height: container.clientHeight,
+      });
+    };
+    // 同一帧内的多次滚动事件只更新一次
+    const schedule = () => {
+      if (!frame) frame = requestAnimationFrame(update);
+    };
+
+    update();
+    container.addEventListener('scroll', schedule, { passive: true });
+    const observer = new ResizeObserver(schedule);
+    observer.observe(container);
+    return () => {
+      container.removeEventListener('scroll', schedule);
+      observer.disconnect();
+      if (frame) cancelAnimationFrame(frame);
+    };
+  }, [containerRef]);
+
+  const columnOffsets = useMemo(() => {
+    const offsets = [0];
+    for (const width of columnWidths) {
+      offsets.push(offsets[offsets.length - 1] + width);
+    }
+    return offsets;
+  }, [columnWidths]);
+
+  const totalWidth = columnOffsets[columnOffsets.length - 1];
+
+  const rowRange: VirtualRange = useMemo(() => {
+    const first = Math.floor(viewport.top / rowHeight);
+    const visible = Math.ceil(viewport.height / rowHeight) + 1;
+    const start = Math.max(0, first - overscanRows);
+    const end = Math.min(rowCount, first + visible + overscanRows);
+    return {
+      start,
+      end: Math.max(start, end),
+      before: start * rowHeight,
+      after: Math.max(0, rowCount - Math.max(start, end)) * rowHeight,
+    };
+  }, [viewport.top, viewport.height, rowCount, rowHeight, overscanRows]);
+
+  const columnRange: VirtualRange = useMemo(() => {
+    const count = columnWidths.length;
+    if (count === 0) return { start: 0, end: 0, before: 0, after: 0 };
+    const left = Math.max(0, viewport.left - fixedWidth);
+    const right = left + Math.max(viewport.width - fixedWidth, 0);
+    const start = Math.max(0, findIndex(columnOffsets, left) - overscanColumns);
+    const end = Math.min(count, findIndex(columnOffsets, right) + 1 + overscanColumns);
+    return {
+      start,
+      end,
+      before: columnOffsets[start],
+      after: totalWidth - columnOffsets[end],
+    };
+  }, [viewport.left, viewport.width, columnOffsets, totalWidth, fixedWidth, overscanColumns]);
+
+  return { rowRange, columnRange, totalWidth };
+};